@@ -1,12 +1,26 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { Vote, DominanceResult, GridSpec, OverlaySettings, ViewportBounds, Region, SharePayload, WeightedVote, User, Friendship } from './domain/types';
-import { getDefaultBoundingBox, getViewportGridSpec } from './domain/geo';
+import type { Vote, DominanceResult, GridSpec, OverlaySettings, ViewportBounds, Region, SharePayload, WeightedVote, User, Friendship, WorkerInput, WorkerDeltaInput, WorkerInfluenceInput, WorkerOutput, InfluenceResult, PlayArea, RegionGraph, DominanceSnapshot, Duel } from './domain/types';
+import { getDefaultBoundingBox, sameGridSpec } from './domain/geo';
+import { getViewportGridSpec } from './domain/tiles';
+import { getPlayArea, setActivePlayArea } from './domain/playAreas';
+import { playAreaForHome } from './domain/landMask';
 import { GAME } from './config/constants';
 import type { StorageInterface } from './storage/StorageInterface';
+import type { PhotoStore } from './storage/PhotoStore';
+import { challengeDuel, purgeDuelPhotos, settleDuels } from './storage/duelActions';
+import { nearestRival, rivalBeerOf, type Rival } from './domain/duels';
 import { BEER_MAP } from './domain/beers';
-import { extractRegions } from './domain/regions';
+import { extractRegionsWithLabels } from './domain/regions';
+import { RegionIdRegistry } from './domain/regionIdentity';
+import { getRegionIds, saveRegionIds } from './storage/RegionIdStore';
+import { buildRegionGraph } from './domain/frontlines';
+import { changeCovering, TerritoryTracker } from './domain/territoryDiff';
+import { flipVoteSpecs } from './domain/flipCost';
+import { buildTerritoryGeoJSON, downloadGeoJSON } from './domain/geojsonExport';
 import { appEvents } from './domain/events';
-import { buildWeightedVotes } from './domain/weights';
+import { getNow } from './domain/clock';
+import { buildWeightedVotes, diffWeightedVotes } from './domain/weights';
+import { decodeSnapshot, replayVotes, replayWeightedVotes } from './domain/history';
 import { decodeShareLink, clearShareParams } from './domain/shareLink';
 import { useAuth } from './auth/AuthProvider';
 import { GoogleLogin } from './auth/GoogleLogin';
@@ -18,9 +32,13 @@ import { SimulationPanel } from './ui/SimulationPanel';
 import { Legend } from './ui/Legend';
 import { QuestsPanel } from './ui/QuestsPanel';
 import { ExploreFeed } from './ui/ExploreFeed';
+import { FrontlinesPanel } from './ui/FrontlinesPanel';
+import { TimeLapse } from './ui/TimeLapse';
 import { ShareModal } from './ui/ShareModal';
 import { HomeStatus } from './ui/HomeStatus';
 import { DuelPanel } from './ui/DuelPanel';
+import { DuelHistory } from './ui/DuelHistory';
+import { DuelLadder } from './ui/DuelLadder';
 import { OnTheRoadButton } from './ui/OnTheRoadButton';
 import { DrinkVoteButton } from './ui/DrinkVoteButton';
 import { TeamPanel } from './ui/TeamPanel';
@@ -31,6 +49,10 @@ import { useQuests } from './hooks/useQuests';
 import { useFeed } from './hooks/useFeed';
 import { usePresence } from './hooks/usePresence';
 import { useChatNotifications } from './hooks/useChatNotifications';
+import { useDuelNotifications } from './hooks/useDuelNotifications';
+import { useDuelRatings } from './hooks/useDuelRatings';
+import { useDominanceHistory } from './hooks/useDominanceHistory';
+import { useTerritoryChanges } from './hooks/useTerritoryChanges';
 import { isFirebaseConfigured } from './config/firebase';
 import {
   clearLegacyVotes,
@@ -44,7 +66,6 @@ import {
 } from './services/firestoreService';
 import './App.css';
 
-const fallbackGridSpec: GridSpec = getDefaultBoundingBox();
 const RADIUS_KM = GAME.HOME_RADIUS_KM;
 
 const FIXED_OVERLAY_SETTINGS: OverlaySettings = {
@@ -58,13 +79,23 @@ const FIXED_OVERLAY_SETTINGS: OverlaySettings = {
   mergeIslandSize: GAME.MERGE_ISLAND_SIZE,
 };
 
+/** Inputs of the last job posted to the worker, to decide full vs. delta */
+interface PostedJob {
+  votes: Vote[];
+  weightedVotes: WeightedVote[];
+  gridSpec: GridSpec;
+  smoothingIterations: number;
+  mergeIslandSize: number;
+}
+
 interface AppProps {
   store: StorageInterface;
+  photos: PhotoStore;
 }
 
 const isDevUser = (id: string) => id.startsWith('dev_');
 
-export default function App({ store }: AppProps) {
+export default function App({ store, photos }: AppProps) {
   const { auth, updateUser, updateLastActive } = useAuth();
 
   // Show auth screens if not authenticated
@@ -99,7 +130,7 @@ export default function App({ store }: AppProps) {
     );
   }
 
-  return <GameApp user={auth.user} store={store} onActivity={updateLastActive} />;
+  return <GameApp user={auth.user} store={store} photos={photos} onActivity={updateLastActive} />;
 }
 
 // ── Main game app (after auth) ──────────────────────────
@@ -107,23 +138,55 @@ export default function App({ store }: AppProps) {
 interface GameAppProps {
   user: User;
   store: StorageInterface;
+  photos: PhotoStore;
   onActivity: () => Promise<void>;
 }
 
-function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
+/** Whole-area grid shown until the map reports its first viewport */
+function areaGridSpec(area: PlayArea): GridSpec {
+  return { ...getDefaultBoundingBox(area), shape: GAME.GRID_SHAPE };
+}
+
+function GameApp({ user: initialUser, store, photos, onActivity }: GameAppProps) {
   const [user, setUser] = useState<User>(initialUser);
+  const playArea = useMemo(() => playAreaForHome(user.homeLat, user.homeLon), [user.homeLat, user.homeLon]);
+  // Everything below gets the area passed in; the active area only serves
+  // domain defaults outside this tree
+  useEffect(() => {
+    setActivePlayArea(playArea.id);
+  }, [playArea]);
   const [votes, setVotes] = useState<Vote[]>([]);
   const [weightedVotes, setWeightedVotes] = useState<WeightedVote[]>([]);
+  /** Replayed moment the weighted votes were built for, null when live */
+  const [weightedVotesAt, setWeightedVotesAt] = useState<number | null>(null);
   const [selectedBeerId, setSelectedBeerId] = useState<string | null>(user.beerId);
   const [dominanceData, setDominanceData] = useState<DominanceResult | null>(null);
-  const [computing, setComputing] = useState(false);
+  /** The shown result replays the past; it must not count as a change */
+  const [dominanceIsReplay, setDominanceIsReplay] = useState(false);
+  /** Where this user's votes decide cells on the current grid */
+  const [influence, setInfluence] = useState<InfluenceResult | null>(null);
+  const [showInfluence, setShowInfluence] = useState(false);
+  /** Moment the map is replayed at (time-lapse), null for the live map */
+  const [replayAt, setReplayAt] = useState<number | null>(null);
+  /** Stored snapshot shown while the time slider is dragged or playing */
+  const [preview, setPreview] = useState<DominanceSnapshot | null>(null);
+  /** Progress (0..1) of the newest dominance job, null when idle */
+  const [computeProgress, setComputeProgress] = useState<number | null>(null);
   const [overlaySettings] = useState<OverlaySettings>(FIXED_OVERLAY_SETTINGS);
   const [viewportBounds, setViewportBounds] = useState<ViewportBounds | null>(null);
-  const [gridSpec, setGridSpec] = useState<GridSpec>(fallbackGridSpec);
+  const [gridSpec, setGridSpec] = useState<GridSpec>(() => areaGridSpec(playArea));
   const [sharePayload, setSharePayload] = useState<SharePayload | null>(null);
   const [chatTarget, setChatTarget] = useState<{ friendshipId: string; friendUser: User } | null>(null);
   const [activeTab, setActiveTab] = useState<string | null>(null);
   const workerRef = useRef<Worker | null>(null);
+  const lastJobRef = useRef<PostedJob | null>(null);
+  const jobIdRef = useRef(0);
+  /** Newest job whose result is on screen; older results are dropped */
+  const shownJobIdRef = useRef(0);
+  /** Newest influence request; answers to older ones are dropped */
+  const influenceJobIdRef = useRef(0);
+  /** Dominance jobs posted with replayed (or not yet reloaded live) votes */
+  const replayJobIdsRef = useRef(new Set<number>());
   const mapRef = useRef<MapViewHandle>(null);
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -162,12 +225,25 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
     }, [showToast]),
   });
 
+  // Duel notifications — toast when someone challenges us + badge on the actions tab
+  const { pendingCount: pendingChallenges } = useDuelNotifications({
+    userId: user.id,
+    enabled: isFirebaseConfigured() && !isDevUser(user.id),
+    onChallenge: useCallback((duel: Duel) => {
+      const beer = BEER_MAP.get(duel.challengerBeerId);
+      showToast('⚔️', `${beer?.name ?? duel.challengerBeerId} fordert dich zum Duell heraus!`);
+    }, [showToast]),
+  });
+
+  // The user's duels and the stored player, beer and region ratings
+  const { duels: userDuels, ratings: duelRatings } = useDuelRatings(store, user.id);
+
   // Sync user profile to Firestore (with location) so other users see us on the map
   useEffect(() => {
     if (isFirebaseConfigured() && !isDevUser(user.id) && user.beerId) {
-      saveUserProfile(user.id, user.beerId, user.homeLat, user.homeLon).catch(() => {});
+      saveUserProfile(user.id, user.beerId, user.homeLat, user.homeLon, user.homeSetAt ?? user.createdAt).catch(() => {});
     }
-  }, [user.id, user.beerId, user.homeLat, user.homeLon]);
+  }, [user.id, user.beerId, user.homeLat, user.homeLon, user.homeSetAt, user.createdAt]);
 
   // Subscribe to all users from Firestore for shared map
   useEffect(() => {
@@ -215,17 +291,37 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
     return locations;
   }, [friendships, remoteUsers, friendPresence, user.id]);
 
-  // Extract regions whenever dominance data changes
+  // Extract regions whenever dominance data changes; ids carry over from
+  // earlier results (and sessions) so panning and zooming keep naming the
+  // same territory
+  const [regionIds] = useState(() => new RegionIdRegistry(getRegionIds()));
+  const extracted = useMemo(() => (dominanceData ? extractRegionsWithLabels(dominanceData) : null), [dominanceData]);
   const regions: Region[] = useMemo(() => {
-    if (!dominanceData) return [];
-    return extractRegions(dominanceData);
-  }, [dominanceData]);
+    if (!dominanceData || !extracted) return [];
+    return regionIds.assign(dominanceData, extracted);
+  }, [dominanceData, extracted, regionIds]);
+  useEffect(() => {
+    saveRegionIds(regionIds.entries());
+  }, [regions, regionIds]);
+
+  // Which regions border each other, and how hard those borders are fought over
+  const regionGraph: RegionGraph | null = useMemo(() => {
+    if (!dominanceData || !extracted) return null;
+    return buildRegionGraph(dominanceData, regions, extracted.labels, overlaySettings);
+  }, [dominanceData, extracted, regions, overlaySettings]);
+
+  // Votes this user could place to flip territory, priced in the map popup
+  const flipVotes = useMemo(() => flipVoteSpecs(user), [user]);
 
   // Quests hook
-  const { questState, catalog } = useQuests(user.id, overlaySettings);
+  const { questState, catalog } = useQuests(user.id, overlaySettings, regionGraph, user.beerId);
+
+  // Plain votes as they stood at the replayed moment
+  const shownVotes = useMemo(() => (replayAt === null ? votes : replayVotes(votes, replayAt)), [votes, replayAt]);
 
   // Feed hook
-  const feedItems = useFeed(dominanceData, regions, votes, viewportBounds);
+  const territoryChanges = useTerritoryChanges();
+  const feedItems = useFeed(dominanceData, regions, shownVotes, viewportBounds, regionGraph, territoryChanges);
 
   // Update last active on mount
   useEffect(() => {
@@ -242,6 +338,7 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
       lastActiveAt: p.lastActiveAt,
       homeLat: p.homeLat,
       homeLon: p.homeLon,
+      homeSetAt: p.homeSetAt,
       beerId: p.beerId,
       standYourGroundEnabled: false,
       ageVerified: true,
@@ -270,26 +367,42 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
       outcomesMap.set(u.id, o);
     }
 
-    const wv = buildWeightedVotes(allUsers, allOTR, allTeams, outcomesMap, allDrink);
+    const wv = replayAt === null
+      ? buildWeightedVotes(allUsers, allOTR, allTeams, outcomesMap, allDrink, getNow(), playArea)
+      : replayWeightedVotes(allUsers, allOTR, allTeams, outcomesMap, allDrink, replayAt, playArea);
     setWeightedVotes(wv);
-  }, [store, remoteUsers]);
+    setWeightedVotesAt(replayAt);
+  }, [store, remoteUsers, playArea, replayAt]);
 
   // Reload weighted votes when remote users or local user changes
   useEffect(() => {
     loadWeightedVotes();
   }, [loadWeightedVotes, user]);
 
-  // Periodic cleanup of expired votes/outcomes (every 5 min + on mount)
+  // Periodic cleanup of expired votes/outcomes/duel photos (every 5 min + on mount)
   useEffect(() => {
     const cleanup = async () => {
       await store.removeExpiredOTRVotes();
       await store.removeExpiredDrinkVotes();
       await store.removeExpiredOutcomes();
+      // Duels past their deadline time out even when nobody opens them
+      await settleDuels(store, user.id);
+      await purgeDuelPhotos(store, photos, user.id);
+    };
+    const run = () => {
+      cleanup().catch((e) => console.error('cleanup error:', e));
     };
-    cleanup();
-    const id = setInterval(cleanup, 5 * 60 * 1000);
+    run();
+    const id = setInterval(run, 5 * 60 * 1000);
     return () => clearInterval(id);
-  }, [store]);
+  }, [store, photos, user.id]);
+
+  // A resolved duel hands out weight boosts and penalties
+  useEffect(() => {
+    return appEvents.on((event) => {
+      if (event.type === 'duel:updated' && event.duel.winnerId) loadWeightedVotes();
+    });
+  }, [loadWeightedVotes]);
 
   // Worker lifecycle
   useEffect(() => {
@@ -298,27 +411,85 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
       { type: 'module' }
     );
 
-    worker.onmessage = (e: MessageEvent) => {
-      if (e.data.type === 'result') {
-        const d = e.data.data;
-        setDominanceData(d);
-        setComputing(false);
+    worker.onmessage = (e: MessageEvent<WorkerOutput>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        if (msg.jobId === jobIdRef.current) setComputeProgress(msg.progress);
+        return;
       }
+      if (msg.type === 'influence') {
+        if (msg.jobId === influenceJobIdRef.current) setInfluence(msg.data);
+        return;
+      }
+      // Time-lapse snapshots are picked up by useDominanceHistory
+      if (msg.type === 'snapshot') return;
+      if (msg.type === 'skipped') {
+        if (msg.jobId !== jobIdRef.current) return;
+        setComputeProgress(null);
+        // A delta found no grid to patch: the next job has to be a full one
+        lastJobRef.current = null;
+        return;
+      }
+      if (msg.jobId <= shownJobIdRef.current) return;
+      shownJobIdRef.current = msg.jobId;
+      setDominanceData(msg.data);
+      setDominanceIsReplay(replayJobIdsRef.current.has(msg.jobId));
+      if (msg.jobId === jobIdRef.current) setComputeProgress(null);
     };
 
     workerRef.current = worker;
+    // A fresh worker has no grid yet — the next job must be a full one
+    lastJobRef.current = null;
 
     return () => {
       worker.terminate();
     };
   }, []);
 
-  // Emit dominance:computed event when data + regions change
+  // Emit dominance:computed event when data + regions change; a replayed
+  // past is not news
   useEffect(() => {
+    if (dominanceIsReplay) return;
     if (dominanceData && regions.length > 0) {
       appEvents.emit({ type: 'dominance:computed', data: dominanceData, regions });
     }
-  }, [dominanceData, regions]);
+  }, [dominanceData, regions, dominanceIsReplay]);
+
+  // Territory that changed owner since the last live result on the same
+  // lattice: one territory:* event per patch, a toast when it is the home cell
+  const [territory] = useState(() => new TerritoryTracker());
+  useEffect(() => {
+    if (!dominanceData || dominanceIsReplay) return;
+    const changes = territory.update(dominanceData);
+    for (const change of changes) {
+      appEvents.emit({ type: `territory:${change.kind}`, change });
+    }
+    const home = changeCovering(changes, dominanceData, user.homeLat, user.homeLon);
+    if (!home) return;
+    const taker = home.toBeerId ? BEER_MAP.get(home.toBeerId)?.name ?? home.toBeerId : null;
+    if (home.toBeerId === user.beerId) showToast('\uD83C\uDFE0', `Dein Zuhause gehört wieder ${taker}!`);
+    else if (taker) showToast('\uD83C\uDFE0', `${taker} hat dein Zuhause erobert!`);
+    else showToast('\uD83C\uDFE0', 'Dein Zuhause ist jetzt Niemandsland');
+  }, [dominanceData, dominanceIsReplay, territory, user.homeLat, user.homeLon, user.beerId, showToast]);
+
+  // Ask for this user's influence only while the overlay or the home summary
+  // shows it, once new grids have settled; the worker answers from the grid
+  // it computed last
+  const influenceVisible = showInfluence || activeTab === 'actions';
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker || !dominanceData || !influenceVisible) return;
+    const id = setTimeout(() => {
+      const job: WorkerInfluenceInput = { type: 'influence', jobId: ++influenceJobIdRef.current, userId: user.id };
+      worker.postMessage(job);
+    }, GAME.INFLUENCE_DEBOUNCE_MS);
+    return () => clearTimeout(id);
+  }, [dominanceData, user.id, influenceVisible]);
+
+  // A new play area starts from its whole grid until the map has moved there
+  useEffect(() => {
+    setGridSpec(prev => (getPlayArea(prev.areaId) === playArea ? prev : areaGridSpec(playArea)));
+  }, [playArea]);
 
   // ── Debounced viewport/zoom → dynamic gridSpec ──────────
   const handleViewportChange = useCallback(
@@ -329,28 +500,67 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
       // Debounce the heavy grid recomputation
       if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
       debounceTimerRef.current = setTimeout(() => {
-        const newSpec = getViewportGridSpec(bounds, zoom);
-        setGridSpec(newSpec);
+        // Lattice-snapped: small pans often land on the same grid
+        const newSpec = getViewportGridSpec(bounds, zoom, GAME.VIEWPORT_BUFFER_KM, GAME.GRID_SHAPE, playArea);
+        setGridSpec(prev => (sameGridSpec(prev, newSpec) ? prev : newSpec));
       }, GAME.VIEWPORT_DEBOUNCE_MS);
     },
-    [],
+    [playArea],
   );
 
-  // Recompute dominance when gridSpec, votes, or weighted votes change
+  // Snapshots for the time-lapse are only taken from the live map
+  const live = replayAt === null && weightedVotesAt === null;
+  const snapshots = useDominanceHistory(store, playArea, live ? weightedVotes : null, workerRef);
+  const previewData = useMemo(() => (preview ? decodeSnapshot(preview) : null), [preview]);
+
+  // Recompute dominance when gridSpec, votes, or weighted votes change.
+  // If only a few weighted votes changed (check-in, OTR, profile update),
+  // the worker gets a delta and patches its last grid instead.
   useEffect(() => {
     const worker = workerRef.current;
     if (!worker) return;
 
-    setComputing(true);
-    worker.postMessage({
-      votes,
+    const { smoothingIterations, mergeIslandSize } = overlaySettings;
+    const nextJobId = () => {
+      const id = ++jobIdRef.current;
+      if (!live) replayJobIdsRef.current.add(id);
+      return id;
+    };
+    const last = lastJobRef.current;
+    lastJobRef.current = { votes: shownVotes, weightedVotes, gridSpec, smoothingIterations, mergeIslandSize };
+
+    if (
+      last &&
+      last.votes === shownVotes &&
+      last.gridSpec === gridSpec &&
+      last.smoothingIterations === smoothingIterations &&
+      last.mergeIslandSize === mergeIslandSize
+    ) {
+      const delta = diffWeightedVotes(last.weightedVotes, weightedVotes);
+      const size = delta.added.length + delta.removed.length + delta.changed.length;
+      if (size === 0) return;
+      if (size <= GAME.DELTA_MAX_VOTES) {
+        const job: WorkerDeltaInput = { type: 'delta', jobId: nextJobId(), ...delta };
+        setComputeProgress(0);
+        worker.postMessage(job);
+        return;
+      }
+    }
+
+    const job: WorkerInput = {
+      type: 'compute',
+      jobId: nextJobId(),
+      votes: shownVotes,
       weightedVotes: weightedVotes.length > 0 ? weightedVotes : undefined,
       gridSpec,
       radiusKm: RADIUS_KM,
-      smoothingIterations: overlaySettings.smoothingIterations,
-      mergeIslandSize: overlaySettings.mergeIslandSize,
-    });
-  }, [votes, weightedVotes, gridSpec, overlaySettings.smoothingIterations, overlaySettings.mergeIslandSize]);
+      kernels: GAME.INFLUENCE_KERNELS,
+      smoothingIterations,
+      mergeIslandSize,
+    };
+    setComputeProgress(0);
+    worker.postMessage(job);
+  }, [shownVotes, weightedVotes, gridSpec, overlaySettings, live]);
 
   // Handle share link on load
   useEffect(() => {
@@ -415,6 +625,58 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
     mapRef.current?.flyTo(lat, lon, zoom);
   }, []);
 
+  const handleExportGeoJSON = useCallback(() => {
+    if (!dominanceData) return;
+    downloadGeoJSON(buildTerritoryGeoJSON(dominanceData, regions), `brewcountry-${playArea.id}-${getNow()}.geojson`);
+  }, [dominanceData, regions, playArea]);
+
+  const handleChallenge = useCallback(async (defender: Rival, region: { lat: number; lon: number }) => {
+    try {
+      const step = await challengeDuel(store, user, defender, region);
+      if (!step.ok) {
+        showToast('⚠️', step.error);
+        return;
+      }
+      const beer = BEER_MAP.get(defender.beerId);
+      showToast('⚔️', `Herausforderung an ${beer?.name ?? defender.beerId} gesendet`);
+    } catch (e) {
+      console.error('challenge error:', e);
+      showToast('⚠️', 'Herausforderung konnte nicht gesendet werden');
+    }
+  }, [store, user, showToast]);
+
+  // Contested region from the map popup: duel the nearest player of the rival beer
+  const handleChallengeRegion = useCallback(async (region: Region) => {
+    let localUsers: User[];
+    try {
+      localUsers = await store.getAllUsers();
+    } catch (e) {
+      console.error('challenge error:', e);
+      showToast('⚠️', 'Rivalen konnten nicht geladen werden');
+      return;
+    }
+    const candidates: Rival[] = [
+      ...remoteUsers.map((p) => ({ id: p.userId, beerId: p.beerId, homeLat: p.homeLat, homeLon: p.homeLon })),
+      ...localUsers,
+    ];
+    const rival = nearestRival(user, region, candidates);
+    if (!rival) {
+      const rivalBeerId = rivalBeerOf(region, user.beerId);
+      const beer = rivalBeerId ? BEER_MAP.get(rivalBeerId) : null;
+      showToast('🤷', `Kein Rivale${beer ? ` von ${beer.name}` : ''} in der Nähe`);
+      return;
+    }
+    await handleChallenge(rival, { lat: region.centroidLat, lon: region.centroidLon });
+  }, [store, user, remoteUsers, handleChallenge, showToast]);
+
+  // Friends have no clicked region; they fight over the ground between both homes
+  const handleChallengeFriend = useCallback(async (friend: User) => {
+    await handleChallenge(friend, {
+      lat: (user.homeLat + friend.homeLat) / 2,
+      lon: (user.homeLon + friend.homeLon) / 2,
+    });
+  }, [user.homeLat, user.homeLon, handleChallenge]);
+
   const handleShareRegion = useCallback((region: Region) => {
     const beer = BEER_MAP.get(region.beerId);
     const runner = region.runnerUpBeerId ? BEER_MAP.get(region.runnerUpBeerId) : null;
@@ -424,6 +686,7 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
       beerName: beer?.name ?? region.beerId,
       centroidLat: region.centroidLat,
       centroidLon: region.centroidLon,
+      placeName: region.placeName,
       zoom: 12,
       cellCount: region.cellCount,
       totalVotes: region.totalVotes,
@@ -465,16 +728,21 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
       <div className="map-wrapper">
         <MapView
           ref={mapRef}
-          votes={votes}
-          dominanceData={dominanceData}
-          regions={regions}
+          votes={shownVotes}
+          dominanceData={previewData ?? dominanceData}
+          regions={previewData ? [] : regions}
           gridSpec={gridSpec}
+          playArea={playArea}
           userVotePosition={userVotePosition}
           onMapClick={handleMapClick}
           overlaySettings={overlaySettings}
           onViewportChange={handleViewportChange}
           onShareRegion={handleShareRegion}
+          onChallengeRegion={handleChallengeRegion}
           friendLocations={friendLocations}
+          flipBeerId={user.beerId}
+          flipVotes={flipVotes}
+          influence={showInfluence && !previewData ? influence : null}
         />
       </div>
 
@@ -485,7 +753,12 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
           <h1>Brew Country</h1>
         </div>
         <div className="header-badges">
-          {computing && <span className="computing-badge">⟳ Karte</span>}
+          {replayAt !== null && (
+            <span className="computing-badge">⏪ Zeitreise</span>
+          )}
+          {computeProgress !== null && (
+            <span className="computing-badge">⟳ Karte {Math.round(computeProgress * 100)}%</span>
+          )}
           {isFirebaseConfigured() && onlineCount > 0 && (
             <span className="online-badge">
               <span className="online-dot" />
@@ -515,17 +788,39 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
           <div className="panel-scroll">
             {activeTab === 'actions' && (
               <>
-                <HomeStatus user={user} store={store} onUserUpdate={handleUserUpdate} />
+                <HomeStatus
+                  user={user}
+                  store={store}
+                  onUserUpdate={handleUserUpdate}
+                  dominanceData={dominanceData}
+                  influence={influence}
+                  showInfluence={showInfluence}
+                  onToggleInfluence={setShowInfluence}
+                />
                 <OnTheRoadButton user={user} store={store} onVoteCreated={handleOTRCreated} />
-                <DrinkVoteButton user={user} store={store} onVoteCreated={handleDrinkVoteCreated} />
-                <DuelPanel user={user} store={store} />
+                <DrinkVoteButton user={user} store={store} playArea={playArea} onVoteCreated={handleDrinkVoteCreated} />
+                <DuelPanel user={user} store={store} photos={photos} />
+                <DuelHistory userId={user.id} duels={userDuels} ratings={duelRatings} playArea={playArea} />
               </>
             )}
             {activeTab === 'map' && (
               <>
-                <BeerPicker selectedBeerId={selectedBeerId} onSelect={setSelectedBeerId} />
-                <Legend voteCount={votes.length} showSwords={overlaySettings.showSwords} />
+                <BeerPicker selectedBeerId={selectedBeerId} playArea={playArea} onSelect={setSelectedBeerId} />
+                <Legend
+                  voteCount={shownVotes.length}
+                  playArea={playArea}
+                  showSwords={overlaySettings.showSwords}
+                  onExport={dominanceData ? handleExportGeoJSON : undefined}
+                />
+                <TimeLapse
+                  snapshots={snapshots}
+                  playArea={playArea}
+                  replayAt={replayAt}
+                  onSeek={setReplayAt}
+                  onPreview={setPreview}
+                />
                 <ExploreFeed items={feedItems} onNavigate={handleFeedNavigate} />
+                <FrontlinesPanel graph={regionGraph} onNavigate={handleFeedNavigate} />
               </>
             )}
             {activeTab === 'social' && (
@@ -538,15 +833,20 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
                   onFriendIdsChange={setFriendIds}
                   unreadCounts={unreadCounts}
                   onLocateFriend={(lat, lon) => mapRef.current?.flyTo(lat, lon, 12)}
+                  onChallenge={handleChallengeFriend}
+                  ratings={duelRatings.users}
                 />
                 <TeamPanel user={user} store={store} />
               </>
             )}
             {activeTab === 'quests' && (
-              <QuestsPanel questState={questState} catalog={catalog} />
+              <>
+                <QuestsPanel questState={questState} catalog={catalog} />
+                <DuelLadder userId={user.id} beerId={user.beerId} ratings={duelRatings} />
+              </>
             )}
             {activeTab === 'dev' && (import.meta.env.DEV || isDevUser(user.id)) && (
-              <SimulationPanel onAddVotes={handleAddVotes} onClearVotes={handleClearVotes} />
+              <SimulationPanel playArea={playArea} onAddVotes={handleAddVotes} onClearVotes={handleClearVotes} />
             )}
           </div>
         </div>
@@ -564,12 +864,13 @@ function GameApp({ user: initialUser, store, onActivity }: GameAppProps) {
             <span className="nav-icon">{tab.icon}</span>
             <span className="nav-label">{tab.label}</span>
             {tab.id === 'social' && hasUnread && <span className="nav-badge" />}
+            {tab.id === 'actions' && pendingChallenges > 0 && <span className="nav-badge" />}
           </button>
         ))}
       </nav>
 
       {sharePayload && (
-        <ShareModal payload={sharePayload} onClose={() => setSharePayload(null)} />
+        <ShareModal payload={sharePayload} playArea={playArea} onClose={() => setSharePayload(null)} />
       )}
     </div>
   );
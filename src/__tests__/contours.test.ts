@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { traceRegionShapes } from '../domain/contours';
+import { toDominanceResult } from '../domain/dominanceColumns';
+import type { CellResult, DominanceResult, GridSpec, LonLat } from '../domain/types';
+
+const SPEC: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.0, maxLon: 11.3, cellSizeMeters: 2000 };
+const BEERS: Record<string, string> = { A: 'augustiner', B: 'paulaner', C: 'hofbraeu', D: 'spaten' };
+
+/** Grid from strings, first string = row 0 (south); '.' = empty */
+function gridOf(lines: string[]): DominanceResult {
+  const rows = lines.length;
+  const cols = lines[0].length;
+  const cells: CellResult[] = [];
+  lines.forEach((line, row) => {
+    [...line].forEach((ch, col) => {
+      const beerId = BEERS[ch] ?? null;
+      cells.push({
+        row, col, winnerBeerId: beerId, winnerCount: beerId ? 1 : 0, totalCount: beerId ? 1 : 0,
+        voteCounts: beerId ? { [beerId]: 1 } : {}, runnerUpBeerId: null, runnerUpCount: 0, margin: 1,
+      });
+    });
+  });
+  return toDominanceResult(rows, cols, SPEC, cells);
+}
+
+function area(ring: LonLat[]): number {
+  let sum = 0;
+  for (let k = 0; k < ring.length; k++) {
+    const [x0, y0] = ring[k];
+    const [x1, y1] = ring[(k + 1) % ring.length];
+    sum += x0 * y1 - x1 * y0;
+  }
+  return sum / 2;
+}
+
+/** Vertices of all rings of all shapes */
+function vertexCount(shapes: ReturnType<typeof traceRegionShapes>): number {
+  return shapes.reduce((sum, s) => sum + s.polygons.flat().reduce((n, ring) => n + ring.length, 0), 0);
+}
+
+const key = ([lon, lat]: LonLat) => `${lon},${lat}`;
+
+describe('traceRegionShapes', () => {
+  it('traces a single cell as one counter-clockwise ring', () => {
+    const shapes = traceRegionShapes(gridOf(['...', '.A.', '...']));
+    expect(shapes).toHaveLength(1);
+    expect(shapes[0].beerId).toBe('augustiner');
+    expect(shapes[0].polygons).toHaveLength(1);
+    const [outer] = shapes[0].polygons[0];
+    expect(outer).toHaveLength(4);
+    expect(area(outer)).toBeGreaterThan(0);
+  });
+
+  it('meets without gaps where three owners touch', () => {
+    const shapes = traceRegionShapes(gridOf([
+      'AAAAAA',
+      'ABBCCA',
+      'ABDDCA',
+      'ADDDCA',
+      'AAAAAA',
+    ]));
+    expect(shapes).toHaveLength(4);
+    const [frame, inner] = shapes.find((s) => s.beerId === 'augustiner')!.polygons[0];
+    const filled = shapes.filter((s) => s.beerId !== 'augustiner')
+      .reduce((sum, s) => sum + area(s.polygons[0][0]), 0);
+    expect(area(frame)).toBeGreaterThan(0);
+    expect(filled).toBeCloseTo(-area(inner), 12);
+  });
+
+  it('cuts an enclosed region out as a clockwise hole', () => {
+    const shapes = traceRegionShapes(gridOf([
+      'AAAAA',
+      'ABBBA',
+      'ABBBA',
+      'AAAAA',
+    ]));
+    const ring = shapes.find((s) => s.beerId === 'augustiner')!;
+    const inner = shapes.find((s) => s.beerId === 'paulaner')!;
+
+    expect(ring.polygons).toHaveLength(1);
+    expect(ring.polygons[0]).toHaveLength(2);
+    expect(area(ring.polygons[0][0])).toBeGreaterThan(0);
+    expect(area(ring.polygons[0][1])).toBeLessThan(0);
+    expect(inner.polygons).toHaveLength(1);
+    expect(inner.polygons[0]).toHaveLength(1);
+  });
+
+  it('keeps diagonal-only neighbours apart, like the region flood fill', () => {
+    const shapes = traceRegionShapes(gridOf(['A.', '.A']));
+    expect(shapes).toHaveLength(2);
+    expect(shapes.every((s) => s.polygons.length === 1 && s.polygons[0].length === 1)).toBe(true);
+  });
+
+  it('traces straight borders as single edges inside the bounding box', () => {
+    const shapes = traceRegionShapes(gridOf([
+      'AAAAAABBBB',
+      'AAAAAABBBB',
+      'AAAAAABBBB',
+      'AAAAAABBBB',
+      'AAAAAABBBB',
+      'AAAAAABBBB',
+    ]));
+    for (const shape of shapes) {
+      const [outer] = shape.polygons[0];
+      // A block of cells traces to a plain rectangle
+      expect(outer).toHaveLength(4);
+      for (const [lon, lat] of outer) {
+        expect(lon).toBeGreaterThanOrEqual(shape.bbox.minLon);
+        expect(lon).toBeLessThanOrEqual(shape.bbox.maxLon);
+        expect(lat).toBeGreaterThanOrEqual(shape.bbox.minLat);
+        expect(lat).toBeLessThanOrEqual(shape.bbox.maxLat);
+      }
+    }
+  });
+
+  it('simplifies staircase borders identically on both sides', () => {
+    const data = gridOf([
+      'AAAAAAAAAAAAA',
+      'ABBBBBBBBBBBA',
+      'ABBBBBBBBBBAA',
+      'ABBBBBBBBBAAA',
+      'ABBBBBBBBBAAA',
+      'ABBBBBBBBAAAA',
+      'ABBBBBBBAAAAA',
+      'ABBBBBBAAAAAA',
+      'ABBBBBBAAAAAA',
+      'ABBBBBAAAAAAA',
+      'ABBBBAAAAAAAA',
+      'ABBBAAAAAAAAA',
+      'ABBBAAAAAAAAA',
+      'ABBAAAAAAAAAA',
+      'AAAAAAAAAAAAA',
+    ]);
+    const raw = traceRegionShapes(data, 0);
+    const shapes = traceRegionShapes(data);
+    expect(vertexCount(shapes)).toBeLessThan(vertexCount(raw));
+
+    const [, hole] = shapes.find((s) => s.beerId === 'augustiner')!.polygons[0];
+    const [outer] = shapes.find((s) => s.beerId === 'paulaner')!.polygons[0];
+    expect(hole.map(key).sort()).toEqual(outer.map(key).sort());
+  });
+});
@@ -0,0 +1,42 @@
+import { bench, describe } from 'vitest';
+import { computeDominance } from '../domain/dominance';
+import { getDefaultBoundingBox, precomputeGrid } from '../domain/geo';
+import { getViewportGridSpec } from '../domain/tiles';
+import type { WeightedVote } from '../domain/types';
+
+const BEER_IDS = ['augustiner', 'paulaner', 'hofbraeu', 'spaten', 'erdinger'];
+const DACH = getDefaultBoundingBox();
+
+function randomVotes(count: number): WeightedVote[] {
+  let seed = count;
+  const rand = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `wv${i}`,
+    lat: DACH.minLat + rand() * (DACH.maxLat - DACH.minLat),
+    lon: DACH.minLon + rand() * (DACH.maxLon - DACH.minLon),
+    beerId: BEER_IDS[i % BEER_IDS.length],
+    weight: 1 + rand(),
+    radiusKm: i % 4 === 0 ? 5 : 20,
+    source: i % 4 === 0 ? 'drink' : 'home',
+    timestamp: 1700000000000 + i,
+  }));
+}
+
+// Zoom 7 over the whole DACH box: the case that used to stall the worker
+const spec = getViewportGridSpec(
+  { south: DACH.minLat, north: DACH.maxLat, west: DACH.minLon, east: DACH.maxLon },
+  7,
+);
+const { cells } = precomputeGrid(spec);
+
+describe(`computeDominance (${cells.length} cells)`, () => {
+  for (const count of [10_000, 50_000]) {
+    const votes = randomVotes(count);
+    bench(`${count / 1000}k weighted votes`, () => {
+      computeDominance(cells, [], 20, votes);
+    }, { iterations: 3, warmupIterations: 0 });
+  }
+});
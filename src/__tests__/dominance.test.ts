@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { computeDominance } from '../domain/dominance';
+import { haversineDistanceKm, precomputeGrid } from '../domain/geo';
+import type { CellResult, GridCell, GridSpec, Vote, WeightedVote } from '../domain/types';
+
+const BEER_IDS = ['augustiner', 'paulaner', 'hofbraeu', 'spaten'];
+const SOURCES: WeightedVote['source'][] = ['home', 'otr', 'drink'];
+
+/** Deterministic PRNG so failures are reproducible */
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a |= 0;
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function makeVotes(count: number, spec: GridSpec, rand: () => number): Vote[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `v${i}`,
+    lat: spec.minLat + rand() * (spec.maxLat - spec.minLat),
+    lon: spec.minLon + rand() * (spec.maxLon - spec.minLon),
+    beerId: BEER_IDS[Math.floor(rand() * BEER_IDS.length)],
+    timestamp: 1700000000000 + i,
+  }));
+}
+
+function makeWeightedVotes(count: number, spec: GridSpec, rand: () => number): WeightedVote[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `wv${i}`,
+    lat: spec.minLat + rand() * (spec.maxLat - spec.minLat),
+    lon: spec.minLon + rand() * (spec.maxLon - spec.minLon),
+    beerId: BEER_IDS[Math.floor(rand() * BEER_IDS.length)],
+    weight: 0.2 + rand() * 3.8,
+    radiusKm: [5, 10, 20][Math.floor(rand() * 3)],
+    source: SOURCES[Math.floor(rand() * SOURCES.length)],
+    timestamp: 1700000000000 + i,
+  }));
+}
+
+/**
+ * The original cells × votes scan, kept as the reference implementation.
+ * Standings: weight, then most recent timestamp, then beer id.
+ */
+function naiveDominance(
+  cells: GridCell[],
+  votes: Vote[],
+  radiusKm: number,
+  weightedVotes: WeightedVote[]
+): CellResult[] {
+  let maxRadius = radiusKm;
+  for (const wv of weightedVotes) if (wv.radiusKm > maxRadius) maxRadius = wv.radiusKm;
+  const radiusDegLat = maxRadius / 111.32;
+  const radiusDegLon = maxRadius / (111.32 * Math.cos(45 * Math.PI / 180));
+
+  return cells.map((cell) => {
+    const weights = new Map<string, number>();
+    const latest = new Map<string, number>();
+    let total = 0;
+    const visit = (lat: number, lon: number, beerId: string, weight: number, radius: number, ts: number) => {
+      if (cell.masked) return;
+      if (Math.abs(lat - cell.centerLat) > radiusDegLat || Math.abs(lon - cell.centerLon) > radiusDegLon) return;
+      if (haversineDistanceKm(cell.centerLat, cell.centerLon, lat, lon) <= radius) {
+        weights.set(beerId, (weights.get(beerId) ?? 0) + weight);
+        latest.set(beerId, Math.max(latest.get(beerId) ?? -Infinity, ts));
+        total += weight;
+      }
+    };
+    for (const v of votes) visit(v.lat, v.lon, v.beerId, 1, radiusKm, v.timestamp);
+    for (const wv of weightedVotes) visit(wv.lat, wv.lon, wv.beerId, wv.weight, wv.radiusKm, wv.timestamp);
+
+    if (total === 0) {
+      return {
+        row: cell.row, col: cell.col, winnerBeerId: null, winnerCount: 0, totalCount: 0,
+        voteCounts: {}, runnerUpBeerId: null, runnerUpCount: 0, margin: 0,
+      };
+    }
+
+    const standings = [...weights.keys()].sort((a, b) =>
+      (weights.get(b)! - weights.get(a)!) ||
+      (latest.get(b)! - latest.get(a)!) ||
+      (a < b ? -1 : 1)
+    );
+    const winnerId = standings[0];
+    const runnerId = standings[1] ?? null;
+    const winnerW = weights.get(winnerId)!;
+    const runnerW = runnerId ? weights.get(runnerId)! : 0;
+    return {
+      row: cell.row, col: cell.col, winnerBeerId: winnerId, winnerCount: winnerW, totalCount: total,
+      voteCounts: Object.fromEntries(weights), runnerUpBeerId: runnerId, runnerUpCount: runnerW,
+      margin: total >= 0.001 ? (winnerW - runnerW) / total : 1.0,
+    };
+  });
+}
+
+const SPEC: GridSpec = { minLat: 47.6, maxLat: 48.6, minLon: 11.0, maxLon: 12.4, cellSizeMeters: 2000 };
+
+describe('computeDominance', () => {
+  it('returns empty cells when there are no votes', () => {
+    const { cells } = precomputeGrid(SPEC);
+    const result = computeDominance(cells, [], 20);
+    expect(result).toHaveLength(cells.length);
+    expect(result.every((c) => c.winnerBeerId === null && c.totalCount === 0)).toBe(true);
+  });
+
+  it('matches the full scan for mixed flat and weighted votes', () => {
+    const rand = mulberry32(42);
+    const { cells } = precomputeGrid(SPEC);
+    const votes = makeVotes(150, SPEC, rand);
+    const weighted = makeWeightedVotes(400, SPEC, rand);
+
+    expect(computeDominance(cells, votes, 20, weighted)).toEqual(naiveDominance(cells, votes, 20, weighted));
+  });
+
+  it('matches the full scan at northern latitudes', () => {
+    const rand = mulberry32(7);
+    const north: GridSpec = { minLat: 54.0, maxLat: 55.1, minLon: 8.0, maxLon: 10.5, cellSizeMeters: 2000 };
+    const { cells } = precomputeGrid(north);
+    const weighted = makeWeightedVotes(300, north, rand);
+
+    expect(computeDominance(cells, [], 20, weighted)).toEqual(naiveDominance(cells, [], 20, weighted));
+  });
+
+  it('leaves cells outside every radius empty', () => {
+    const { cells } = precomputeGrid(SPEC);
+    const far: WeightedVote = {
+      id: 'far', lat: 52.5, lon: 13.4, beerId: 'spaten', weight: 1, radiusKm: 20, source: 'home', timestamp: 1700000000000,
+    };
+    const result = computeDominance(cells, [], 20, [far]);
+    expect(result.every((c) => c.winnerBeerId === null)).toBe(true);
+  });
+
+  describe('exact ties', () => {
+    const tieSpec: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.4, maxLon: 11.7, cellSizeMeters: 2000 };
+    const at = (id: string, beerId: string, timestamp: number): WeightedVote => ({
+      id, lat: 48.1, lon: 11.55, beerId, weight: 1.5, radiusKm: 20, source: 'home', timestamp,
+    });
+
+    it('gives a tied cell to the most recently active beer', () => {
+      const { cells } = precomputeGrid(tieSpec);
+      const votes = [at('a', 'augustiner', 1000), at('p', 'paulaner', 2000)];
+      const result = computeDominance(cells, [], 20, votes);
+
+      expect(result.every((c) => c.winnerBeerId === 'paulaner')).toBe(true);
+      expect(result.every((c) => c.runnerUpBeerId === 'augustiner' && c.margin === 0)).toBe(true);
+    });
+
+    it('falls back to the smaller beer id when timestamps tie too', () => {
+      const { cells } = precomputeGrid(tieSpec);
+      const votes = [at('s', 'spaten', 1000), at('h', 'hofbraeu', 1000), at('a', 'augustiner', 1000)];
+      const result = computeDominance(cells, [], 20, votes);
+
+      expect(result.every((c) => c.winnerBeerId === 'augustiner' && c.runnerUpBeerId === 'hofbraeu')).toBe(true);
+    });
+
+    it('does not depend on vote order', () => {
+      const rand = mulberry32(99);
+      const { cells } = precomputeGrid(tieSpec);
+      // Flat votes all weigh 1, so ties are everywhere
+      const votes = makeVotes(60, tieSpec, rand);
+      const reversed = [...votes].reverse();
+
+      const winners = (vs: Vote[]) => computeDominance(cells, vs, 20).map((c) => [c.winnerBeerId, c.runnerUpBeerId]);
+      expect(winners(reversed)).toEqual(winners(votes));
+      expect(computeDominance(cells, votes, 20)).toEqual(naiveDominance(cells, votes, 20, []));
+    });
+  });
+});
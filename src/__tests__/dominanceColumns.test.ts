@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { computeDominanceCells, prepareDominance } from '../domain/dominance';
+import { DEFAULT_KERNELS } from '../domain/kernels';
+import { DominanceSession, bandRows } from '../domain/dominanceSession';
+import { cellAt, packCells, toDominanceResult, unpackCells } from '../domain/dominanceColumns';
+import { precomputeGrid } from '../domain/geo';
+import type { CellResult, GridSpec, WeightedVote, WorkerInput } from '../domain/types';
+
+const SPEC: GridSpec = { minLat: 47.8, maxLat: 48.5, minLon: 11.0, maxLon: 12.0, cellSizeMeters: 750 };
+const BEER_IDS = ['augustiner', 'paulaner', 'hofbraeu'];
+
+function makeVotes(count: number): WeightedVote[] {
+  let s = 7;
+  const rand = () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 4294967296;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `wv${i}`,
+    lat: SPEC.minLat + rand() * (SPEC.maxLat - SPEC.minLat),
+    lon: SPEC.minLon + rand() * (SPEC.maxLon - SPEC.minLon),
+    beerId: BEER_IDS[Math.floor(rand() * BEER_IDS.length)],
+    weight: 0.5 + rand() * 2,
+    radiusKm: i % 3 === 0 ? 5 : 20,
+    source: i % 3 === 0 ? 'drink' : 'home',
+    timestamp: 1700000000000 + i,
+  }));
+}
+
+function toFloat32(cell: CellResult): CellResult {
+  const voteCounts: Record<string, number> = {};
+  for (const [beerId, w] of Object.entries(cell.voteCounts)) voteCounts[beerId] = Math.fround(w);
+  return {
+    ...cell,
+    winnerCount: Math.fround(cell.winnerCount),
+    totalCount: Math.fround(cell.totalCount),
+    voteCounts,
+    runnerUpCount: Math.fround(cell.runnerUpCount),
+    margin: Math.fround(cell.margin),
+  };
+}
+
+const input: WorkerInput = {
+  type: 'compute',
+  jobId: 1,
+  votes: [],
+  weightedVotes: makeVotes(80),
+  gridSpec: SPEC,
+  radiusKm: 20,
+  kernels: DEFAULT_KERNELS,
+  smoothingIterations: 2,
+  mergeIslandSize: 8,
+};
+
+describe('dominance columns', () => {
+  it('round-trips cell results at float32 precision', () => {
+    const { cells, cols } = precomputeGrid(SPEC);
+    const ctx = prepareDominance([], 20, input.weightedVotes);
+    const results = computeDominanceCells(ctx, cells);
+
+    expect(unpackCells(packCells(results), cols)).toEqual(results.map(toFloat32));
+  });
+
+  it('reads single cells through cellAt', () => {
+    const { rows, cols, cells } = precomputeGrid(SPEC);
+    const ctx = prepareDominance([], 20, input.weightedVotes);
+    const results = computeDominanceCells(ctx, cells);
+    const data = toDominanceResult(rows, cols, SPEC, results);
+
+    const idx = 5 * cols + 7;
+    expect(cellAt(data, 5, 7)).toEqual(toFloat32(results[idx]));
+    expect(cellAt(data, rows, 0)).toBeNull();
+    expect(cellAt(data, 0, -1)).toBeNull();
+  });
+
+  it('stitched row bands give the same result as a single-threaded compute', () => {
+    const grid = precomputeGrid(SPEC);
+    const { rows, cols, cells } = grid;
+    const step = bandRows(cols);
+    expect(rows).toBeGreaterThan(step);
+
+    // What the pool does: each band computed and packed separately
+    const raw: CellResult[] = new Array(cells.length);
+    for (let r0 = 0; r0 < rows; r0 += step) {
+      const ctx = prepareDominance(input.votes, input.radiusKm, input.weightedVotes, input.kernels);
+      const band = computeDominanceCells(ctx, cells.slice(r0 * cols, Math.min(rows, r0 + step) * cols));
+      const unpacked = unpackCells(packCells(band), cols, r0);
+      for (let k = 0; k < unpacked.length; k++) raw[r0 * cols + k] = unpacked[k];
+    }
+
+    const pooled = new DominanceSession().adopt(input, grid, raw);
+    expect(pooled).toEqual(new DominanceSession().compute(input));
+  });
+});
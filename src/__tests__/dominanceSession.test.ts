@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_KERNELS } from '../domain/kernels';
+import { DominanceSession } from '../domain/dominanceSession';
+import { diffWeightedVotes } from '../domain/weights';
+import type { CellResult, GridSpec, WeightedVote, WorkerInput } from '../domain/types';
+
+const SPEC: GridSpec = { minLat: 47.8, maxLat: 48.5, minLon: 11.0, maxLon: 12.0, cellSizeMeters: 1500 };
+const BEER_IDS = ['augustiner', 'paulaner', 'hofbraeu'];
+
+function makeVotes(count: number, seed: number): WeightedVote[] {
+  let s = seed;
+  const rand = () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 4294967296;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `wv${seed}_${i}`,
+    lat: SPEC.minLat + rand() * (SPEC.maxLat - SPEC.minLat),
+    lon: SPEC.minLon + rand() * (SPEC.maxLon - SPEC.minLon),
+    beerId: BEER_IDS[Math.floor(rand() * BEER_IDS.length)],
+    weight: 0.5 + rand() * 2,
+    radiusKm: i % 3 === 0 ? 5 : 20,
+    source: i % 3 === 0 ? 'drink' : 'home',
+    timestamp: 1700000000000 + i,
+  }));
+}
+
+/** The session's unsmoothed per-cell results */
+function rawCells(session: DominanceSession): CellResult[] {
+  return [...(session as unknown as { raw: CellResult[] }).raw];
+}
+
+function job(weightedVotes: WeightedVote[]): WorkerInput {
+  return {
+    type: 'compute',
+    jobId: 1,
+    votes: [],
+    weightedVotes,
+    gridSpec: SPEC,
+    radiusKm: 20,
+    kernels: DEFAULT_KERNELS,
+    smoothingIterations: 3,
+    mergeIslandSize: 10,
+  };
+}
+
+describe('DominanceSession', () => {
+  it('returns null for a delta without a previous computation', () => {
+    const session = new DominanceSession();
+    expect(session.applyDelta({ added: [], removed: [], changed: [] })).toBeNull();
+  });
+
+  it('matches a full recompute after adding a drink vote', () => {
+    const base = makeVotes(60, 1);
+    const checkIn: WeightedVote = {
+      id: 'dv_new', lat: 48.14, lon: 11.58, beerId: 'hofbraeu', weight: 0.75, radiusKm: 5, source: 'drink', timestamp: 1700000000000,
+    };
+    const next = [...base, checkIn];
+
+    const session = new DominanceSession();
+    session.compute(job(base));
+    const incremental = session.applyDelta(diffWeightedVotes(base, next));
+
+    expect(incremental).toEqual(new DominanceSession().compute(job(next)));
+  });
+
+  it('matches a full recompute after removing and changing votes', () => {
+    const base = makeVotes(60, 2);
+    const moved = { ...base[4], lat: base[4].lat + 0.05, beerId: 'paulaner' };
+    const reweighted = { ...base[7], weight: base[7].weight * 3 };
+    const next = base
+      .filter((v) => v.id !== base[10].id)
+      .map((v) => (v.id === moved.id ? moved : v.id === reweighted.id ? reweighted : v));
+
+    const session = new DominanceSession();
+    session.compute(job(base));
+    const incremental = session.applyDelta(diffWeightedVotes(base, next));
+
+    expect(incremental).toEqual(new DominanceSession().compute(job(next)));
+  });
+
+  it('only recomputes cells inside the changed radius', () => {
+    const base = makeVotes(40, 3);
+    const session = new DominanceSession();
+    session.compute(job(base));
+    const before = rawCells(session);
+
+    const checkIn: WeightedVote = {
+      id: 'dv_far', lat: 48.45, lon: 11.95, beerId: 'augustiner', weight: 0.75, radiusKm: 5, source: 'drink', timestamp: 1700000000000,
+    };
+    session.applyDelta({ added: [checkIn], removed: [], changed: [] });
+    const after = rawCells(session);
+
+    // A cell well outside 5 km keeps the very same raw result object
+    const farIdx = 0;
+    expect(after[farIdx]).toBe(before[farIdx]);
+  });
+
+  it('reports chunked progress up to 1 and keeps state until the last chunk', () => {
+    const base = makeVotes(60, 4);
+    const fine = { ...job(base), gridSpec: { ...SPEC, cellSizeMeters: 750 } };
+    const session = new DominanceSession();
+    const steps = session.computeSteps(fine);
+
+    const progress: number[] = [];
+    let step = steps.next();
+    expect(session.applyDelta({ added: [], removed: [], changed: [] })).toBeNull();
+    while (!step.done) {
+      progress.push(step.value);
+      step = steps.next();
+    }
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(step.value).toEqual(new DominanceSession().compute(fine));
+  });
+});
+
+describe('DominanceSession.influence', () => {
+  it('marks exactly the cells a recompute without the user hands to someone else', () => {
+    const others = makeVotes(60, 4);
+    const mine: WeightedVote[] = [
+      { id: 'home_me', lat: 48.15, lon: 11.5, beerId: 'hofbraeu', weight: 2, radiusKm: 20, source: 'home', userId: 'me', timestamp: 1700000000000 },
+      { id: 'dv_me', lat: 48.3, lon: 11.8, beerId: 'hofbraeu', weight: 0.75, radiusKm: 5, source: 'drink', userId: 'me', timestamp: 1700000000000 },
+    ];
+
+    const session = new DominanceSession();
+    const withMe = session.compute(job([...others, ...mine]));
+    const withoutMe = new DominanceSession().compute(job(others));
+    const influence = session.influence('me')!;
+
+    const expected = Array.from(withMe.winner, (w, i) => (w !== withoutMe.winner[i] ? 1 : 0));
+    expect(Array.from(influence.decisive)).toEqual(expected);
+    expect(expected.some(d => d === 1)).toBe(true);
+    expect(influence.decisiveKm2).toBeGreaterThan(0);
+
+    for (let i = 0; i < influence.share.length; i++) {
+      expect(influence.share[i]).toBeGreaterThanOrEqual(0);
+      expect(influence.share[i]).toBeLessThanOrEqual(1);
+    }
+    expect(influence.avgShare).toBeGreaterThan(0);
+  });
+
+  it('finds nothing for a user without votes', () => {
+    const session = new DominanceSession();
+    session.compute(job(makeVotes(20, 5)));
+    const influence = session.influence('nobody')!;
+    expect(influence.decisiveKm2).toBe(0);
+    expect(influence.backedKm2).toBe(0);
+  });
+});
+
+describe('diffWeightedVotes', () => {
+  it('detects added, removed and changed votes by id', () => {
+    const [a, b, c] = makeVotes(3, 4);
+    const d = makeVotes(1, 5)[0];
+    const delta = diffWeightedVotes([a, b, c], [a, { ...b, weight: 9 }, d]);
+    expect(delta.added.map((v) => v.id)).toEqual([d.id]);
+    expect(delta.removed).toEqual([c.id]);
+    expect(delta.changed.map((v) => v.id)).toEqual([b.id]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  beerLadder, duelStats, eloUpdate, expectedScore, playerLadder, rateDuels, rateRecords, ratingRecordIds,
+  ratingsFromRecords, regionLadders,
+} from '../domain/duelRatings';
+import {
+  acceptDuel, applyTimeout, concedeDuel, createDuel, declineDuel, duelTurn, playRound, type DuelStep,
+} from '../domain/duels';
+import { placeNameAt } from '../domain/gazetteer';
+import { GAME } from '../config/constants';
+import type { Duel, RatingRecord } from '../domain/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = 1700000000000;
+const MUNICH = { lat: 48.137, lon: 11.575 };
+
+const alice = { id: 'alice', beerId: 'augustiner' };
+const bob = { id: 'bob', beerId: 'paulaner' };
+const carol = { id: 'carol', beerId: 'hofbraeu' };
+
+function ok(step: DuelStep): Duel {
+  if (!step.ok) throw new Error(step.error);
+  return step.duel;
+}
+
+/**
+ * `winner` challenges `loser` at `at`, who accepts; both play a round every
+ * 3 hours until the loser concedes `hours` after accepting
+ */
+function won(winner: typeof alice, loser: typeof alice, at: number, hours = 1): Duel {
+  let duel = ok(acceptDuel(ok(createDuel(winner, loser, MUNICH, [], at)), loser.id, at));
+  for (let t = 3; t <= hours; t += 3) {
+    duel = ok(playRound(duel, duelTurn(duel)!, at + t * HOUR_MS));
+  }
+  return ok(concedeDuel(duel, loser.id, at + hours * HOUR_MS));
+}
+
+describe('Elo', () => {
+  it('moves equal ratings by half of K and rewards upsets more', () => {
+    expect(expectedScore(1000, 1000)).toBeCloseTo(0.5);
+    const [w, l] = eloUpdate(1000, 1000);
+    expect(w - 1000).toBeCloseTo(GAME.RATING_K / 2);
+    expect(w + l).toBeCloseTo(2000);
+    const [upset] = eloUpdate(900, 1100);
+    const [favourite] = eloUpdate(1100, 900);
+    expect(upset - 900).toBeGreaterThan(favourite - 1100);
+  });
+
+  it('replays duels in the order they ended, for players and beers', () => {
+    const first = won(alice, bob, NOW);
+    const second = won(bob, carol, NOW + 10 * HOUR_MS);
+    // Order of the input does not matter
+    const ratings = rateDuels([second, first]);
+    expect(ratings.users.get('alice')).toMatchObject({ wins: 1, losses: 0 });
+    expect(ratings.users.get('bob')).toMatchObject({ wins: 1, losses: 1 });
+    expect(ratings.users.get('alice')!.rating).toBeCloseTo(GAME.RATING_START + GAME.RATING_K / 2);
+    expect(ratings.beers.get('paulaner')).toMatchObject({ wins: 1, losses: 1 });
+    expect(beerLadder(ratings).map(r => r.id)).toEqual(['augustiner', 'paulaner', 'hofbraeu']);
+    expect(playerLadder(ratings, 'paulaner').map(r => r.id)).toEqual(['bob']);
+  });
+});
+
+describe('duelStats', () => {
+  it('counts wins, losses, timeouts and the longest duel', () => {
+    const short = won(alice, bob, NOW, 2);
+    const long = won(carol, alice, NOW, 30);
+    const declined = ok(declineDuel(ok(createDuel(bob, alice, MUNICH, [], NOW)), 'alice', NOW + HOUR_MS));
+    // Alice plays her round, Bob never answers
+    const active = ok(acceptDuel(ok(createDuel(alice, bob, MUNICH, [], NOW)), 'bob', NOW));
+    const played = ok(playRound(active, 'alice', NOW + HOUR_MS));
+    const timedOut = applyTimeout(played, NOW + 100 * HOUR_MS)!.duel;
+
+    const stats = duelStats([short, long, declined, timedOut], 'alice');
+    expect(stats).toMatchObject({ wins: 2, losses: 1, timeouts: 1 });
+    expect(stats.longest?.duel.id).toBe(long.id);
+    expect(stats.longest?.durationMs).toBe(30 * HOUR_MS);
+  });
+});
+
+describe('regionLadders', () => {
+  it('ranks players per place with their record there', () => {
+    const duels = [won(alice, bob, NOW), won(alice, carol, NOW + HOUR_MS)];
+    const ladders = regionLadders(rateDuels(duels));
+    const place = placeNameAt(MUNICH.lat, MUNICH.lon)!;
+    expect([...ladders.keys()]).toEqual([place]);
+    expect(ladders.get(place)!.map(r => [r.id, r.wins, r.losses])).toEqual([
+      // Carol lost to a stronger Alice than Bob did, so she dropped less
+      ['alice', 2, 0], ['carol', 0, 1], ['bob', 0, 1],
+    ]);
+  });
+});
+
+describe('rateRecords', () => {
+  it('matches a full replay when applied one duel at a time', () => {
+    const duels = [won(alice, bob, NOW), won(carol, alice, NOW + HOUR_MS), won(alice, carol, NOW + 2 * HOUR_MS)];
+    const stored = new Map<string, RatingRecord>();
+    for (const duel of duels) {
+      const current = ratingRecordIds(duel).flatMap(id => stored.get(id) ?? []);
+      for (const record of rateRecords(current, duel)) stored.set(record.id, record);
+    }
+    const ratings = ratingsFromRecords([...stored.values()]);
+    const replayed = rateDuels(duels);
+    expect(ratings.users).toEqual(replayed.users);
+    expect(ratings.beers).toEqual(replayed.beers);
+    expect(ratings.userBeers).toEqual(replayed.userBeers);
+    expect(regionLadders(ratings)).toEqual(regionLadders(replayed));
+  });
+
+  it('touches nothing for a duel without a winner', () => {
+    const declined = ok(declineDuel(ok(createDuel(bob, alice, MUNICH, [], NOW)), 'alice', NOW + HOUR_MS));
+    expect(ratingRecordIds(declined)).toEqual([]);
+  });
+});
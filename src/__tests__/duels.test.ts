@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptDuel, applyTimeout, concedeDuel, countOpenDuels, createDuel, declineDuel, duelDeadline, duelTurn,
+  isDuelOpen, nearestRival, playRound, rivalBeerOf, validateChallenge, type DuelStep,
+} from '../domain/duels';
+import { computeWeightBreakdown } from '../domain/weights';
+import { GAME } from '../config/constants';
+import type { Duel, User } from '../domain/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = 1700000000000;
+const REGION = { lat: 48.14, lon: 11.58 };
+
+const alice = { id: 'alice', beerId: 'augustiner' };
+const bob = { id: 'bob', beerId: 'paulaner' };
+
+function ok(step: DuelStep): Duel {
+  if (!step.ok) throw new Error(step.error);
+  return step.duel;
+}
+
+/** Alice challenges Bob at NOW, Bob accepts an hour later */
+function activeDuel(): Duel {
+  const pending = ok(createDuel(alice, bob, REGION, [], NOW));
+  return ok(acceptDuel(pending, 'bob', NOW + HOUR_MS));
+}
+
+function openDuelsOf(userId: string, count: number): Duel[] {
+  return Array.from({ length: count }, (_, i) =>
+    ok(createDuel({ id: userId, beerId: 'augustiner' }, { id: `rival${i}`, beerId: 'paulaner' }, REGION, [], NOW)));
+}
+
+describe('validateChallenge', () => {
+  it('blocks self-duels, same beer and duplicate duels', () => {
+    expect(validateChallenge(alice, alice, [], NOW)).toMatchObject({ ok: false, errorCode: 'self' });
+    expect(validateChallenge(alice, { id: 'carol', beerId: 'augustiner' }, [], NOW))
+      .toMatchObject({ ok: false, errorCode: 'same_beer' });
+    const existing = ok(createDuel(bob, alice, REGION, [], NOW));
+    expect(validateChallenge(alice, bob, [existing], NOW)).toMatchObject({ ok: false, errorCode: 'duplicate' });
+  });
+
+  it('enforces DUEL_MAX_ACTIVE for both players, counting only open duels', () => {
+    const full = openDuelsOf('alice', GAME.DUEL_MAX_ACTIVE);
+    expect(validateChallenge(alice, bob, full, NOW)).toMatchObject({ ok: false, errorCode: 'active_cap' });
+    expect(validateChallenge({ id: 'carol', beerId: 'hofbraeu' }, alice, full, NOW))
+      .toMatchObject({ ok: false, errorCode: 'defender_cap' });
+
+    // Unanswered challenges stop counting once they time out
+    const later = NOW + GAME.DUEL_ACCEPT_TIMEOUT_HOURS * HOUR_MS;
+    expect(countOpenDuels(full, 'alice', later)).toBe(0);
+    expect(validateChallenge(alice, bob, full, later).ok).toBe(true);
+  });
+});
+
+describe('duel lifecycle', () => {
+  it('starts pending with the defender to answer', () => {
+    const duel = ok(createDuel(alice, bob, REGION, [], NOW));
+    expect(duel).toMatchObject({
+      status: 'pending', challengerBeerId: 'augustiner', defenderBeerId: 'paulaner',
+      regionLat: REGION.lat, regionLon: REGION.lon, roundCount: 0,
+    });
+    expect(duelTurn(duel)).toBe('bob');
+    expect(acceptDuel(duel, 'alice', NOW)).toMatchObject({ ok: false, errorCode: 'not_your_turn' });
+    expect(acceptDuel(duel, 'mallory', NOW)).toMatchObject({ ok: false, errorCode: 'not_participant' });
+  });
+
+  it('declines without outcomes', () => {
+    const step = declineDuel(ok(createDuel(alice, bob, REGION, [], NOW)), 'bob', NOW + HOUR_MS);
+    expect(step).toMatchObject({ ok: true, outcomes: [], duel: { status: 'declined', resolvedAt: NOW + HOUR_MS } });
+  });
+
+  it('alternates rounds, challenger first', () => {
+    let duel = activeDuel();
+    expect(duel.status).toBe('active');
+    expect(duelTurn(duel)).toBe('alice');
+    expect(playRound(duel, 'bob', NOW + 2 * HOUR_MS)).toMatchObject({ ok: false, errorCode: 'not_your_turn' });
+
+    duel = ok(playRound(duel, 'alice', NOW + 2 * HOUR_MS));
+    duel = ok(playRound(duel, 'bob', NOW + 3 * HOUR_MS));
+    expect(duel).toMatchObject({ roundCount: 2, lastActionAt: NOW + 3 * HOUR_MS, lastActionByUserId: 'bob' });
+    expect(duelTurn(duel)).toBe('alice');
+    expect(duelDeadline(duel)).toBe(NOW + 3 * HOUR_MS + GAME.DUEL_ROUND_TIMEOUT_HOURS * HOUR_MS);
+  });
+
+  it('refuses moves after the deadline', () => {
+    const duel = activeDuel();
+    const late = duelDeadline(duel);
+    expect(isDuelOpen(duel, late)).toBe(false);
+    expect(playRound(duel, 'alice', late)).toMatchObject({ ok: false, errorCode: 'expired' });
+    expect(acceptDuel(duel, 'bob', NOW)).toMatchObject({ ok: false, errorCode: 'wrong_status' });
+  });
+
+  it('gives the opponent the win when a player concedes', () => {
+    const at = NOW + 2 * HOUR_MS;
+    const step = concedeDuel(activeDuel(), 'bob', at);
+    expect(step).toMatchObject({ ok: true, duel: { status: 'completed', winnerId: 'alice', loserId: 'bob', resolvedAt: at } });
+    if (!step.ok) return;
+    const expiresAt = at + GAME.DUEL_RESULT_DURATION_DAYS * DAY_MS;
+    expect(step.outcomes).toEqual([
+      { duelId: step.duel.id, userId: 'alice', delta: GAME.DUEL_WIN_BOOST, expiresAt },
+      { duelId: step.duel.id, userId: 'bob', delta: GAME.DUEL_LOSS_PENALTY, expiresAt },
+    ]);
+  });
+
+  it('adds the long-duel bonus after enough rounds, capped at DUEL_LONG_WIN_TOTAL', () => {
+    let duel = activeDuel();
+    for (let i = 0; i < GAME.DUEL_LONG_THRESHOLD_ROUNDS; i++) {
+      duel = ok(playRound(duel, duelTurn(duel)!, NOW + (2 + i) * HOUR_MS));
+    }
+    const step = concedeDuel(duel, 'alice', NOW + 10 * HOUR_MS);
+    if (!step.ok) throw new Error(step.error);
+    expect(step.outcomes[0].userId).toBe('bob');
+    expect(step.outcomes[0].delta).toBeCloseTo(
+      Math.min(GAME.DUEL_LONG_WIN_TOTAL, GAME.DUEL_WIN_BOOST + GAME.DUEL_LONG_WIN_BONUS), 9);
+  });
+});
+
+describe('applyTimeout', () => {
+  it('lets unanswered challenges lapse without a winner', () => {
+    const duel = ok(createDuel(alice, bob, REGION, [], NOW));
+    const deadline = NOW + GAME.DUEL_ACCEPT_TIMEOUT_HOURS * HOUR_MS;
+    expect(applyTimeout(duel, deadline - 1)).toBeNull();
+    expect(applyTimeout(duel, deadline + DAY_MS)).toEqual({
+      duel: { ...duel, status: 'timeout', resolvedAt: deadline },
+      outcomes: [],
+    });
+  });
+
+  it('makes the player who missed their turn lose, resolved at the deadline', () => {
+    const duel = ok(playRound(activeDuel(), 'alice', NOW + 2 * HOUR_MS));
+    const deadline = duelDeadline(duel);
+    const result = applyTimeout(duel, deadline + 3 * DAY_MS)!;
+    expect(result.duel).toMatchObject({ status: 'timeout', winnerId: 'alice', loserId: 'bob', resolvedAt: deadline });
+    expect(result.outcomes.map(o => [o.userId, o.delta])).toEqual([
+      ['alice', GAME.DUEL_TIMEOUT_BOOST],
+      ['bob', GAME.DUEL_LOSS_PENALTY],
+    ]);
+    expect(applyTimeout(result.duel, deadline + 4 * DAY_MS)).toBeNull();
+  });
+
+  it('feeds the outcomes into the home vote weight until they expire', () => {
+    const result = applyTimeout(ok(playRound(activeDuel(), 'alice', NOW + 2 * HOUR_MS)), NOW + DAY_MS)!;
+    const user: User = {
+      id: 'alice', phone: null, createdAt: NOW, lastActiveAt: NOW + DAY_MS, homeLat: 48.1, homeLon: 11.5,
+      beerId: 'augustiner', standYourGroundEnabled: false, ageVerified: true,
+    };
+    const alicesOutcomes = result.outcomes.filter(o => o.userId === 'alice');
+    expect(computeWeightBreakdown(user, null, [user], alicesOutcomes, NOW + DAY_MS).duelDelta).toBe(GAME.DUEL_TIMEOUT_BOOST);
+    const expired = alicesOutcomes[0].expiresAt;
+    expect(computeWeightBreakdown(user, null, [user], alicesOutcomes, expired).duelDelta).toBe(0);
+  });
+});
+
+describe('nearestRival', () => {
+  const region = {
+    beerId: 'augustiner', runnerUpBeerId: 'paulaner', centroidLat: REGION.lat, centroidLon: REGION.lon,
+  };
+  const near = { id: 'bob', beerId: 'paulaner', homeLat: 48.15, homeLon: 11.58 };
+  const nearer = { id: 'dave', beerId: 'paulaner', homeLat: 48.141, homeLon: 11.58 };
+  const far = { id: 'erin', beerId: 'paulaner', homeLat: 48.6, homeLon: 11.58 };
+
+  it('duels the runner-up, or the holder when the challenger is the runner-up', () => {
+    expect(rivalBeerOf(region, 'augustiner')).toBe('paulaner');
+    expect(rivalBeerOf(region, 'paulaner')).toBe('augustiner');
+    expect(rivalBeerOf({ ...region, runnerUpBeerId: null }, 'augustiner')).toBeNull();
+  });
+
+  it('picks the closest rival whose home reaches the region', () => {
+    const carol = { id: 'carol', beerId: 'augustiner', homeLat: 48.14, homeLon: 11.58 };
+    expect(nearestRival(alice, region, [far, near, carol, nearer])).toBe(nearer);
+    expect(nearestRival(alice, region, [far, carol])).toBeNull();
+    expect(nearestRival(bob, region, [near, { ...carol, homeLat: 48.2 }])?.id).toBe('carol');
+  });
+});
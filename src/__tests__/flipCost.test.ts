@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { flipCostCaption, flipCostOfCell, flipCostOfRegion, flipVoteSpecs } from '../domain/flipCost';
+import { extractRegions } from '../domain/regions';
+import { toDominanceResult } from '../domain/dominanceColumns';
+import { setMockTime, resetClock } from '../domain/clock';
+import { GAME } from '../config/constants';
+import type { CellResult, DominanceResult, FlipVoteSpec, GridSpec, User } from '../domain/types';
+
+const SPEC: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.0, maxLon: 11.3, cellSizeMeters: 2000 };
+const DRINK: FlipVoteSpec = { source: 'drink', weight: 0.75, radiusKm: 5, kernel: 'flat' };
+const OTR: FlipVoteSpec = { source: 'otr', weight: 1, radiusKm: 20, kernel: 'flat' };
+
+/** One row held by Augustiner; `weights[col]` = [augustiner, paulaner] */
+function rowOf(weights: [number, number][]): DominanceResult {
+  const cells: CellResult[] = weights.map(([a, p], col) => ({
+    row: 0, col, winnerBeerId: 'augustiner', winnerCount: a, totalCount: a + p,
+    voteCounts: { augustiner: a, paulaner: p }, runnerUpBeerId: 'paulaner', runnerUpCount: p,
+    margin: (a - p) / (a + p),
+  }));
+  return toDominanceResult(1, weights.length, SPEC, cells);
+}
+
+const data = rowOf([[9, 0], [6, 4], [5, 4], [6, 4], [9, 0]]);
+
+afterEach(() => resetClock());
+
+describe('flipCostOfCell', () => {
+  it('counts the votes that close the gap', () => {
+    const cost = flipCostOfCell(data, 0, 1, 'paulaner', [DRINK, OTR])!;
+    expect(cost.holderBeerId).toBe('augustiner');
+    expect(cost.extraWeight).toBeCloseTo(2, 5);
+    expect(cost.plans.map(p => p.votes)).toEqual([3, 2]);
+  });
+
+  it('needs one fresh vote to win a tie, none for a cell already held', () => {
+    const tied = rowOf([[4, 4]]);
+    expect(flipCostOfCell(tied, 0, 0, 'paulaner', [DRINK])!.plans[0].votes).toBe(1);
+    expect(flipCostOfCell(data, 0, 1, 'augustiner', [DRINK])).toBeNull();
+  });
+});
+
+describe('flipCostOfRegion', () => {
+  it('prices a majority of the region from the best spot in reach', () => {
+    const [region] = extractRegions(data);
+    const cost = flipCostOfRegion(data, region, 'paulaner', [DRINK, OTR])!;
+    expect(cost.cellsToFlip).toBe(3);
+    expect(cost.extraWeight).toBeCloseTo(2, 5);
+    // A check-in reaches three cells from the inner ones; the 9-weight ends stay out of it
+    expect(cost.plans.map(p => p.votes)).toEqual([3, 2]);
+    expect(flipCostCaption(cost)).toMatch(/^3 Check-ins bei .+ oder 2 OTR-Votes bei .+$/);
+  });
+
+  it('prices votes at the current GAME weights', () => {
+    const NOW = 1700000000000;
+    setMockTime(NOW);
+    const user = {
+      id: 'u1', phone: null, createdAt: NOW, lastActiveAt: NOW, homeLat: 48.1, homeLon: 11.1,
+      beerId: 'paulaner', standYourGroundEnabled: false, ageVerified: true,
+    } as User;
+    const [drink, otr] = flipVoteSpecs(user);
+    expect(drink.weight).toBe(GAME.DRINK_WEIGHT);
+    expect(otr.weight).toBe(GAME.HOME_BOOST_MAX * GAME.OTR_WEIGHT_SCALE);
+  });
+});
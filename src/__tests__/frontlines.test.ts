@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildRegionGraph } from '../domain/frontlines';
+import { extractRegionsWithLabels } from '../domain/regions';
+import { toDominanceResult } from '../domain/dominanceColumns';
+import { evaluateEvent } from '../domain/questEngine';
+import { QUEST_CATALOG } from '../domain/quests';
+import type { CellResult, DominanceResult, GridSpec, OverlaySettings } from '../domain/types';
+
+const SPEC: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.0, maxLon: 11.3, cellSizeMeters: 2000 };
+const SETTINGS = { closeMarginThreshold: 0.2, closeMarginMinWeight: 3 } as OverlaySettings;
+
+/** Augustiner holds the west half, Paulaner the east; `weights[row][col]` = [augustiner, paulaner] */
+function gridOf(weights: [number, number][][]): DominanceResult {
+  const cells: CellResult[] = [];
+  weights.forEach((line, row) => {
+    line.forEach(([a, p], col) => {
+      const total = a + p;
+      const [winner, runnerUp] = a >= p ? ['augustiner', 'paulaner'] : ['paulaner', 'augustiner'];
+      const [wc, rc] = a >= p ? [a, p] : [p, a];
+      cells.push({
+        row, col, winnerBeerId: winner, winnerCount: wc, totalCount: total,
+        voteCounts: { augustiner: a, paulaner: p }, runnerUpBeerId: runnerUp, runnerUpCount: rc,
+        margin: (wc - rc) / total,
+      });
+    });
+  });
+  return toDominanceResult(weights.length, weights[0].length, SPEC, cells);
+}
+
+function graphOf(data: DominanceResult) {
+  const { regions, labels } = extractRegionsWithLabels(data);
+  return { regions, graph: buildRegionGraph(data, regions, labels, SETTINGS) };
+}
+
+describe('buildRegionGraph', () => {
+  // Row 0 is fought over at the border, row 1 is not
+  const data = gridOf([
+    [[9, 0], [5, 4], [4, 5], [0, 9]],
+    [[9, 0], [9, 1], [1, 9], [0, 9]],
+  ]);
+
+  it('links neighbouring regions with their shared border length', () => {
+    const { regions, graph } = graphOf(data);
+    expect(regions).toHaveLength(2);
+    expect(graph.fronts).toHaveLength(1);
+    const [front] = graph.fronts;
+    expect(front.borderKm).toBeCloseTo(4, 1);
+    expect(front.contestedKm).toBeCloseTo(2, 1);
+    expect(new Set(front.beerIds)).toEqual(new Set(['augustiner', 'paulaner']));
+    for (const region of regions) expect(graph.byRegion.get(region.id)).toEqual([front]);
+  });
+
+  it('prices each front cell at the weight the challenger lacks', () => {
+    const { graph } = graphOf(data);
+    const [front] = graph.fronts;
+    const flips = front.cells
+      .map((c) => [c.row, c.col, c.beerId, c.challengerBeerId, c.flipWeight])
+      .sort();
+    expect(flips).toEqual([
+      [0, 1, 'augustiner', 'paulaner', expect.closeTo(1, 5)],
+      [0, 2, 'paulaner', 'augustiner', expect.closeTo(1, 5)],
+      [1, 1, 'augustiner', 'paulaner', expect.closeTo(8, 5)],
+      [1, 2, 'paulaner', 'augustiner', expect.closeTo(8, 5)],
+    ]);
+    expect(front.minFlipWeight).toBeCloseTo(1, 5);
+  });
+
+  it('lets Border Patrol count regions on a contested front only', () => {
+    const calm = gridOf([[[9, 0], [9, 1], [1, 9], [0, 9]]]);
+    for (const [grid, expected] of [[data, 1], [calm, 0]] as const) {
+      const { regions, graph } = graphOf(grid);
+      const { newState } = evaluateEvent(
+        { type: 'region:clicked', region: regions[0], cell: null },
+        { progress: {} },
+        QUEST_CATALOG,
+        SETTINGS,
+        graph,
+      );
+      expect(newState.progress['border-patrol'].currentCount).toBe(expected);
+    }
+  });
+});
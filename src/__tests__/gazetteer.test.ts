@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getPlaces, holdsCaption, placeNameAt, reverseGeocode } from '../domain/gazetteer';
+import { computeFeedItems } from '../domain/feedEngine';
+import type { DominanceResult, Region } from '../domain/types';
+
+function region(overrides: Partial<Region>): Region {
+  return {
+    id: 'r1', beerId: 'augustiner', cellCount: 10,
+    centroidLat: 48.165, centroidLon: 11.585, placeName: 'Schwabing',
+    boundingBox: { minRow: 0, maxRow: 1, minCol: 0, maxCol: 1 },
+    avgMargin: 0.2, totalVotes: 5, runnerUpBeerId: 'paulaner',
+    ...overrides,
+  };
+}
+
+describe('reverseGeocode', () => {
+  it('prefers the finest place within reach', () => {
+    expect(placeNameAt(48.166, 11.586)).toBe('Schwabing');
+    expect(reverseGeocode(48.21, 16.31)?.kind).toBe('district'); // Ottakring
+    // Outskirts: no district close enough, the city still reaches
+    expect(placeNameAt(48.05, 11.70)).toBe('München');
+    expect(placeNameAt(49.74, 13.38)).toBe('Plzeň');
+  });
+
+  it('names nothing far from every place', () => {
+    expect(placeNameAt(46.9, 10.9)).toBeNull(); // Ötztal Alps
+    expect(placeNameAt(0, 0)).toBeNull();
+  });
+
+  it('parses every line into a usable place', () => {
+    const places = getPlaces();
+    expect(places.length).toBeGreaterThan(400);
+    for (const p of places) {
+      expect(p.name).not.toBe('');
+      expect(Number.isFinite(p.lat) && Number.isFinite(p.lon)).toBe(true);
+    }
+  });
+});
+
+describe('place names in captions', () => {
+  it('says who holds which place', () => {
+    expect(holdsCaption('Augustiner', 'Schwabing')).toBe('Augustiner hält Schwabing');
+    expect(holdsCaption('Augustiner', null)).toBe('Augustiner');
+  });
+
+  it('names feed items after their region', () => {
+    const data = { rows: 1, cols: 1 } as DominanceResult;
+    const [item] = computeFeedItems(data, [region({})], [], null);
+    expect(item.placeName).toBe('Schwabing');
+    expect(item.subtitle).toContain('in Schwabing');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildTerritoryGeoJSON } from '../domain/geojsonExport';
+import { toDominanceResult } from '../domain/dominanceColumns';
+import { extractRegions } from '../domain/regions';
+import type { CellResult, GridSpec } from '../domain/types';
+
+const SPEC: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.0, maxLon: 11.3, cellSizeMeters: 2000 };
+
+// Augustiner on the left three columns, Paulaner (runner-up Augustiner) on the right two
+function twoRegions() {
+  const cells: CellResult[] = [];
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 5; col++) {
+      const left = col < 3;
+      cells.push({
+        row, col,
+        winnerBeerId: left ? 'augustiner' : 'paulaner',
+        winnerCount: 3,
+        totalCount: left ? 3 : 4,
+        voteCounts: left ? { augustiner: 3 } : { paulaner: 3, augustiner: 1 },
+        runnerUpBeerId: left ? null : 'augustiner',
+        runnerUpCount: left ? 0 : 1,
+        margin: left ? 3 : 2,
+      });
+    }
+  }
+  return toDominanceResult(4, 5, SPEC, cells);
+}
+
+describe('buildTerritoryGeoJSON', () => {
+  it('emits one MultiPolygon feature per region with its stats', () => {
+    const data = twoRegions();
+    const fc = buildTerritoryGeoJSON(data);
+    expect(fc.type).toBe('FeatureCollection');
+    expect(fc.features).toHaveLength(extractRegions(data).length);
+
+    const paulaner = fc.features.find((f) => f.properties.beerId === 'paulaner')!;
+    expect(paulaner.geometry.type).toBe('MultiPolygon');
+    expect(paulaner.properties).toMatchObject({
+      beerName: 'Paulaner',
+      cellCount: 8,
+      avgMargin: 2,
+      totalVotes: 32,
+      runnerUpBeerId: 'augustiner',
+      runnerUpName: 'Augustiner',
+      gridSpec: SPEC,
+    });
+    expect(paulaner.properties.color).toMatch(/^#/);
+  });
+
+  it('closes every ring', () => {
+    for (const feature of buildTerritoryGeoJSON(twoRegions()).features) {
+      for (const polygon of feature.geometry.coordinates) {
+        for (const ring of polygon) {
+          expect(ring.length).toBeGreaterThanOrEqual(4);
+          expect(ring[ring.length - 1]).toEqual(ring[0]);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { edgeNeighbours, hexDistance } from '../domain/gridTopology';
+import { cellIndexAt, precomputeGrid } from '../domain/geo';
+import { mergeSmallIslands, smoothWinnerGrid } from '../domain/dominance';
+import { DominanceSession } from '../domain/dominanceSession';
+import { extractRegions } from '../domain/regions';
+import { traceRegionShapes } from '../domain/contours';
+import { getViewportGridSpec, tilesOfGrid } from '../domain/tiles';
+import { TileCache } from '../domain/tileCache';
+import { DEFAULT_KERNELS } from '../domain/kernels';
+import { winnerGrid } from '../domain/dominanceColumns';
+import type { CellResult, GridSpec, WeightedVote, WorkerInput } from '../domain/types';
+
+const HEX: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.4, maxLon: 11.7, cellSizeMeters: 1000, shape: 'hex' };
+
+function home(id: string, lat: number, lon: number, beerId: string, weight = 1): WeightedVote {
+  return { id, lat, lon, beerId, weight, radiusKm: 20, source: 'home', timestamp: 1700000000000 };
+}
+
+function job(gridSpec: GridSpec): WorkerInput {
+  return {
+    type: 'compute', jobId: 1, votes: [], gridSpec, radiusKm: 20,
+    weightedVotes: [home('a', 48.05, 11.45, 'augustiner', 2), home('b', 48.18, 11.68, 'paulaner', 2)],
+    kernels: DEFAULT_KERNELS, smoothingIterations: 2, mergeIslandSize: 4,
+  };
+}
+
+function cellsOf(winners: (string | null)[], cols: number): CellResult[] {
+  return winners.map((winnerBeerId, i) => ({
+    row: Math.floor(i / cols), col: i % cols, winnerBeerId,
+    winnerCount: 1, totalCount: 1, voteCounts: {}, runnerUpBeerId: null, runnerUpCount: 0, margin: 1,
+  }));
+}
+
+describe('hex topology', () => {
+  it('gives every cell six mutual neighbours one step away', () => {
+    for (const row of [4, 5]) {
+      const offsets = edgeNeighbours('hex', row);
+      expect(offsets).toHaveLength(6);
+      for (const [dr, dc] of offsets) {
+        const back = edgeNeighbours('hex', row + dr);
+        expect(back.some(([br, bc]) => br === -dr && bc === -dc)).toBe(true);
+        expect(hexDistance({ row, col: 3 }, { row: row + dr, col: 3 + dc })).toBe(1);
+      }
+    }
+  });
+
+  it('maps every cell center back to its cell', () => {
+    const { rows, cols, cells } = precomputeGrid(HEX);
+    expect(cells[cols].centerLon).toBeGreaterThan(cells[0].centerLon);
+    for (const cell of cells) {
+      expect(cellIndexAt(HEX, rows, cols, cell.centerLat, cell.centerLon)).toEqual({ row: cell.row, col: cell.col });
+    }
+  });
+});
+
+describe('hex dominance', () => {
+  it('smooths and merges with six neighbours', () => {
+    const rows = 5;
+    const cols = 5;
+    // A lone cell inside another beer's area flips on both passes
+    const winners: (string | null)[] = new Array(rows * cols).fill('a');
+    winners[2 * cols + 2] = 'b';
+    const smoothed = cellsOf(winners, cols);
+    smoothWinnerGrid(smoothed, rows, cols, 1, 'hex');
+    expect(smoothed[2 * cols + 2].winnerBeerId).toBe('a');
+
+    const merged = cellsOf(winners, cols);
+    mergeSmallIslands(merged, rows, cols, 2, 'hex');
+    expect(merged[2 * cols + 2].winnerBeerId).toBe('a');
+  });
+
+  it('splits a hex grid into one region per beer', () => {
+    const data = new DominanceSession().compute(job(HEX));
+    const regions = extractRegions(data);
+    expect(regions.map(r => r.beerId).sort()).toEqual(['augustiner', 'paulaner']);
+    expect(regions.reduce((n, r) => n + r.cellCount, 0)).toBe(data.rows * data.cols);
+  });
+
+  it('outlines regions along hex edges', () => {
+    const data = new DominanceSession().compute(job(HEX));
+    const shapes = traceRegionShapes(data, 0);
+    expect(shapes).toHaveLength(2);
+    for (const [i, shape] of shapes.entries()) {
+      const outer = shape.polygons[0][0];
+      expect(traceRegionShapes(data)[i].polygons[0][0].length).toBeLessThan(outer.length);
+      // Unsimplified, every vertex is a corner shared by up to three hexes
+      expect(outer.length).toBeGreaterThan(6);
+      let area = 0;
+      for (let k = 0; k < outer.length; k++) {
+        const [x0, y0] = outer[k];
+        const [x1, y1] = outer[(k + 1) % outer.length];
+        area += x0 * y1 - x1 * y0;
+      }
+      expect(area).toBeGreaterThan(0);
+    }
+  });
+
+  it('computes hex lattice grids tile by tile', () => {
+    const spec = getViewportGridSpec({ south: 48.0, north: 48.25, west: 11.4, east: 11.75 }, 10, 0, 'hex');
+    const grid = precomputeGrid(spec);
+    expect(tilesOfGrid(spec, grid.rows, grid.cols)).not.toBeNull();
+
+    const steps = new DominanceSession().computeSteps(job(spec), new TileCache());
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    expect(winnerGrid(step.value)).toEqual(winnerGrid(new DominanceSession().compute(job(spec))));
+  });
+});
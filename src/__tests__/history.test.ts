@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeSnapshot, encodeSnapshot, isSnapshotDue, replayVotes, replayWeightedVotes, snapshotAt,
+} from '../domain/history';
+import { toDominanceResult, winnerAt } from '../domain/dominanceColumns';
+import { GAME } from '../config/constants';
+import type { CellResult, DominanceSnapshot, GridSpec, OnTheRoadVote, User } from '../domain/types';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1700000000000;
+const SPEC: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.0, maxLon: 11.3, cellSizeMeters: 2000 };
+
+function cell(col: number, winner: string | null): CellResult {
+  return {
+    row: 0, col, winnerBeerId: winner, winnerCount: winner ? 3 : 0, totalCount: winner ? 4 : 0,
+    voteCounts: winner ? { [winner]: 3, other: 1 } : {}, runnerUpBeerId: winner ? 'other' : null,
+    runnerUpCount: winner ? 1 : 0, margin: winner ? 0.5 : 0,
+  };
+}
+
+function snapshotTakenAt(takenAt: number): DominanceSnapshot {
+  return { id: `dach_${takenAt}`, areaId: 'dach', takenAt, gridSpec: SPEC, rows: 0, cols: 0, beerIds: [], winners: [] };
+}
+
+describe('snapshots', () => {
+  it('round-trips the winner grid through run-length encoding', () => {
+    const winners = ['augustiner', 'augustiner', null, 'paulaner', 'paulaner', 'paulaner'];
+    const data = toDominanceResult(1, winners.length, SPEC, winners.map((w, col) => cell(col, w)));
+    const snapshot = encodeSnapshot(data, NOW);
+
+    expect(snapshot.winners.length).toBe(6);
+    const decoded = decodeSnapshot(snapshot);
+    expect(winners.map((_, col) => winnerAt(decoded, col))).toEqual(winners);
+    expect(decoded.margin[0]).toBe(1);
+    expect(decoded.margin[2]).toBe(0);
+  });
+
+  it('keys snapshots by area and interval slot', () => {
+    const interval = GAME.SNAPSHOT_INTERVAL_HOURS * HOUR;
+    const slotStart = Math.floor(NOW / interval) * interval;
+    const data = toDominanceResult(1, 1, SPEC, [cell(0, 'augustiner')]);
+
+    const first = encodeSnapshot(data, slotStart);
+    expect(first.id).toBe(`${first.areaId}_${Math.floor(NOW / interval)}`);
+    expect(encodeSnapshot(data, slotStart + interval - 1).id).toBe(first.id);
+    expect(encodeSnapshot(data, slotStart + interval).id).not.toBe(first.id);
+  });
+
+  it('is due once per interval slot and only stands in for an interval', () => {
+    const interval = GAME.SNAPSHOT_INTERVAL_HOURS * HOUR;
+    const snapshots = [snapshotTakenAt(NOW - 2 * interval), snapshotTakenAt(NOW - interval / 2)];
+
+    expect(isSnapshotDue([], NOW)).toBe(true);
+    expect(isSnapshotDue(snapshots, NOW)).toBe(false);
+    expect(isSnapshotDue(snapshots, NOW + interval)).toBe(true);
+
+    expect(snapshotAt(snapshots, NOW)?.takenAt).toBe(NOW - interval / 2);
+    expect(snapshotAt(snapshots, NOW - 1.5 * interval)?.takenAt).toBe(NOW - 2 * interval);
+    expect(snapshotAt(snapshots, NOW - 3 * interval)).toBeNull();
+  });
+});
+
+describe('replay', () => {
+  const user = {
+    id: 'u1', phone: null, createdAt: NOW - 20 * 24 * HOUR, lastActiveAt: NOW, homeLat: 48.1, homeLon: 11.1,
+    beerId: 'augustiner', standYourGroundEnabled: false, ageVerified: true,
+  } as User;
+  const otr: OnTheRoadVote = {
+    id: 'o1', userId: 'u1', lat: 48.15, lon: 11.2, beerId: 'augustiner',
+    createdAt: NOW - 3 * 24 * HOUR, expiresAt: NOW - 24 * HOUR,
+  };
+
+  it('builds the votes that were live at the replayed moment', () => {
+    const sources = (at: number) =>
+      replayWeightedVotes([user], [otr], [], new Map(), [], at).map(v => v.source);
+
+    expect(sources(NOW)).toEqual(['home']);
+    expect(sources(NOW - 2 * 24 * HOUR)).toEqual(['home', 'otr']);
+    expect(sources(NOW - 25 * 24 * HOUR)).toEqual([]);
+  });
+
+  it('keeps plain votes placed up to the moment', () => {
+    const votes = [NOW - HOUR, NOW].map((timestamp, i) => ({ id: `v${i}`, lat: 48.1, lon: 11.1, beerId: 'augustiner', timestamp }));
+    expect(replayVotes(votes, NOW - HOUR).map(v => v.id)).toEqual(['v0']);
+  });
+});
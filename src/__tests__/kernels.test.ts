@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { kernelFactor } from '../domain/kernels';
+import { computeDominance } from '../domain/dominance';
+import { precomputeGrid } from '../domain/geo';
+import type { GridSpec, InfluenceKernel, InfluenceKernels, WeightedVote } from '../domain/types';
+
+const KERNELS: InfluenceKernel[] = ['flat', 'linear', 'gaussian', 'inverse-square'];
+
+describe('kernelFactor', () => {
+  it('is 1 at the center and 0 beyond the radius for every kernel', () => {
+    for (const kernel of KERNELS) {
+      expect(kernelFactor(kernel, 0, 20)).toBe(1);
+      expect(kernelFactor(kernel, 20.01, 20)).toBe(0);
+    }
+  });
+
+  it('decays monotonically except for flat', () => {
+    for (const kernel of KERNELS) {
+      const samples = [0, 5, 10, 15, 19.9].map((d) => kernelFactor(kernel, d, 20));
+      for (let i = 1; i < samples.length; i++) {
+        if (kernel === 'flat') expect(samples[i]).toBe(1);
+        else expect(samples[i]).toBeLessThan(samples[i - 1]);
+      }
+    }
+  });
+
+  it('matches the documented shapes', () => {
+    expect(kernelFactor('linear', 10, 20)).toBeCloseTo(0.5);
+    // σ = 0.5 × radius → exp(-0.5) one sigma out
+    expect(kernelFactor('gaussian', 10, 20)).toBeCloseTo(Math.exp(-0.5));
+    // half weight at 0.25 × radius
+    expect(kernelFactor('inverse-square', 5, 20)).toBeCloseTo(0.5);
+  });
+});
+
+describe('computeDominance with kernels', () => {
+  // One row of cells between two equally weighted home votes 30 km apart, north of the Ammersee
+  const spec: GridSpec = { minLat: 48.2, maxLat: 48.21, minLon: 11.0, maxLon: 11.6, cellSizeMeters: 1000 };
+  const home = (id: string, lon: number, beerId: string, weight: number): WeightedVote => ({
+    id, lat: 48.205, lon, beerId, weight, radiusKm: 20, source: 'home', timestamp: 1700000000000,
+  });
+  const votes = [home('a', 11.1, 'augustiner', 2), home('b', 11.5, 'paulaner', 1)];
+  const { cells } = precomputeGrid(spec);
+
+  const winners = (kernel: InfluenceKernel) => {
+    const kernels: InfluenceKernels = { home: kernel, otr: 'flat', drink: 'flat' };
+    return computeDominance(cells, [], 20, votes, kernels).map((c) => c.winnerBeerId);
+  };
+
+  it('flat lets the heavier vote win every overlap cell', () => {
+    const results = computeDominance(cells, [], 20, votes, { home: 'flat', otr: 'flat', drink: 'flat' });
+    const overlap = results.filter((c) => Object.keys(c.voteCounts).length === 2);
+    expect(overlap.length).toBeGreaterThan(0);
+    expect(overlap.every((c) => c.winnerBeerId === 'augustiner')).toBe(true);
+  });
+
+  it('decaying kernels move the border between the two homes', () => {
+    for (const kernel of ['linear', 'gaussian', 'inverse-square'] as const) {
+      const w = winners(kernel);
+      const border = w.indexOf('paulaner');
+      expect(border).toBeGreaterThan(0);
+      expect(w.slice(0, border).every((b) => b === 'augustiner')).toBe(true);
+      expect(w.slice(border).every((b) => b === 'paulaner')).toBe(true);
+      // The border sits strictly between the homes, nearer the weaker one
+      const lon = cells[border].centerLon;
+      expect(lon).toBeGreaterThan(11.3);
+      expect(lon).toBeLessThan(11.5);
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { gridLandMask, isPlayableLand } from '../domain/landMask';
+import { precomputeGrid } from '../domain/geo';
+import { DominanceSession } from '../domain/dominanceSession';
+import { extractRegions } from '../domain/regions';
+import { DEFAULT_KERNELS } from '../domain/kernels';
+import { winnerGrid } from '../domain/dominanceColumns';
+import type { GridSpec, WeightedVote } from '../domain/types';
+
+describe('isPlayableLand', () => {
+  it('accepts DACH cities', () => {
+    expect(isPlayableLand(48.137, 11.575)).toBe(true); // München
+    expect(isPlayableLand(52.52, 13.405)).toBe(true); // Berlin
+    expect(isPlayableLand(48.208, 16.373)).toBe(true); // Wien
+    expect(isPlayableLand(47.377, 8.54)).toBe(true); // Zürich
+  });
+
+  it('rejects neighbouring countries, the sea and lakes', () => {
+    expect(isPlayableLand(48.58, 7.75)).toBe(false); // Strasbourg
+    expect(isPlayableLand(50.08, 14.42)).toBe(false); // Praha
+    expect(isPlayableLand(45.46, 9.19)).toBe(false); // Milano
+    expect(isPlayableLand(54.2, 7.5)).toBe(false); // Nordsee
+    expect(isPlayableLand(47.6, 9.4)).toBe(false); // Bodensee
+    expect(isPlayableLand(47.95, 11.15)).toBe(false); // Ammersee
+  });
+});
+
+describe('masked grids', () => {
+  // Lake Constance with bits of all three countries around it
+  const spec: GridSpec = { minLat: 47.4, maxLat: 47.9, minLon: 8.8, maxLon: 9.9, cellSizeMeters: 2000 };
+  const home = (id: string, lat: number, lon: number, beerId: string): WeightedVote => ({
+    id, lat, lon, beerId, weight: 2, radiusKm: 40, source: 'home', timestamp: 1700000000000,
+  });
+
+  it('flags cells off land and reuses the mask per GridSpec', () => {
+    const { cells } = precomputeGrid(spec);
+    const lake = cells.filter(c => c.masked);
+    expect(lake.length).toBeGreaterThan(0);
+    expect(lake.length).toBeLessThan(cells.length);
+    expect(gridLandMask(spec, cells)).toBe(gridLandMask(spec, precomputeGrid(spec).cells));
+  });
+
+  it('leaves masked cells out of winners and regions', () => {
+    const data = new DominanceSession().compute({
+      type: 'compute', jobId: 1, votes: [], gridSpec: spec, radiusKm: 20,
+      weightedVotes: [home('a', 47.75, 9.2, 'augustiner'), home('b', 47.45, 9.6, 'paulaner')],
+      kernels: DEFAULT_KERNELS, smoothingIterations: 2, mergeIslandSize: 4,
+    });
+    const { cells } = precomputeGrid(spec);
+    const winners = winnerGrid(data);
+
+    cells.forEach((cell, i) => {
+      if (cell.masked) expect(winners[i]).toBeNull();
+    });
+    const land = cells.filter(c => !c.masked).length;
+    const held = extractRegions(data).reduce((n, r) => n + r.cellCount, 0);
+    expect(held).toBeLessThanOrEqual(land);
+    expect(held).toBeGreaterThan(0);
+  });
+});
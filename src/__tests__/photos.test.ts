@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { fitWithin, photoCutoff, roundPhotoId } from '../domain/photos';
+import { createDuel, acceptDuel, playRound } from '../domain/duels';
+import { GAME } from '../config/constants';
+
+const NOW = 1700000000000;
+
+describe('fitWithin', () => {
+  it('scales the longer edge down to the limit, keeping the aspect ratio', () => {
+    expect(fitWithin(4000, 3000, 1280)).toEqual({ width: 1280, height: 960 });
+    expect(fitWithin(3000, 4000, 1280)).toEqual({ width: 960, height: 1280 });
+  });
+
+  it('never scales up or collapses a side', () => {
+    expect(fitWithin(640, 480, 1280)).toEqual({ width: 640, height: 480 });
+    expect(fitWithin(10000, 2, 1000)).toEqual({ width: 1000, height: 1 });
+  });
+});
+
+describe('photo lifetime', () => {
+  it('purges photos older than PHOTO_TTL_DAYS', () => {
+    expect(NOW - photoCutoff(NOW)).toBe(GAME.PHOTO_TTL_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  it('names each round photo after the duel and round', () => {
+    const created = createDuel({ id: 'alice', beerId: 'augustiner' }, { id: 'bob', beerId: 'paulaner' }, { lat: 48.1, lon: 11.6 }, [], NOW);
+    if (!created.ok) throw new Error(created.error);
+    const accepted = acceptDuel(created.duel, 'bob', NOW + 1);
+    if (!accepted.ok) throw new Error(accepted.error);
+    const round = playRound(accepted.duel, 'alice', NOW + 2);
+    if (!round.ok) throw new Error(round.error);
+    expect(roundPhotoId(round.duel)).toBe(`${created.duel.id}_r1`);
+  });
+});
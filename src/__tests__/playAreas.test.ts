@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getActivePlayArea, getPlayArea, setActivePlayArea } from '../domain/playAreas';
+import { playAreaAt, playAreaForHome } from '../domain/landMask';
+import { getDefaultBoundingBox, precomputeGrid } from '../domain/geo';
+import { getViewportGridSpec, tilesOfGrid } from '../domain/tiles';
+import { buildWeightedVotes } from '../domain/weights';
+import type { User } from '../domain/types';
+
+const NOW = 1700000000000;
+
+function makeUser(id: string, homeLat: number, homeLon: number): User {
+  return {
+    id, phone: null, createdAt: NOW - 1e9, lastActiveAt: NOW - 1e6,
+    homeLat, homeLon, beerId: 'beer1', standYourGroundEnabled: false, ageVerified: true,
+  };
+}
+
+afterEach(() => setActivePlayArea('dach'));
+
+describe('play areas', () => {
+  it('finds the area holding a location', () => {
+    expect(playAreaAt(48.137, 11.575)?.id).toBe('dach'); // München
+    expect(playAreaAt(50.847, 4.357)?.id).toBe('be'); // Brussel
+    expect(playAreaAt(50.075, 14.437)?.id).toBe('cz'); // Praha
+    expect(playAreaAt(48.857, 2.352)).toBeNull(); // Paris
+    expect(playAreaForHome(0, 0).id).toBe('dach');
+    expect(getPlayArea('xx').id).toBe('dach');
+  });
+
+  it('weights only the homes of the given area', () => {
+    const users = [makeUser('muc', 48.137, 11.575), makeUser('bru', 50.847, 4.357)];
+    const be = buildWeightedVotes(users, [], [], new Map(), [], NOW, getPlayArea('be'));
+    expect(be.map(v => v.id)).toEqual(['home_bru']);
+    const dach = buildWeightedVotes(users, [], [], new Map(), [], NOW);
+    expect(dach.map(v => v.id)).toEqual(['home_muc']);
+  });
+
+  it('builds grids and tiles on the active area', () => {
+    setActivePlayArea('be');
+    expect(getActivePlayArea().beers.map(b => b.id)).toContain('duvel');
+
+    const spec = getDefaultBoundingBox();
+    expect(spec.areaId).toBe('be');
+    // Lille lies inside the bounds but in France
+    const { cells } = precomputeGrid({ ...spec, cellSizeMeters: 10000 });
+    const lille = cells.find(c => Math.abs(c.centerLat - 50.63) < 0.05 && Math.abs(c.centerLon - 3.06) < 0.08);
+    expect(lille?.masked).toBe(true);
+
+    const view = getViewportGridSpec({ south: 50.7, north: 50.95, west: 4.2, east: 4.6 }, 10, 0);
+    expect(view.areaId).toBe('be');
+    const grid = precomputeGrid(view);
+    const tiles = tilesOfGrid(view, grid.rows, grid.cols);
+    expect(tiles).not.toBeNull();
+    expect(tiles!.every(s => s.tile.areaId === 'be')).toBe(true);
+  });
+});
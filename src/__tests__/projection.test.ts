@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { project, unproject } from '../domain/projection';
+import { cellIndexAt, gridToLatLon, haversineDistanceKm, latLonToGrid, precomputeGrid } from '../domain/geo';
+import type { GridSpec } from '../domain/types';
+
+// Northern Germany, where per-row column widths used to drift apart
+const SPEC: GridSpec = { minLat: 53.0, maxLat: 54.0, minLon: 9.0, maxLon: 10.5, cellSizeMeters: 5000 };
+
+describe('web mercator', () => {
+  it('matches EPSG:3857 and inverts itself', () => {
+    expect(project(0, 180).x).toBeCloseTo(20037508.34, 1);
+    expect(project(0, 0).y).toBeCloseTo(0, 6);
+    const { lat, lon } = unproject(project(47.37, 8.54).x, project(47.37, 8.54).y);
+    expect(lat).toBeCloseTo(47.37, 9);
+    expect(lon).toBeCloseTo(8.54, 9);
+  });
+});
+
+describe('projected grid', () => {
+  it('lines columns up across rows', () => {
+    const { rows, cols, cells } = precomputeGrid(SPEC);
+    for (let c = 0; c < cols; c++) {
+      expect(cells[(rows - 1) * cols + c].centerLon).toBeCloseTo(cells[c].centerLon, 9);
+    }
+  });
+
+  it('sizes cells true to scale at the middle latitude', () => {
+    const a = gridToLatLon(SPEC, 0, 9.5);
+    const b = gridToLatLon(SPEC, 1, 9.5);
+    const c = gridToLatLon(SPEC, 0, 10.5);
+    expect(haversineDistanceKm(a.lat, a.lon, b.lat, b.lon)).toBeCloseTo(5, 1);
+    expect(haversineDistanceKm(a.lat, a.lon, c.lat, c.lon)).toBeCloseTo(5, 1);
+  });
+
+  it('maps cell centers and grid positions back and forth', () => {
+    const { rows, cols, cells } = precomputeGrid(SPEC);
+    for (const cell of cells) {
+      expect(cellIndexAt(SPEC, rows, cols, cell.centerLat, cell.centerLon)).toEqual({ row: cell.row, col: cell.col });
+      const { x, y } = latLonToGrid(SPEC, cell.centerLat, cell.centerLon);
+      expect(x).toBeCloseTo(cell.col, 9);
+      expect(y).toBeCloseTo(cell.row, 9);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { extractRegions, extractRegionsWithLabels } from '../domain/regions';
+import { RegionIdRegistry } from '../domain/regionIdentity';
+import { toDominanceResult } from '../domain/dominanceColumns';
+import { haversineDistanceKm, precomputeGrid } from '../domain/geo';
+import type { CellResult, DominanceResult, GridSpec } from '../domain/types';
+
+const PEAK = { lat: 48.137, lon: 11.575 };
+
+/**
+ * Augustiner holds everything within 10 km of PEAK, weight falling off with
+ * distance; `split` cuts a 2 km wide north-south gap through the middle,
+ * `present: false` leaves the grid empty.
+ */
+function territory(spec: GridSpec, split = false, flat = false, present = true): DominanceResult {
+  const grid = precomputeGrid(spec);
+  const cells = grid.cells.map((cell): CellResult => {
+    const d = haversineDistanceKm(PEAK.lat, PEAK.lon, cell.centerLat, cell.centerLon);
+    const gapKm = Math.abs(cell.centerLon - PEAK.lon) * 74;
+    const held = present && d <= 10 && !(split && gapKm < 1);
+    const weight = held ? (flat ? 1 : Math.round(10 - d) + 1) : 0;
+    return {
+      row: cell.row, col: cell.col,
+      winnerBeerId: held ? 'augustiner' : null,
+      winnerCount: weight, totalCount: weight,
+      voteCounts: held ? { augustiner: weight } : {},
+      runnerUpBeerId: null, runnerUpCount: 0, margin: weight,
+    };
+  });
+  return toDominanceResult(grid.rows, grid.cols, spec, cells);
+}
+
+const WIDE: GridSpec = { minLat: 47.9, maxLat: 48.4, minLon: 11.2, maxLon: 11.9, cellSizeMeters: 1000 };
+// Different origin and cell size over the same place
+const SHIFTED: GridSpec = { minLat: 47.93, maxLat: 48.37, minLon: 11.27, maxLon: 11.83, cellSizeMeters: 750 };
+// Only the eastern edge of the territory, peak out of view
+const EAST_EDGE: GridSpec = { minLat: 47.9, maxLat: 48.4, minLon: 11.64, maxLon: 11.9, cellSizeMeters: 1000 };
+// East of the territory, none of it in view
+const FAR_EAST: GridSpec = { minLat: 47.9, maxLat: 48.4, minLon: 11.8, maxLon: 12.2, cellSizeMeters: 1000 };
+
+/** Region ids `registry` hands out for `data` */
+function assign(registry: RegionIdRegistry, data: DominanceResult) {
+  return registry.assign(data, extractRegionsWithLabels(data));
+}
+
+describe('region ids', () => {
+  it('name the same territory alike on different grids', () => {
+    const [a] = extractRegions(territory(WIDE));
+    const [b] = extractRegions(territory(SHIFTED));
+    expect(a.id).toMatch(/^augustiner@-?\d+,-?\d+$/);
+    expect(b.id).toBe(a.id);
+  });
+
+  it('do not depend on the vote weights inside a territory', () => {
+    const [peaked] = extractRegions(territory(WIDE));
+    const [flat] = extractRegions(territory(WIDE, false, true));
+    expect(flat.id).toBe(peaked.id);
+  });
+
+  it('keep the earlier id when a pan moves the anchor out of view', () => {
+    const registry = new RegionIdRegistry();
+    const [full] = assign(registry, territory(WIDE));
+    const edge = territory(EAST_EDGE);
+
+    expect(extractRegions(edge)[0].id).not.toBe(full.id);
+    expect(assign(registry, edge)[0].id).toBe(full.id);
+  });
+
+  it('keep the id when the territory leaves the view and comes back clipped', () => {
+    const registry = new RegionIdRegistry();
+    const [full] = assign(registry, territory(WIDE));
+    expect(assign(registry, territory(FAR_EAST))).toHaveLength(0);
+
+    expect(assign(registry, territory(EAST_EDGE))[0].id).toBe(full.id);
+  });
+
+  it('keep the id in a later session through the saved node table', () => {
+    const first = new RegionIdRegistry();
+    const [full] = assign(first, territory(WIDE));
+
+    const restored = new RegionIdRegistry(JSON.parse(JSON.stringify(first.entries())));
+    expect(assign(restored, territory(EAST_EDGE))[0].id).toBe(full.id);
+  });
+
+  it('never hands one id to two regions', () => {
+    const registry = new RegionIdRegistry();
+    const [full] = assign(registry, territory(WIDE));
+    const halves = assign(registry, territory(WIDE, true));
+
+    expect(halves).toHaveLength(2);
+    expect(halves.map((r) => r.id)).toContain(full.id);
+    expect(new Set(halves.map((r) => r.id)).size).toBe(2);
+  });
+
+  it('forget ids of regions that disappeared in view', () => {
+    const registry = new RegionIdRegistry();
+    const [full] = assign(registry, territory(WIDE));
+    assign(registry, territory(WIDE, false, false, false));
+    const edge = territory(EAST_EDGE);
+
+    const [region] = assign(registry, edge);
+    expect(region.id).not.toBe(full.id);
+    expect(region.id).toBe(extractRegions(edge)[0].id);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { changeCovering, diffTerritory, TerritoryTracker } from '../domain/territoryDiff';
+import { getViewportGridSpec, latticeGridSpec } from '../domain/tiles';
+import { DominanceSession } from '../domain/dominanceSession';
+import { DEFAULT_KERNELS } from '../domain/kernels';
+import { GAME } from '../config/constants';
+import { toDominanceResult } from '../domain/dominanceColumns';
+import { gridToLatLon } from '../domain/geo';
+import type { CellResult, DominanceResult, ViewportBounds, WeightedVote } from '../domain/types';
+
+const NOW = 1700000000000;
+const SIZE = 12;
+/** Global lattice position of the first test grid (1000 m level) */
+const R0 = 400;
+const C0 = 300;
+
+/** SIZE × SIZE grid at lattice offset (r0, c0); `winner` gets global row/col */
+function grid(winner: (row: number, col: number) => string | null, r0 = R0, c0 = C0, cellSizeMeters = 1000): DominanceResult {
+  const spec = latticeGridSpec({ cellSizeMeters }, r0, r0 + SIZE - 1, c0, c0 + SIZE - 1);
+  const cells: CellResult[] = [];
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) {
+      const w = winner(r0 + row, c0 + col);
+      cells.push({
+        row, col, winnerBeerId: w, winnerCount: w ? 1 : 0, totalCount: w ? 1 : 0,
+        voteCounts: w ? { [w]: 1 } : {}, runnerUpBeerId: null, runnerUpCount: 0, margin: w ? 1 : 0,
+      });
+    }
+  }
+  return toDominanceResult(SIZE, SIZE, spec, cells);
+}
+
+/** Global cells R0+5..R0+6 × C0+5..C0+7 */
+const inBlock = (r: number, c: number) => r >= R0 + 5 && r <= R0 + 6 && c >= C0 + 5 && c <= C0 + 7;
+
+describe('diffTerritory', () => {
+  it('groups changed cells into one patch per old and new holder', () => {
+    const prev = grid(() => 'augustiner');
+    const next = grid((r, c) => (inBlock(r, c) ? 'paulaner' : 'augustiner'));
+    const [change, ...rest] = diffTerritory(prev, next, NOW);
+
+    expect(rest).toEqual([]);
+    expect(change.kind).toBe('flipped');
+    expect([change.fromBeerId, change.toBeerId]).toEqual(['augustiner', 'paulaner']);
+    expect(change.cellCount).toBe(6);
+    expect(change.areaKm2).toBeGreaterThan(5);
+    expect(change.areaKm2).toBeLessThan(7);
+
+    const { lat, lon } = gridToLatLon(next.gridSpec, 6, 5);
+    expect(changeCovering([change], next, lat, lon)).toBe(change);
+    const outside = gridToLatLon(next.gridSpec, 1, 1);
+    expect(changeCovering([change], next, outside.lat, outside.lon)).toBeNull();
+  });
+
+  it('names a patch by its lattice position', () => {
+    const before = grid(() => null);
+    const [change] = diffTerritory(before, grid((r, c) => (inBlock(r, c) ? 'paulaner' : null)), NOW);
+    expect(change.kind).toBe('gained');
+    expect(change.id).toMatch(new RegExp(`^gained:->paulaner@.+/${R0 + 5},${C0 + 5}$`));
+  });
+
+  it('does not compare panned grids', () => {
+    const before = grid(() => null);
+    const after = grid((r, c) => (inBlock(r, c) ? 'paulaner' : null), R0 + 1, C0 - 2);
+    expect(diffTerritory(before, after, NOW)).toEqual([]);
+  });
+
+  it('ignores small patches and other lattice levels', () => {
+    const prev = grid(() => 'augustiner');
+    const speck = grid((r, c) => (r === R0 + 5 && c <= C0 + 6 && c >= C0 + 5 ? null : 'augustiner'));
+    expect(diffTerritory(prev, speck, NOW)).toEqual([]);
+
+    const coarse = grid((r, c) => (inBlock(r, c) ? 'paulaner' : 'augustiner'), R0, C0, 2000);
+    expect(diffTerritory(prev, coarse, NOW)).toEqual([]);
+  });
+});
+
+describe('TerritoryTracker', () => {
+  it('compares each result with the last one on its lattice', () => {
+    const tracker = new TerritoryTracker();
+    expect(tracker.update(grid(() => 'augustiner'), NOW)).toEqual([]);
+    // Zoomed out and back: the coarse grid does not replace the fine one
+    tracker.update(grid(() => 'paulaner', R0, C0, 2000), NOW);
+    const changes = tracker.update(grid((r, c) => (inBlock(r, c) ? null : 'augustiner')), NOW);
+    expect(changes.map(c => [c.kind, c.cellCount])).toEqual([['lost', 6]]);
+  });
+
+  it('reports nothing when the map pans without a vote change', () => {
+    const votes: WeightedVote[] = [
+      { id: 'a', lat: 48.10, lon: 11.50, beerId: 'paulaner', weight: 2, radiusKm: 20, source: 'home', timestamp: NOW },
+      { id: 'b', lat: 48.14, lon: 11.62, beerId: 'spaten', weight: 2, radiusKm: 20, source: 'home', timestamp: NOW },
+      { id: 'c', lat: 48.05, lon: 11.58, beerId: 'augustiner', weight: 1, radiusKm: 20, source: 'home', timestamp: NOW },
+    ];
+    const compute = (view: ViewportBounds) => new DominanceSession().compute({
+      type: 'compute', jobId: 1, votes: [], weightedVotes: votes,
+      gridSpec: getViewportGridSpec(view, 11, 0, 'square'), radiusKm: 20, kernels: DEFAULT_KERNELS,
+      smoothingIterations: GAME.SMOOTHING_ITERATIONS, mergeIslandSize: GAME.MERGE_ISLAND_SIZE,
+    });
+    const view = { south: 48.0, north: 48.2, west: 11.4, east: 11.7 };
+    const tracker = new TerritoryTracker();
+    tracker.update(compute(view), NOW);
+    expect(tracker.update(compute({ ...view, west: view.west + 0.04, east: view.east + 0.04 }), NOW)).toEqual([]);
+    expect(tracker.update(compute(view), NOW)).toEqual([]);
+  });
+});
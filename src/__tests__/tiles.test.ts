@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { getViewportGridSpec, tilesOfGrid, tileVoteHash } from '../domain/tiles';
+import { TileCache } from '../domain/tileCache';
+import { DominanceSession } from '../domain/dominanceSession';
+import { DEFAULT_KERNELS } from '../domain/kernels';
+import { precomputeGrid } from '../domain/geo';
+import { winnerGrid } from '../domain/dominanceColumns';
+import type { GridSpec, ViewportBounds, WeightedVote, WorkerInput } from '../domain/types';
+
+const VIEW: ViewportBounds = { south: 48.0, north: 48.25, west: 11.4, east: 11.75 };
+const ZOOM = 10; // 1000 m level
+
+function home(id: string, lat: number, lon: number, beerId: string, weight = 1): WeightedVote {
+  return { id, lat, lon, beerId, weight, radiusKm: 20, source: 'home', timestamp: 1700000000000 };
+}
+
+const VOTES = [
+  home('a', 48.05, 11.45, 'augustiner', 2),
+  home('b', 48.2, 11.7, 'paulaner', 1.5),
+  home('c', 48.12, 11.6, 'hofbraeu'),
+];
+
+/** Full job through the tile cache */
+function computeTiled(session: DominanceSession, input: WorkerInput, cache: TileCache) {
+  const steps = session.computeSteps(input, cache);
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+}
+
+function job(gridSpec: GridSpec, weightedVotes = VOTES): WorkerInput {
+  return {
+    type: 'compute', jobId: 1, votes: [], weightedVotes, gridSpec, radiusKm: 20,
+    kernels: DEFAULT_KERNELS, smoothingIterations: 3, mergeIslandSize: 10,
+  };
+}
+
+describe('tile lattice', () => {
+  it('keeps cells in place when the viewport pans', () => {
+    const a = getViewportGridSpec(VIEW, ZOOM, 0);
+    const b = getViewportGridSpec({ ...VIEW, west: VIEW.west + 0.013, east: VIEW.east + 0.013 }, ZOOM, 0);
+    const ga = precomputeGrid(a);
+    const gb = precomputeGrid(b);
+
+    // Some cell of b sits exactly where a cell of a sits
+    const first = gb.cells[0];
+    const match = ga.cells.find(
+      (c) => Math.abs(c.centerLat - first.centerLat) < 1e-9 && Math.abs(c.centerLon - first.centerLon) < 1e-9,
+    );
+    expect(match).toBeDefined();
+    expect(tilesOfGrid(a, ga.rows, ga.cols)).not.toBeNull();
+  });
+
+  it('treats grids off the lattice as untiled', () => {
+    const spec: GridSpec = { minLat: 48.0, maxLat: 48.2, minLon: 11.0, maxLon: 11.3, cellSizeMeters: 1000 };
+    const { rows, cols } = precomputeGrid(spec);
+    expect(tilesOfGrid(spec, rows, cols)).toBeNull();
+  });
+
+  it('only rehashes tiles a changed vote can reach', () => {
+    const spec = getViewportGridSpec(VIEW, ZOOM, 0);
+    const base = tileVoteHash(spec, job(spec));
+    const far = [...VOTES, home('far', 53.5, 10.0, 'spaten')];
+    const near = [...VOTES, home('near', 48.1, 11.5, 'spaten')];
+
+    expect(tileVoteHash(spec, job(spec, far))).toBe(base);
+    expect(tileVoteHash(spec, job(spec, near))).not.toBe(base);
+  });
+});
+
+describe('tiled computation', () => {
+  it('matches the untiled result', () => {
+    const spec = getViewportGridSpec(VIEW, ZOOM, 0);
+    const plain = new DominanceSession().compute(job(spec));
+    const tiled = computeTiled(new DominanceSession(), job(spec), new TileCache());
+
+    expect(tiled.rows).toBe(plain.rows);
+    expect(tiled.cols).toBe(plain.cols);
+    expect(winnerGrid(tiled)).toEqual(winnerGrid(plain));
+  });
+
+  it('reuses cached tiles after a pan', () => {
+    const cache = new TileCache();
+    const session = new DominanceSession();
+    const run = (spec: GridSpec) => computeTiled(session, job(spec), cache);
+
+    const a = getViewportGridSpec(VIEW, ZOOM, 0);
+    const first = run(a);
+    const misses = cache.misses;
+    const b = getViewportGridSpec({ ...VIEW, west: VIEW.west + 0.013, east: VIEW.east + 0.013 }, ZOOM, 0);
+    const second = run(b);
+
+    expect(cache.size).toBeGreaterThan(0);
+    expect(cache.hits).toBeGreaterThan(0);
+    expect(cache.misses).toBe(misses);
+    expect(winnerGrid(second)).toEqual(winnerGrid(new DominanceSession().compute(job(b))));
+    expect(first.rows).toBe(second.rows);
+  });
+});
@@ -87,3 +87,12 @@ describe('buildWeightedVotes with drink votes', () => {
     expect(result[0].source).toBe('home');
   });
 });
+
+describe('buildWeightedVotes home timestamp', () => {
+  it('uses the last activity, not when the home was set', () => {
+    setMockTime(NOW);
+    const homeSetAt = NOW - 5 * 24 * HOUR_MS;
+    const [home] = buildWeightedVotes([makeUser({ homeSetAt, lastActiveAt: NOW })], [], [], new Map(), []);
+    expect(home.timestamp).toBe(NOW);
+  });
+});
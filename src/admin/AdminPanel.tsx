@@ -1,44 +1,64 @@
 import { useState } from 'react';
 import type { StorageInterface } from '../storage/StorageInterface';
+import { getActivePlayArea, PLAY_AREAS, setActivePlayArea } from '../domain/playAreas';
 import { SeedControls } from './SeedControls';
 import { TimeControls } from './TimeControls';
 import { DebugStats } from './DebugStats';
 import { ManualInjectPanel } from './ManualInjectPanel';
+import { ExportPanel } from './ExportPanel';
 import './AdminPanel.css';
 
 interface Props {
   store: StorageInterface;
 }
 
-type Tab = 'seed' | 'time' | 'stats' | 'inject';
+type Tab = 'seed' | 'time' | 'stats' | 'inject' | 'export';
 
 export function AdminPanel({ store }: Props) {
   const [tab, setTab] = useState<Tab>('stats');
+  const [areaId, setAreaId] = useState(() => getActivePlayArea().id);
+
+  const handleAreaChange = (id: string) => {
+    setActivePlayArea(id);
+    setAreaId(id);
+  };
 
   return (
     <div className="admin-panel">
       <header className="admin-header">
         <h1>Brew Country Admin</h1>
+        <select
+          className="admin-select"
+          value={areaId}
+          onChange={e => handleAreaChange(e.target.value)}
+          aria-label="Spielgebiet"
+        >
+          {PLAY_AREAS.map(a => (
+            <option key={a.id} value={a.id}>{a.name}</option>
+          ))}
+        </select>
         <a href="/" className="admin-back">Zur App</a>
       </header>
 
       <nav className="admin-tabs">
-        {(['stats', 'seed', 'time', 'inject'] as Tab[]).map(t => (
+        {(['stats', 'seed', 'time', 'inject', 'export'] as Tab[]).map(t => (
           <button
             key={t}
             className={`admin-tab ${tab === t ? 'active' : ''}`}
             onClick={() => setTab(t)}
           >
-            {t === 'stats' ? 'Stats' : t === 'seed' ? 'Seed' : t === 'time' ? 'Time' : 'Inject'}
+            {t === 'stats' ? 'Stats' : t === 'seed' ? 'Seed' : t === 'time' ? 'Time' : t === 'inject' ? 'Inject' : 'Export'}
           </button>
         ))}
       </nav>
 
-      <div className="admin-content">
+      {/* Remount on area change so panels pick up its beers and cities */}
+      <div className="admin-content" key={areaId}>
         {tab === 'stats' && <DebugStats store={store} />}
         {tab === 'seed' && <SeedControls store={store} />}
         {tab === 'time' && <TimeControls />}
         {tab === 'inject' && <ManualInjectPanel store={store} />}
+        {tab === 'export' && <ExportPanel store={store} />}
       </div>
     </div>
   );
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import type { StorageInterface } from '../storage/StorageInterface';
+import type { DominanceResult, DuelOutcome, WorkerInput, WorkerOutput } from '../domain/types';
+import { buildWeightedVotes } from '../domain/weights';
+import { buildTerritoryGeoJSON, downloadGeoJSON } from '../domain/geojsonExport';
+import { getDefaultBoundingBox } from '../domain/geo';
+import { getNow } from '../domain/clock';
+import { getActivePlayArea } from '../domain/playAreas';
+import { GAME } from '../config/constants';
+
+interface Props {
+  store: StorageInterface;
+}
+
+/**
+ * Computes territories for the whole active play area from the store and
+ * downloads them as GeoJSON — independent of any map viewport.
+ */
+export function ExportPanel({ store }: Props) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [msg, setMsg] = useState('');
+  const [error, setError] = useState('');
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+
+  // The worker runs its own band pool; never leave it behind
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  /** Run one compute job in a fresh worker, reporting progress */
+  const compute = (job: WorkerInput) => new Promise<DominanceResult>((resolve, reject) => {
+    const worker = new Worker(
+      new URL('../workers/dominanceWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<WorkerOutput>) => {
+      const out = e.data;
+      if (out.jobId !== job.jobId) return;
+      if (out.type === 'progress') setProgress(out.progress);
+      else if (out.type === 'result') resolve(out.data);
+      else if (out.type === 'skipped') reject(new Error('Berechnung abgebrochen'));
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      reject(new Error(e.message || 'Worker abgestürzt'));
+    };
+    worker.onmessageerror = () => reject(new Error('Worker-Nachricht unlesbar'));
+    worker.postMessage(job);
+  });
+
+  const handleExport = async () => {
+    setProgress(0);
+    setMsg('');
+    setError('');
+    const area = getActivePlayArea();
+
+    try {
+      const users = await store.getAllUsers();
+      const otr = await store.getAllOTRVotes();
+      const teams = await store.getAllTeams();
+      const drink = await store.getAllDrinkVotes();
+      const outcomes = new Map<string, DuelOutcome[]>();
+      for (const u of users) {
+        outcomes.set(u.id, await store.getDuelOutcomes(u.id));
+      }
+
+      const data = await compute({
+        type: 'compute',
+        jobId: ++jobIdRef.current,
+        votes: [],
+        weightedVotes: buildWeightedVotes(users, otr, teams, outcomes, drink, getNow(), area),
+        gridSpec: getDefaultBoundingBox(area),
+        radiusKm: GAME.HOME_RADIUS_KM,
+        kernels: GAME.INFLUENCE_KERNELS,
+        smoothingIterations: GAME.SMOOTHING_ITERATIONS,
+        mergeIslandSize: GAME.MERGE_ISLAND_SIZE,
+      });
+      const collection = buildTerritoryGeoJSON(data);
+      downloadGeoJSON(collection, `brewcountry-${area.id}-${getNow()}.geojson`);
+      setMsg(`${collection.features.length} Gebiete exportiert.`);
+    } catch (err) {
+      console.error('export error:', err);
+      setError(`Export fehlgeschlagen: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="admin-section">
+      <h3>GeoJSON Export (ganzes Spielgebiet {getActivePlayArea().name})</h3>
+
+      <div className="admin-row">
+        <button className="admin-btn" onClick={handleExport} disabled={progress !== null}>
+          {progress === null ? 'Gebiete exportieren' : `Berechne… ${Math.round(progress * 100)}%`}
+        </button>
+      </div>
+
+      {msg && <p className="admin-success">{msg}</p>}
+      {error && <p className="admin-warning">{error}</p>}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import type { StorageInterface } from '../storage/StorageInterface';
 import type { DrinkVote } from '../domain/types';
-import { BEERS } from '../domain/beers';
+import { getActivePlayArea } from '../domain/playAreas';
 import { getNow } from '../domain/clock';
 import { roundToPlaceKey } from '../domain/placeKey';
 import { GAME } from '../config/constants';
@@ -11,9 +11,9 @@ interface Props {
 }
 
 export function ManualInjectPanel({ store }: Props) {
-  const [lat, setLat] = useState('48.137');
-  const [lon, setLon] = useState('11.576');
-  const [beerId, setBeerId] = useState(BEERS[0]?.id ?? '');
+  const [lat, setLat] = useState(() => String(getActivePlayArea().center.lat));
+  const [lon, setLon] = useState(() => String(getActivePlayArea().center.lon));
+  const [beerId, setBeerId] = useState(() => getActivePlayArea().beers[0]?.id ?? '');
   const [userId, setUserId] = useState('');
   const [userIds, setUserIds] = useState<string[]>([]);
   const [msg, setMsg] = useState('');
@@ -73,7 +73,7 @@ export function ManualInjectPanel({ store }: Props) {
       <div className="admin-row">
         <label>Bier:</label>
         <select className="admin-select" value={beerId} onChange={e => setBeerId(e.target.value)}>
-          {BEERS.map(b => (
+          {getActivePlayArea().beers.map(b => (
             <option key={b.id} value={b.id}>{b.name}</option>
           ))}
         </select>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { getNow, setMockTime, advanceMockTime, resetClock, isMockActive } from '../domain/clock';
+import { getActivePlayArea } from '../domain/playAreas';
 
 const HOUR_MS = 60 * 60 * 1000;
 
@@ -37,7 +38,7 @@ export function TimeControls() {
     setMockActiveState(false);
   };
 
-  const formattedTime = new Date(currentTime).toLocaleString('de-DE');
+  const formattedTime = new Date(currentTime).toLocaleString(getActivePlayArea().locale);
 
   return (
     <div className="admin-section">
@@ -1,7 +1,8 @@
 import { useState, useCallback } from 'react';
-import type { User } from '../domain/types';
+import type { PlayArea, User } from '../domain/types';
 import { useAuth } from './AuthProvider';
-import { BEERS } from '../domain/beers';
+import { PLAY_AREAS } from '../domain/playAreas';
+import { playAreaAt } from '../domain/landMask';
 import { GAME } from '../config/constants';
 import { isFirebaseConfigured } from '../config/firebase';
 import { getFirebaseAuth } from '../config/firebaseAuth';
@@ -29,6 +30,7 @@ export function Onboarding() {
   const [step, setStep] = useState<OnboardingStep>('age');
   const [ageVerified, setAgeVerified] = useState(false);
   const [location, setLocation] = useState<{ lat: number; lon: number } | null>(null);
+  const [playArea, setPlayArea] = useState<PlayArea | null>(null);
   const [selectedBeerId, setSelectedBeerId] = useState<string>('augustiner');
   const [error, setError] = useState('');
   const [gpsLoading, setGpsLoading] = useState(false);
@@ -46,6 +48,24 @@ export function Onboarding() {
     setStep('location');
   };
 
+  /** Takes a home location if it lies in a play area and moves on to its beers */
+  const chooseLocation = useCallback((lat: number, lon: number): boolean => {
+    const area = playAreaAt(lat, lon);
+    if (!area) {
+      setError(
+        `Dieser Standort liegt außerhalb aller Spielgebiete ` +
+        `(${PLAY_AREAS.map((a) => a.name).join(', ')}).`
+      );
+      return false;
+    }
+    setLocation({ lat, lon });
+    setPlayArea(area);
+    setSelectedBeerId((id) => (area.beers.some((b) => b.id === id) ? id : area.beers[0].id));
+    setError('');
+    setStep('beer');
+    return true;
+  }, []);
+
   const handleGetLocation = useCallback(async () => {
     if (!navigator.geolocation) {
       setError('GPS wird von deinem Browser nicht unterstützt.');
@@ -115,10 +135,9 @@ export function Onboarding() {
       const avgLat = (s1.lat + s2.lat) / 2;
       const avgLon = (s1.lon + s2.lon) / 2;
 
-      setLocation({ lat: avgLat, lon: avgLon });
       setImpreciseCandidate(null);
       setGpsLoading(false);
-      setStep('beer');
+      chooseLocation(avgLat, avgLon);
     } catch (err) {
       setGpsLoading(false);
       setError(
@@ -126,14 +145,12 @@ export function Onboarding() {
         `Bitte Standortzugriff erlauben.`
       );
     }
-  }, []);
+  }, [chooseLocation]);
 
   const handleUseImpreciseLocation = useCallback(() => {
     if (!impreciseCandidate) return;
-    setLocation({ lat: impreciseCandidate.lat, lon: impreciseCandidate.lon });
-    setError('');
-    setStep('beer');
-  }, [impreciseCandidate]);
+    if (chooseLocation(impreciseCandidate.lat, impreciseCandidate.lon)) setImpreciseCandidate(null);
+  }, [impreciseCandidate, chooseLocation]);
 
   const handleConfirm = async () => {
     if (!location || !selectedBeerId) return;
@@ -150,6 +167,7 @@ export function Onboarding() {
       lastActiveAt: now,
       homeLat: location.lat,
       homeLon: location.lon,
+      homeSetAt: now,
       beerId: selectedBeerId,
       standYourGroundEnabled: false,
       ageVerified: true,
@@ -159,7 +177,7 @@ export function Onboarding() {
 
     // Also save public profile to Firestore so other users can see us on the map
     if (isFirebaseConfigured() && location) {
-      saveUserProfile(userId, selectedBeerId, location.lat, location.lon).catch((e) =>
+      saveUserProfile(userId, selectedBeerId, location.lat, location.lon, now).catch((e) =>
         console.error('Failed to save profile to Firestore:', e)
       );
     }
@@ -273,9 +291,7 @@ export function Onboarding() {
                           setError('Ungültige Koordinaten.');
                           return;
                         }
-                        setError('');
-                        setLocation({ lat, lon });
-                        setStep('beer');
+                        chooseLocation(lat, lon);
                       }}
                     >
                       Standort übernehmen
@@ -290,9 +306,11 @@ export function Onboarding() {
         {step === 'beer' && (
           <div className="onboarding-section">
             <h2>Dein Bier</h2>
-            <p className="auth-instruction">Welche Brauerei vertrittst du?</p>
+            <p className="auth-instruction">
+              Welche Brauerei vertrittst du? Spielgebiet: {playArea?.name}
+            </p>
             <div className="onboarding-beer-grid">
-              {BEERS.map((beer) => (
+              {playArea?.beers.map((beer) => (
                 <button
                   key={beer.id}
                   className={`onboarding-beer-item ${
@@ -324,7 +342,7 @@ export function Onboarding() {
               </p>
               <p>
                 <strong>Bier:</strong>{' '}
-                {BEERS.find((b) => b.id === selectedBeerId)?.name ?? '—'}
+                {playArea?.beers.find((b) => b.id === selectedBeerId)?.name ?? '—'}
               </p>
               <p>
                 <strong>Radius:</strong> {GAME.HOME_RADIUS_KM} km
@@ -1,6 +1,9 @@
 import { useState, useCallback } from 'react';
 import type { User } from '../domain/types';
 import { GAME } from '../config/constants';
+import { getNow } from '../domain/clock';
+import { PLAY_AREAS } from '../domain/playAreas';
+import { playAreaAt } from '../domain/landMask';
 import { isFirebaseConfigured } from '../config/firebase';
 import { saveUserProfile } from '../services/firestoreService';
 import './Auth.css';
@@ -33,6 +36,28 @@ export function ResetLocation({ user, onLocationSet }: Props) {
   const [saving, setSaving] = useState(false);
   const [impreciseCandidate, setImpreciseCandidate] = useState<ImpreciseLocationCandidate | null>(null);
 
+  /**
+   * Takes a new home only inside a play area whose catalog has the user's
+   * beer — switching areas would leave them with a beer nobody there plays.
+   */
+  const chooseLocation = useCallback((lat: number, lon: number): boolean => {
+    const area = playAreaAt(lat, lon);
+    if (!area) {
+      setError(
+        `Dieser Standort liegt außerhalb aller Spielgebiete ` +
+        `(${PLAY_AREAS.map((a) => a.name).join(', ')}).`
+      );
+      return false;
+    }
+    if (!area.beers.some((b) => b.id === user.beerId)) {
+      setError(`Dein Bier gibt es im Spielgebiet ${area.name} nicht.`);
+      return false;
+    }
+    setLocation({ lat, lon });
+    setError('');
+    return true;
+  }, [user.beerId]);
+
   const handleGetLocation = useCallback(async () => {
     if (!navigator.geolocation) {
       setError('GPS wird von deinem Browser nicht unterstützt.');
@@ -102,9 +127,9 @@ export function ResetLocation({ user, onLocationSet }: Props) {
       const avgLat = (s1.lat + s2.lat) / 2;
       const avgLon = (s1.lon + s2.lon) / 2;
 
-      setLocation({ lat: avgLat, lon: avgLon });
       setImpreciseCandidate(null);
       setGpsLoading(false);
+      chooseLocation(avgLat, avgLon);
     } catch (err) {
       setGpsLoading(false);
       setError(
@@ -112,13 +137,12 @@ export function ResetLocation({ user, onLocationSet }: Props) {
         `Bitte Standortzugriff erlauben.`
       );
     }
-  }, []);
+  }, [chooseLocation]);
 
   const handleUseImpreciseLocation = useCallback(() => {
     if (!impreciseCandidate) return;
-    setLocation({ lat: impreciseCandidate.lat, lon: impreciseCandidate.lon });
-    setError('');
-  }, [impreciseCandidate]);
+    chooseLocation(impreciseCandidate.lat, impreciseCandidate.lon);
+  }, [impreciseCandidate, chooseLocation]);
 
   const handleConfirm = useCallback(async () => {
     if (!location) return;
@@ -129,11 +153,12 @@ export function ResetLocation({ user, onLocationSet }: Props) {
         ...user,
         homeLat: location.lat,
         homeLon: location.lon,
+        homeSetAt: getNow(),
       };
 
       // Save to Firestore
       if (isFirebaseConfigured()) {
-        await saveUserProfile(user.id, user.beerId, location.lat, location.lon);
+        await saveUserProfile(user.id, user.beerId, location.lat, location.lon, updatedUser.homeSetAt);
       }
 
       onLocationSet(updatedUser);
@@ -5,7 +5,7 @@
 export const GAME = {
   // ── Grid (DACH region: ~1050 km N–S, ~850 km W–E) ────
   GRID_SIZE_KM: 1100,
-  CELL_SIZE_METERS: 2000,            // fallback for full-DACH grid
+  CELL_SIZE_METERS: 2000,            // fallback for full play-area grid
 
   // ── Zoom-adaptive grid ──────────────────────────────
   /** Zoom → cell size mapping (meters). Interpolated for in-between zooms. */
@@ -20,8 +20,24 @@ export const GAME = {
   VIEWPORT_BUFFER_KM: 25,
   /** Debounce ms for viewport/zoom changes before recomputing */
   VIEWPORT_DEBOUNCE_MS: 300,
+  /** Quiet ms after the last new grid before this user's influence is requested */
+  INFLUENCE_DEBOUNCE_MS: 1000,
   /** Maximum grid cells before auto-coarsening */
   MAX_GRID_CELLS: 80_000,
+  /** Up to this many changed weighted votes are sent to the worker as a delta */
+  DELTA_MAX_VOTES: 50,
+  /** Cells per dominance chunk (progress/cancel checkpoint, pool band size) */
+  DOMINANCE_CHUNK_CELLS: 4000,
+  /** Upper bound on parallel dominance band workers */
+  WORKER_POOL_MAX: 8,
+  /** Cells per edge of a lattice tile (the unit of the dominance cache) */
+  TILE_CELLS: 64,
+  /** Computed tiles kept in the worker's cache (each ~4k cells) */
+  TILE_CACHE_MAX: 256,
+  /** Spacing (degrees) of the fixed world lattice that anchors region ids */
+  REGION_LATTICE_DEG: 0.02,
+  /** Smaller patches changing owner between two results are not reported */
+  TERRITORY_MIN_CELLS: 3,
 
   // ── Home Vote ─────────────────────────────────────────
   HOME_RADIUS_KM: 20,
@@ -59,10 +75,24 @@ export const GAME = {
   DUEL_DELTA_MAX: 1.0,
   DUEL_LONG_THRESHOLD_HOURS: 24,
   DUEL_LONG_THRESHOLD_ROUNDS: 6,
+  RATING_START: 1000,                // Elo rating of new players and beers
+  RATING_K: 32,                      // max rating change per duel
 
   // ── Weight computation ────────────────────────────────
   WEIGHT_MIN: 0.2,
 
+  // ── Influence kernels (distance decay inside radiusKm) ─
+  // 'flat' | 'linear' | 'gaussian' | 'inverse-square' per vote source.
+  // Flat is the original full-weight disc; the others let borders move
+  // toward the weaker side instead of sitting on the circles' midpoint.
+  INFLUENCE_KERNELS: {
+    home: 'flat',
+    otr: 'flat',
+    drink: 'flat',
+  },
+  KERNEL_GAUSSIAN_SIGMA: 0.5,          // σ as fraction of radiusKm
+  KERNEL_INVERSE_SQUARE_SCALE: 0.25,   // half-weight distance as fraction of radiusKm
+
   // ── Display ───────────────────────────────────────────
   // Border is only "contested" (swords) when BOTH adjacent cells have
   // low margin AND significant total weight. This prevents the common case
@@ -73,6 +103,14 @@ export const GAME = {
   SMOOTHING_ITERATIONS: 3,          // more passes = smoother territory edges
   MERGE_ISLAND_SIZE: 10,
   BORDER_WIDTH: 2.5,
+  CONTOUR_SIMPLIFY_CELLS: 0.5,      // Douglas-Peucker tolerance for territory outlines; evens out one-cell steps
+  /** Cell shape of viewport grids; hex borders have no diagonal staircases */
+  GRID_SHAPE: 'square' as 'square' | 'hex',
+
+  // ── History / Time-lapse ──────────────────────────────
+  HISTORY_DAYS: 30,                  // snapshots are kept this long
+  SNAPSHOT_INTERVAL_HOURS: 6,
+  SNAPSHOT_CELL_SIZE_METERS: 8000,   // coarse whole-area grid (DACH ≈ 130 × 105 cells)
 
   // ── GPS ───────────────────────────────────────────────
   GPS_SAMPLE_COUNT: 2,
@@ -92,6 +130,8 @@ export const GAME = {
 
   // ── Photo / Duel TTL ──────────────────────────────────
   PHOTO_TTL_DAYS: 30,
+  PHOTO_MAX_EDGE_PX: 1280,           // longer edge after downscaling
+  PHOTO_JPEG_QUALITY: 0.8,
 
   // ── Friends & Chat ──────────────────────────────────────
   MAX_FRIENDS: 50,
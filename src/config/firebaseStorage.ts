@@ -0,0 +1,23 @@
+/**
+ * Lazy Firebase Storage singleton.
+ * Only initializes Firebase when isFirebaseConfigured() returns true.
+ */
+import { getApps, initializeApp } from 'firebase/app';
+import { getStorage, type FirebaseStorage } from 'firebase/storage';
+import { firebaseConfig, isFirebaseConfigured } from './firebase';
+
+let storage: FirebaseStorage | null = null;
+
+/**
+ * Returns a Firebase Storage instance. Throws if Firebase is not configured.
+ */
+export function getFirebaseStorage(): FirebaseStorage {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase is not configured — cannot use Firebase Storage');
+  }
+  if (!storage) {
+    const app = getApps().length > 0 ? getApps()[0] : initializeApp(firebaseConfig);
+    storage = getStorage(app);
+  }
+  return storage;
+}
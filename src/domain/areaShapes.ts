@@ -0,0 +1,119 @@
+import type { LonLat } from './types';
+
+/**
+ * Simplified land outlines of the play areas plus their major lakes, good to
+ * a few kilometers. Inside DACH, shared borders are stored once as arcs
+ * between tripoints and joined into the country rings, so neighbouring
+ * countries meet without gaps. Liechtenstein is split between AT and CH.
+ */
+
+const DE_OUTER: LonLat[] = [
+  [13.84, 48.77], [13.4, 49.1], [12.95, 49.35], [12.6, 49.55], [12.45, 49.95], [12.1, 50.3],
+  [12.5, 50.4], [13.0, 50.5], [13.5, 50.7], [14.0, 50.85], [14.3, 51.05], [14.82, 50.87],
+  [15.0, 51.1], [14.95, 51.45], [14.7, 51.6], [14.75, 52.0], [14.55, 52.3], [14.6, 52.6],
+  [14.15, 52.85], [14.4, 53.25], [14.27, 53.7], [14.22, 53.93], [13.8, 54.15], [13.7, 54.35],
+  [13.4, 54.68], [13.1, 54.55], [12.9, 54.43], [12.45, 54.47], [12.1, 54.2], [11.6, 54.12],
+  [11.45, 53.95], [11.0, 53.98], [10.85, 54.08], [11.05, 54.2], [11.2, 54.45], [10.9, 54.38],
+  [10.3, 54.45], [10.0, 54.7], [9.85, 54.83], [9.4, 54.83], [8.65, 54.91], [8.6, 54.55],
+  [8.85, 54.35], [8.85, 54.0], [8.65, 53.88], [8.5, 53.55], [8.1, 53.62], [7.5, 53.7],
+  [7.1, 53.7], [6.95, 53.35], [7.2, 53.2], [7.05, 52.65], [6.7, 52.48], [6.85, 52.25],
+  [6.7, 52.05], [6.1, 51.85], [5.95, 51.75], [6.2, 51.5], [6.05, 51.2], [5.9, 51.05],
+  [6.05, 50.75], [6.35, 50.45], [6.4, 50.3], [6.13, 50.13], [6.4, 49.8], [6.36, 49.47],
+  [6.7, 49.2], [7.05, 49.12], [7.45, 49.18], [8.2, 48.97], [7.95, 48.7], [7.8, 48.5],
+  [7.6, 48.2], [7.55, 47.9], [7.59, 47.59],
+];
+
+/** Basel → Lake Constance, along the Rhine and around Schaffhausen */
+const DE_CH: LonLat[] = [
+  [7.59, 47.59], [7.9, 47.55], [8.22, 47.61], [8.45, 47.57], [8.55, 47.8], [8.72, 47.75],
+  [8.85, 47.71], [8.87, 47.66], [9.0, 47.68], [9.18, 47.66], [9.4, 47.6], [9.62, 47.53],
+];
+
+/** Lake Constance → Dreiländereck with Czechia */
+const DE_AT: LonLat[] = [
+  [9.62, 47.53], [9.75, 47.56], [9.97, 47.55], [10.1, 47.37], [10.22, 47.27], [10.43, 47.4],
+  [10.47, 47.55], [10.7, 47.56], [10.98, 47.4], [11.26, 47.4], [11.6, 47.58], [12.0, 47.62],
+  [12.2, 47.6], [12.5, 47.67], [12.78, 47.67], [13.0, 47.47], [13.08, 47.65], [12.95, 47.85],
+  [12.87, 48.0], [12.76, 48.12], [13.03, 48.26], [13.44, 48.56], [13.84, 48.77],
+];
+
+const AT_OUTER: LonLat[] = [
+  [13.84, 48.77], [14.4, 48.6], [14.7, 48.58], [15.0, 49.0], [15.5, 48.95], [16.1, 48.75],
+  [16.94, 48.62], [16.85, 48.37], [17.16, 48.01], [17.1, 47.7], [16.75, 47.68], [16.45, 47.55],
+  [16.65, 47.45], [16.45, 47.0], [16.11, 46.87], [16.0, 46.68], [15.6, 46.7], [14.9, 46.6],
+  [14.55, 46.4], [13.71, 46.52], [13.0, 46.6], [12.45, 46.68], [12.15, 46.95], [11.6, 47.0],
+  [11.15, 46.95], [10.47, 46.86],
+];
+
+/** Reschenpass → Lake Constance, along the Rhine valley */
+const AT_CH: LonLat[] = [
+  [10.47, 46.86], [10.1, 46.85], [9.9, 46.98], [9.6, 47.05], [9.55, 47.27], [9.57, 47.45], [9.62, 47.53],
+];
+
+const CH_OUTER: LonLat[] = [
+  [10.47, 46.86], [10.45, 46.55], [10.15, 46.4], [10.05, 46.23], [9.55, 46.3], [9.3, 46.5],
+  [9.05, 46.0], [9.0, 45.82], [8.7, 46.1], [8.45, 46.3], [8.1, 46.15], [7.85, 45.92],
+  [7.04, 45.92], [6.8, 46.13], [6.82, 46.4], [6.25, 46.32], [6.15, 46.15], [5.96, 46.14],
+  [6.06, 46.42], [6.13, 46.6], [6.44, 46.93], [6.7, 47.04], [6.95, 47.26], [7.0, 47.45],
+  [7.2, 47.5], [7.45, 47.46], [7.59, 47.59],
+];
+
+/** Concatenate arcs that share their end points into one open ring */
+function joinArcs(...arcs: LonLat[][]): LonLat[] {
+  const ring: LonLat[] = [...arcs[0]];
+  for (const arc of arcs.slice(1)) ring.push(...arc.slice(1));
+  ring.pop(); // last point repeats the first
+  return ring;
+}
+
+export const DACH_COUNTRIES: { code: 'DE' | 'AT' | 'CH'; ring: LonLat[] }[] = [
+  { code: 'DE', ring: joinArcs(DE_OUTER, DE_CH, DE_AT) },
+  { code: 'AT', ring: joinArcs(AT_OUTER, AT_CH, [...DE_AT].reverse()) },
+  { code: 'CH', ring: joinArcs(CH_OUTER, DE_CH, [...AT_CH].reverse()) },
+];
+
+export const DACH_LAKES: { name: string; ring: LonLat[] }[] = [
+  {
+    name: 'Bodensee',
+    ring: [
+      [8.95, 47.66], [9.06, 47.82], [9.19, 47.72], [9.48, 47.65], [9.62, 47.6], [9.73, 47.53],
+      [9.63, 47.48], [9.5, 47.49], [9.27, 47.58], [9.18, 47.65], [9.07, 47.66], [8.95, 47.64],
+    ],
+  },
+  {
+    name: 'Genfersee',
+    ring: [
+      [6.15, 46.21], [6.24, 46.38], [6.5, 46.52], [6.67, 46.52], [6.93, 46.39], [6.82, 46.38],
+      [6.6, 46.4], [6.48, 46.38], [6.32, 46.3], [6.2, 46.22],
+    ],
+  },
+  { name: 'Neuenburgersee', ring: [[6.63, 46.78], [6.92, 47.0], [7.05, 46.98], [6.75, 46.74]] },
+  { name: 'Zürichsee', ring: [[8.54, 47.36], [8.6, 47.25], [8.85, 47.2], [8.98, 47.21], [8.82, 47.24], [8.62, 47.33]] },
+  { name: 'Vierwaldstättersee', ring: [[8.28, 47.03], [8.45, 47.05], [8.6, 46.98], [8.6, 46.9], [8.45, 46.97], [8.3, 46.98]] },
+  { name: 'Chiemsee', ring: [[12.38, 47.83], [12.42, 47.9], [12.55, 47.9], [12.55, 47.84], [12.47, 47.82]] },
+  { name: 'Ammersee', ring: [[11.1, 47.93], [11.12, 48.05], [11.18, 48.05], [11.2, 47.93]] },
+  { name: 'Starnberger See', ring: [[11.28, 47.85], [11.3, 47.99], [11.35, 47.99], [11.38, 47.85]] },
+  { name: 'Müritz', ring: [[12.6, 53.35], [12.65, 53.5], [12.8, 53.45], [12.75, 53.35]] },
+  { name: 'Attersee', ring: [[13.5, 47.8], [13.5, 47.98], [13.57, 47.98], [13.58, 47.8]] },
+  { name: 'Neusiedler See', ring: [[16.7, 47.73], [16.7, 47.95], [16.85, 47.95], [16.85, 47.73]] },
+];
+
+export const BELGIUM: LonLat[] = [
+  [2.55, 51.09], [3.37, 51.37], [3.9, 51.21], [4.25, 51.37], [4.8, 51.5], [5.1, 51.43],
+  [5.5, 51.29], [5.85, 51.15], [5.65, 50.82], [6.02, 50.75], [6.4, 50.32], [6.13, 50.13],
+  [5.82, 49.55], [5.43, 49.6], [4.85, 49.8], [4.86, 50.15], [4.2, 49.96], [4.15, 50.27],
+  [3.7, 50.3], [3.3, 50.5], [3.25, 50.7], [3.1, 50.78], [2.9, 50.72], [2.63, 50.82],
+];
+
+export const CZECHIA: LonLat[] = [
+  [12.1, 50.3], [12.5, 50.4], [13.0, 50.5], [13.5, 50.7], [14.0, 50.85], [14.3, 51.05],
+  [14.82, 50.87], [15.0, 51.0], [15.4, 50.8], [16.0, 50.65], [16.45, 50.57], [16.2, 50.4],
+  [16.65, 50.1], [17.0, 50.22], [16.9, 50.45], [17.7, 50.3], [18.0, 50.05], [18.6, 49.9],
+  [18.8, 49.5], [18.4, 49.3], [18.1, 49.05], [17.6, 48.85], [17.2, 48.85], [16.94, 48.62],
+  [16.1, 48.75], [15.5, 48.95], [15.0, 49.0], [14.7, 48.58], [14.4, 48.6], [13.84, 48.77],
+  [13.4, 49.1], [12.95, 49.35], [12.6, 49.55], [12.45, 49.95],
+];
+
+export const CZECH_LAKES: { name: string; ring: LonLat[] }[] = [
+  { name: 'Lipno', ring: [[13.9, 48.62], [14.05, 48.7], [14.25, 48.68], [14.3, 48.65], [14.1, 48.62], [13.95, 48.58]] },
+];
@@ -11,7 +11,15 @@ function generateSvgLogo(name: string, color: string): string {
   return `data:image/svg+xml,${encodeURIComponent(svg)}`;
 }
 
-export const BEERS: Beer[] = [
+function withLogos(beers: Omit<Beer, 'svgLogo'>[]): Beer[] {
+  return beers.map((b) => ({
+    ...b,
+    svgLogo: generateSvgLogo(b.name, b.color),
+  }));
+}
+
+/** DACH catalog, the default play area's beers */
+export const BEERS: Beer[] = withLogos([
   { id: 'augustiner',      name: 'Augustiner',       color: '#1B5E20' },
   { id: 'paulaner',         name: 'Paulaner',         color: '#0D47A1' },
   { id: 'hofbraeu',         name: 'Hofbr\u00E4u',     color: '#4A148C' },
@@ -22,9 +30,33 @@ export const BEERS: Beer[] = [
   { id: 'erdinger',         name: 'Erdinger',         color: '#F57F17' },
   { id: 'tegernseer',       name: 'Tegernseer',       color: '#33691E' },
   { id: 'schweiger',        name: 'Schweiger',        color: '#3E2723' },
-].map((b) => ({
-  ...b,
-  svgLogo: generateSvgLogo(b.name, b.color),
-}));
+]);
+
+export const BELGIAN_BEERS: Beer[] = withLogos([
+  { id: 'jupiler',          name: 'Jupiler',          color: '#C62828' },
+  { id: 'stella-artois',    name: 'Stella Artois',    color: '#B8860B' },
+  { id: 'duvel',            name: 'Duvel',            color: '#2E7D32' },
+  { id: 'leffe',            name: 'Leffe',            color: '#8D6E63' },
+  { id: 'chimay',           name: 'Chimay',           color: '#1565C0' },
+  { id: 'westmalle',        name: 'Westmalle',        color: '#4E342E' },
+  { id: 'hoegaarden',       name: 'Hoegaarden',       color: '#0288D1' },
+  { id: 'la-chouffe',       name: 'La Chouffe',       color: '#F9A825' },
+  { id: 'orval',            name: 'Orval',            color: '#00838F' },
+  { id: 'delirium',         name: 'Delirium',         color: '#EC407A' },
+]);
+
+export const CZECH_BEERS: Beer[] = withLogos([
+  { id: 'pilsner-urquell',  name: 'Pilsner Urquell',  color: '#2E7D32' },
+  { id: 'budvar',           name: 'Budweiser Budvar', color: '#C62828' },
+  { id: 'kozel',            name: 'Kozel',            color: '#5D4037' },
+  { id: 'staropramen',      name: 'Staropramen',      color: '#1565C0' },
+  { id: 'gambrinus',        name: 'Gambrinus',        color: '#F9A825' },
+  { id: 'bernard',          name: 'Bernard',          color: '#4E342E' },
+  { id: 'radegast',         name: 'Radegast',         color: '#6A1B9A' },
+  { id: 'krusovice',        name: 'Kru\u0161ovice',   color: '#EF6C00' },
+  { id: 'svijany',          name: 'Svijany',          color: '#00695C' },
+  { id: 'starobrno',        name: 'Starobrno',        color: '#AD1457' },
+]);
 
-export const BEER_MAP = new Map(BEERS.map((b) => [b.id, b]));
+/** Every beer of every play area, for lookups by id */
+export const BEER_MAP = new Map([...BEERS, ...BELGIAN_BEERS, ...CZECH_BEERS].map((b) => [b.id, b]));
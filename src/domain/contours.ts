@@ -0,0 +1,323 @@
+import type { DominanceResult, GridSpec, LonLat, PolygonRings, RegionShape } from './types';
+import { gridToLatLon } from './geo';
+import { extractRegionsWithLabels } from './regions';
+import { cellX, gridShape, HEX_CORNERS, HEX_EDGE_DIRECTIONS, type GridPoint } from './gridTopology';
+import { GAME } from '../config/constants';
+
+type Box = { minRow: number; maxRow: number; minCol: number; maxCol: number };
+
+/** Label of cells outside the grid; empty cells carry -1 */
+const OUTSIDE = -2;
+
+/**
+ * One traced boundary ring. Junctions are the vertices where three or more
+ * labels meet (or a saddle): the points both neighbours of a border agree
+ * on, so simplification keeps them.
+ */
+type TracedRing = { points: GridPoint[]; junction: boolean[] };
+
+/** Step from a boundary point to the next one, optionally via a junction */
+type Step = { to: number; junction: boolean; via?: GridPoint };
+
+/**
+ * Point on the given side of the marching square whose bottom-left sample is
+ * (i, j): 0 bottom, 1 right, 2 top, 3 left. The sides lie between the
+ * samples bl, br, tr, tl in this order, so side k follows sample k.
+ */
+function sidePoint(side: number, i: number, j: number): GridPoint {
+  switch (side) {
+    case 0: return [j + 0.5, i];
+    case 1: return [j + 1, i + 0.5];
+    case 2: return [j + 0.5, i + 1];
+    default: return [j, i + 0.5];
+  }
+}
+
+/**
+ * Closed boundary rings of the cells with `labels[idx] === label`, via
+ * marching squares over the cell centers. Ring points sit halfway between
+ * cell centers and run counter-clockwise so the region stays on the left.
+ * Squares with only two labels cut straight across; where three labels
+ * meet, or two only touch diagonally, every label's border runs through
+ * the square's center, so neighbours share it and diagonal cells stay
+ * apart like the 4-connected flood fill in extractRegions.
+ */
+function traceRings(
+  labels: Int32Array,
+  label: number,
+  rows: number,
+  cols: number,
+  box: Box,
+): TracedRing[] {
+  const labelAt = (r: number, c: number) =>
+    r >= 0 && r < rows && c >= 0 && c < cols ? labels[r * cols + c] : OUTSIDE;
+
+  // Side points have half-integer coordinates; key them on the doubled grid
+  const stride = 2 * (box.maxCol - box.minCol) + 8;
+  const keyOf = (p: GridPoint) =>
+    (2 * (p[1] - box.minRow) + 2) * stride + (2 * (p[0] - box.minCol) + 2);
+
+  const next = new Map<number, Step>();
+  const points = new Map<number, GridPoint>();
+  const samples = [0, 0, 0, 0];
+
+  for (let i = box.minRow - 1; i <= box.maxRow; i++) {
+    for (let j = box.minCol - 1; j <= box.maxCol; j++) {
+      samples[0] = labelAt(i, j);
+      samples[1] = labelAt(i, j + 1);
+      samples[2] = labelAt(i + 1, j + 1);
+      samples[3] = labelAt(i + 1, j);
+      let changes = 0;
+      for (let k = 0; k < 4; k++) if (samples[k] !== samples[(k + 1) % 4]) changes++;
+      const via: GridPoint | undefined = changes > 2 ? [j + 0.5, i + 0.5] : undefined;
+
+      // One border per run of the label's samples: from the side after the
+      // run to the side before it
+      for (let k = 0; k < 4; k++) {
+        if (samples[k] !== label || samples[(k + 1) % 4] === label) continue;
+        let first = k;
+        while (samples[(first + 3) % 4] === label) first = (first + 3) % 4;
+        const from = sidePoint(k, i, j);
+        const key = keyOf(from);
+        next.set(key, { to: keyOf(sidePoint((first + 3) % 4, i, j)), junction: false, via });
+        points.set(key, from);
+      }
+    }
+  }
+
+  return chainRings(next, points);
+}
+
+/**
+ * Closed hex boundary rings of the cells with `labels[idx] === label`: every
+ * cell edge facing another label, walked counter-clockwise around its cell
+ * so the region stays on the left. Each corner touches three cells, so a
+ * boundary corner has exactly one outgoing edge per region.
+ */
+function traceHexRings(
+  labels: Int32Array,
+  label: number,
+  rows: number,
+  cols: number,
+  box: Box,
+): TracedRing[] {
+  const labelAt = (r: number, c: number) =>
+    r >= 0 && r < rows && c >= 0 && c < cols ? labels[r * cols + c] : OUTSIDE;
+
+  // Corners sit on multiples of ½ in x and ⅓ in y
+  const stride = 2 * (box.maxCol - box.minCol) + 8;
+  const keyOf = (p: GridPoint) =>
+    Math.round(3 * (p[1] - box.minRow) + 3) * stride + Math.round(2 * (p[0] - box.minCol) + 2);
+
+  const next = new Map<number, Step>();
+  const points = new Map<number, GridPoint>();
+
+  for (let r = box.minRow; r <= box.maxRow; r++) {
+    for (let c = box.minCol; c <= box.maxCol; c++) {
+      if (labelAt(r, c) !== label) continue;
+      const x = cellX('hex', r, c);
+      const across = HEX_EDGE_DIRECTIONS.map(([dRow, dx]) =>
+        labelAt(r + dRow, x + dx - cellX('hex', r + dRow, 0)));
+      for (let k = 0; k < 6; k++) {
+        if (across[k] === label) continue;
+        // Corner k lies between edges k - 1 and k
+        const before = across[(k + 5) % 6];
+        const a = HEX_CORNERS[k];
+        const b = HEX_CORNERS[(k + 1) % 6];
+        const from: GridPoint = [x + a[0], r + a[1]];
+        const key = keyOf(from);
+        next.set(key, {
+          to: keyOf([x + b[0], r + b[1]]),
+          junction: before !== label && before !== across[k],
+        });
+        points.set(key, from);
+      }
+    }
+  }
+
+  return chainRings(next, points);
+}
+
+/** Follow `next` from every unvisited point until the ring closes. */
+function chainRings(next: Map<number, Step>, points: Map<number, GridPoint>): TracedRing[] {
+  const rings: TracedRing[] = [];
+  const used = new Set<number>();
+  for (const start of next.keys()) {
+    if (used.has(start)) continue;
+    const ring: TracedRing = { points: [], junction: [] };
+    let key = start;
+    while (!used.has(key)) {
+      used.add(key);
+      const step = next.get(key)!;
+      ring.points.push(points.get(key)!);
+      ring.junction.push(step.junction);
+      if (step.via) {
+        ring.points.push(step.via);
+        ring.junction.push(true);
+      }
+      key = step.to;
+    }
+    rings.push(ring);
+  }
+  return rings;
+}
+
+function signedArea(ring: GridPoint[]): number {
+  let sum = 0;
+  for (let k = 0; k < ring.length; k++) {
+    const [x0, y0] = ring[k];
+    const [x1, y1] = ring[(k + 1) % ring.length];
+    sum += x0 * y1 - x1 * y0;
+  }
+  return sum / 2;
+}
+
+function containsPoint(ring: GridPoint[], [x, y]: GridPoint): boolean {
+  let inside = false;
+  for (let k = 0, m = ring.length - 1; k < ring.length; m = k++) {
+    const [xk, yk] = ring[k];
+    const [xm, ym] = ring[m];
+    if ((yk > y) !== (ym > y) && x < ((xm - xk) * (y - yk)) / (ym - yk) + xk) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function segmentDistance(p: GridPoint, a: GridPoint, b: GridPoint): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  let t = len2 > 0 ? ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2 : 0;
+  t = Math.max(0, Math.min(1, t));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/** Douglas-Peucker on an open polyline; keeps both end points. */
+function simplifyLine(points: GridPoint[], tolerance: number): GridPoint[] {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let k = first + 1; k < last; k++) {
+      const d = segmentDistance(points[k], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = k;
+      }
+    }
+    if (index >= 0 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, k) => keep[k]);
+}
+
+function before(a: GridPoint, b: GridPoint): boolean {
+  return a[1] < b[1] || (a[1] === b[1] && a[0] < b[0]);
+}
+
+/**
+ * Simplify one border between two junctions. Both regions along it walk it
+ * in opposite directions, so it is simplified in a fixed direction (from the
+ * lower end point; closed loops counter-clockwise) to give both the same
+ * vertices.
+ */
+function simplifyBorder(border: GridPoint[], tolerance: number): GridPoint[] {
+  const first = border[0];
+  const last = border[border.length - 1];
+  const flip = before(last, first) || (last[0] === first[0] && last[1] === first[1] && signedArea(border) < 0);
+  if (!flip) return simplifyLine(border, tolerance);
+  return simplifyLine([...border].reverse(), tolerance).reverse();
+}
+
+/**
+ * Douglas-Peucker on a closed ring, border by border between its junctions
+ * so neighbouring regions keep identical shared borders. A ring without
+ * junctions (an island and the hole around it) starts at its lowest point.
+ * Rings that would collapse below a triangle are returned unsimplified.
+ */
+function simplifyRing({ points, junction }: TracedRing, tolerance: number): GridPoint[] {
+  let start = junction.indexOf(true);
+  if (start < 0) {
+    start = 0;
+    for (let k = 1; k < points.length; k++) if (before(points[k], points[start])) start = k;
+  }
+  const n = points.length;
+  const simplified: GridPoint[] = [];
+  let border: GridPoint[] = [points[start]];
+  for (let step = 1; step <= n; step++) {
+    const k = (start + step) % n;
+    border.push(points[k]);
+    if (junction[k] || step === n) {
+      simplified.push(...simplifyBorder(border, tolerance).slice(0, -1));
+      border = [points[k]];
+    }
+  }
+  return simplified.length >= 3 ? simplified : points;
+}
+
+function toLonLat(p: GridPoint, gs: GridSpec): LonLat {
+  const { lat, lon } = gridToLatLon(gs, p[0], p[1]);
+  return [lon, lat];
+}
+
+/**
+ * Trace every region of a (smoothed) DominanceResult into a simplified
+ * multipolygon with holes: marching squares over the cell centers (cell
+ * edges on hex grids) plus Douglas-Peucker per shared border, so
+ * neighbouring regions keep their common borders without gaps or overlaps.
+ */
+export function traceRegionShapes(
+  data: DominanceResult,
+  tolerance: number = GAME.CONTOUR_SIMPLIFY_CELLS,
+): RegionShape[] {
+  const { regions, labels } = extractRegionsWithLabels(data);
+  const gs = data.gridSpec;
+  const hex = gridShape(gs) === 'hex';
+
+  return regions.map((region, label) => {
+    const traced = hex
+      ? traceHexRings(labels, label, data.rows, data.cols, region.boundingBox)
+      : traceRings(labels, label, data.rows, data.cols, region.boundingBox);
+    const rings = traced
+      .map(t => simplifyRing(t, tolerance))
+      .map(ring => ({ ring, area: signedArea(ring) }));
+    const outers = rings.filter(r => r.area > 0).sort((a, b) => a.area - b.area);
+    const holes = rings.filter(r => r.area < 0);
+
+    // Each hole belongs to the smallest outer ring around it
+    const grouped = outers.map(o => ({ outer: o.ring, holes: [] as GridPoint[][] }));
+    for (const hole of holes) {
+      const owner = grouped.find(g => containsPoint(g.outer, hole.ring[0]));
+      owner?.holes.push(hole.ring);
+    }
+
+    let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+    const polygons: PolygonRings[] = grouped.map(g =>
+      [g.outer, ...g.holes].map(ring =>
+        ring.map(p => {
+          const ll = toLonLat(p, gs);
+          if (ll[1] < minLat) minLat = ll[1];
+          if (ll[1] > maxLat) maxLat = ll[1];
+          if (ll[0] < minLon) minLon = ll[0];
+          if (ll[0] > maxLon) maxLon = ll[0];
+          return ll;
+        })
+      )
+    );
+
+    return {
+      regionId: region.id,
+      beerId: region.beerId,
+      polygons,
+      bbox: { minLat, maxLat, minLon, maxLon },
+    };
+  });
+}
@@ -1,129 +1,167 @@
-import type { Vote, GridCell, CellResult, WeightedVote } from './types';
+import type { Vote, GridCell, CellResult, GridShape, WeightedVote, InfluenceKernel, InfluenceKernels } from './types';
 import { haversineDistanceKm } from './geo';
+import { edgeNeighbours, smoothingNeighbourhood } from './gridTopology';
+import { DEFAULT_KERNELS, kernelFactor } from './kernels';
+import { buildSpatialIndex, bucketAt, type IndexedPoint, type SpatialIndex } from './spatialIndex';
+
+export interface InfluenceEntry extends IndexedPoint {
+  beerId: string;
+  weight: number;
+  kernel: InfluenceKernel;
+  timestamp: number;
+}
+
+function emptyCellResult(cell: GridCell): CellResult {
+  return {
+    row: cell.row,
+    col: cell.col,
+    winnerBeerId: null,
+    winnerCount: 0,
+    totalCount: 0,
+    voteCounts: {},
+    runnerUpBeerId: null,
+    runnerUpCount: 0,
+    margin: 0,
+  };
+}
 
 /**
- * Compute dominance for a set of grid cells given votes and a radius.
- * Pure function, suitable for Web Worker execution.
- *
- * Supports both old-style flat votes (+1 each) and new weighted votes.
+ * Votes prepared for repeated per-cell lookups: one spatial index per vote
+ * set, shared by every chunk of cells computed against it.
  */
-export function computeDominance(
-  cells: GridCell[],
+export interface DominanceContext {
+  entries: InfluenceEntry[];
+  index: SpatialIndex;
+  radiusDegLat: number;
+  radiusDegLon: number;
+}
+
+/**
+ * Build the spatial index and prefilter ranges for a vote set.
+ * Flat votes (weight=1, default radius) come first, then weighted votes,
+ * in input order, so sums match a full cells × votes scan exactly.
+ * Weighted votes decay with the kernel of their source; flat votes never do.
+ */
+export function prepareDominance(
   votes: Vote[],
   radiusKm: number,
-  weightedVotes?: WeightedVote[]
-): CellResult[] {
-  const hasWeighted = weightedVotes && weightedVotes.length > 0;
-
-  if (votes.length === 0 && !hasWeighted) {
-    return cells.map((c) => ({
-      row: c.row,
-      col: c.col,
-      winnerBeerId: null,
-      winnerCount: 0,
-      totalCount: 0,
-      voteCounts: {},
-      runnerUpBeerId: null,
-      runnerUpCount: 0,
-      margin: 0,
-    }));
+  weightedVotes?: WeightedVote[],
+  kernels: InfluenceKernels = DEFAULT_KERNELS
+): DominanceContext {
+  const entries: InfluenceEntry[] = [];
+  for (const vote of votes) {
+    entries.push({ lat: vote.lat, lon: vote.lon, radiusKm, beerId: vote.beerId, weight: 1, kernel: 'flat', timestamp: vote.timestamp });
+  }
+  for (const wv of weightedVotes ?? []) {
+    entries.push({
+      lat: wv.lat, lon: wv.lon, radiusKm: wv.radiusKm,
+      beerId: wv.beerId, weight: wv.weight, kernel: kernels[wv.source], timestamp: wv.timestamp,
+    });
   }
 
-  // Precompute a rough bounding-box filter range in degrees
-  // For weighted votes, each may have its own radius, so use max
+  // Rough bounding-box filter range in degrees (max radius, 45° reference).
+  // Kept as-is so results stay identical to the original full scan.
   let maxRadius = radiusKm;
-  if (hasWeighted) {
-    for (const wv of weightedVotes!) {
-      if (wv.radiusKm > maxRadius) maxRadius = wv.radiusKm;
-    }
+  for (const wv of weightedVotes ?? []) {
+    if (wv.radiusKm > maxRadius) maxRadius = wv.radiusKm;
   }
-  const radiusDegLat = maxRadius / 111.32;
-  const radiusDegLon = maxRadius / (111.32 * Math.cos(45 * Math.PI / 180));
 
+  return {
+    entries,
+    index: buildSpatialIndex(entries),
+    radiusDegLat: maxRadius / 111.32,
+    radiusDegLon: maxRadius / (111.32 * Math.cos(45 * Math.PI / 180)),
+  };
+}
+
+/**
+ * Standing of beer A over beer B in one cell: more weight wins; exact ties
+ * go to the most recent activity, then to the smaller beer id, so every
+ * client picks the same winner whatever order its votes arrived in.
+ */
+function ranksAbove(
+  weightA: number, latestA: number, beerA: string,
+  weightB: number, latestB: number, beerB: string
+): boolean {
+  if (weightA !== weightB) return weightA > weightB;
+  if (latestA !== latestB) return latestA > latestB;
+  return beerA < beerB;
+}
+
+/**
+ * Compute dominance for a set of grid cells against a prepared vote set.
+ */
+export function computeDominanceCells(ctx: DominanceContext, cells: GridCell[]): CellResult[] {
+  if (ctx.entries.length === 0) {
+    return cells.map(emptyCellResult);
+  }
+
+  const { entries, index, radiusDegLat, radiusDegLon } = ctx;
+  const { offsets, items } = index;
   const results: CellResult[] = new Array(cells.length);
 
   for (let i = 0; i < cells.length; i++) {
     const cell = cells[i];
+    const bucket = cell.masked ? -1 : bucketAt(index, cell.centerLat, cell.centerLon);
+    if (bucket < 0) {
+      results[i] = emptyCellResult(cell);
+      continue;
+    }
+
     const weights = new Map<string, number>();
+    const latest = new Map<string, number>();
     let totalWeight = 0;
 
-    // Process flat votes (weight=1, default radius)
-    for (let v = 0; v < votes.length; v++) {
-      const vote = votes[v];
+    for (let k = offsets[bucket]; k < offsets[bucket + 1]; k++) {
+      const e = entries[items[k]];
 
       if (
-        Math.abs(vote.lat - cell.centerLat) > radiusDegLat ||
-        Math.abs(vote.lon - cell.centerLon) > radiusDegLon
+        Math.abs(e.lat - cell.centerLat) > radiusDegLat ||
+        Math.abs(e.lon - cell.centerLon) > radiusDegLon
       ) {
         continue;
       }
 
       const dist = haversineDistanceKm(
         cell.centerLat, cell.centerLon,
-        vote.lat, vote.lon
+        e.lat, e.lon
       );
 
-      if (dist <= radiusKm) {
-        const prev = weights.get(vote.beerId) ?? 0;
-        weights.set(vote.beerId, prev + 1);
-        totalWeight += 1;
-      }
-    }
-
-    // Process weighted votes (custom weight + radius) — additive
-    if (hasWeighted) {
-      for (let v = 0; v < weightedVotes!.length; v++) {
-        const wv = weightedVotes![v];
-
-        if (
-          Math.abs(wv.lat - cell.centerLat) > radiusDegLat ||
-          Math.abs(wv.lon - cell.centerLon) > radiusDegLon
-        ) {
-          continue;
-        }
-
-        const dist = haversineDistanceKm(
-          cell.centerLat, cell.centerLon,
-          wv.lat, wv.lon
-        );
-
-        if (dist <= wv.radiusKm) {
-          const prev = weights.get(wv.beerId) ?? 0;
-          weights.set(wv.beerId, prev + wv.weight);
-          totalWeight += wv.weight;
-        }
+      if (dist <= e.radiusKm) {
+        const w = e.weight * kernelFactor(e.kernel, dist, e.radiusKm);
+        if (w <= 0) continue;
+        const prev = weights.get(e.beerId) ?? 0;
+        weights.set(e.beerId, prev + w);
+        totalWeight += w;
+        if (e.timestamp > (latest.get(e.beerId) ?? -Infinity)) latest.set(e.beerId, e.timestamp);
       }
     }
 
     if (totalWeight === 0) {
-      results[i] = {
-        row: cell.row,
-        col: cell.col,
-        winnerBeerId: null,
-        winnerCount: 0,
-        totalCount: 0,
-        voteCounts: {},
-        runnerUpBeerId: null,
-        runnerUpCount: 0,
-        margin: 0,
-      };
+      results[i] = emptyCellResult(cell);
     } else {
       let winnerId: string | null = null;
       let winnerWeight = 0;
+      let winnerLatest = 0;
       let runnerUpId: string | null = null;
       let runnerUpWeight = 0;
+      let runnerUpLatest = 0;
 
       const voteCounts: Record<string, number> = {};
       for (const [beerId, w] of weights) {
         voteCounts[beerId] = w;
-        if (w > winnerWeight) {
+        const t = latest.get(beerId)!;
+        if (winnerId === null || ranksAbove(w, t, beerId, winnerWeight, winnerLatest, winnerId)) {
           runnerUpId = winnerId;
           runnerUpWeight = winnerWeight;
+          runnerUpLatest = winnerLatest;
           winnerId = beerId;
           winnerWeight = w;
-        } else if (w > runnerUpWeight) {
+          winnerLatest = t;
+        } else if (runnerUpId === null || ranksAbove(w, t, beerId, runnerUpWeight, runnerUpLatest, runnerUpId)) {
           runnerUpId = beerId;
           runnerUpWeight = w;
+          runnerUpLatest = t;
         }
       }
 
@@ -149,28 +187,59 @@ export function computeDominance(
 }
 
 /**
- * Morphological smoothing: replace each cell's winner with the majority winner
- * among its 8-connected neighbors (including itself). Reduces jagged borders.
+ * Compute dominance for a set of grid cells given votes and a radius.
+ * Pure function, suitable for Web Worker execution.
+ *
+ * Supports both old-style flat votes (+1 each) and new weighted votes.
+ * Candidate votes per cell come from a spatial index keyed by each vote's
+ * own radius instead of a scan over every vote.
  */
-export function smoothWinnerGrid(
-  cells: CellResult[],
-  rows: number,
-  cols: number,
-  iterations: number
-): void {
-  if (iterations <= 0) return;
+export function computeDominance(
+  cells: GridCell[],
+  votes: Vote[],
+  radiusKm: number,
+  weightedVotes?: WeightedVote[],
+  kernels?: InfluenceKernels
+): CellResult[] {
+  return computeDominanceCells(prepareDominance(votes, radiusKm, weightedVotes, kernels), cells);
+}
 
-  const grid: (string | null)[] = new Array(rows * cols).fill(null);
-  for (const cell of cells) {
-    grid[cell.row * cols + cell.col] = cell.winnerBeerId;
+/** Inclusive row/col range on a grid */
+export interface CellWindow {
+  r0: number;
+  r1: number;
+  c0: number;
+  c1: number;
+}
+
+/**
+ * Run `iterations` majority passes over one window of a winner grid.
+ * Cells outside the window count as empty. Returns the window's winners,
+ * row-major and window-local.
+ */
+function smoothWindow(
+  source: (string | null)[],
+  cols: number,
+  iterations: number,
+  win: CellWindow,
+  shape: GridShape
+): (string | null)[] {
+  const h = win.r1 - win.r0 + 1;
+  const w = win.c1 - win.c0 + 1;
+
+  let grid: (string | null)[] = new Array(h * w);
+  for (let r = 0; r < h; r++) {
+    for (let c = 0; c < w; c++) {
+      grid[r * w + c] = source[(win.r0 + r) * cols + win.c0 + c];
+    }
   }
 
-  const buf: (string | null)[] = new Array(rows * cols).fill(null);
+  let buf: (string | null)[] = new Array(h * w).fill(null);
 
   for (let iter = 0; iter < iterations; iter++) {
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        const idx = r * cols + c;
+    for (let r = 0; r < h; r++) {
+      for (let c = 0; c < w; c++) {
+        const idx = r * w + c;
         const current = grid[idx];
         if (current === null) {
           buf[idx] = null;
@@ -178,15 +247,14 @@ export function smoothWinnerGrid(
         }
 
         const neighborCounts = new Map<string, number>();
-        for (let dr = -1; dr <= 1; dr++) {
-          for (let dc = -1; dc <= 1; dc++) {
-            const nr = r + dr;
-            const nc = c + dc;
-            if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
-            const nBeer = grid[nr * cols + nc];
-            if (nBeer !== null) {
-              neighborCounts.set(nBeer, (neighborCounts.get(nBeer) ?? 0) + 1);
-            }
+        // Hex neighbours depend on the row's parity in the whole grid
+        for (const [dr, dc] of smoothingNeighbourhood(shape, win.r0 + r)) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if (nr < 0 || nr >= h || nc < 0 || nc >= w) continue;
+          const nBeer = grid[nr * w + nc];
+          if (nBeer !== null) {
+            neighborCounts.set(nBeer, (neighborCounts.get(nBeer) ?? 0) + 1);
           }
         }
 
@@ -202,13 +270,75 @@ export function smoothWinnerGrid(
       }
     }
 
-    for (let i = 0; i < grid.length; i++) {
-      grid[i] = buf[i];
-    }
+    const tmp = grid;
+    grid = buf;
+    buf = tmp;
   }
 
+  return grid;
+}
+
+/**
+ * Morphological smoothing: replace each cell's winner with the majority winner
+ * among its 8-connected neighbors (6 on hex grids, including itself).
+ * Reduces jagged borders.
+ */
+export function smoothWinnerGrid(
+  cells: CellResult[],
+  rows: number,
+  cols: number,
+  iterations: number,
+  shape: GridShape = 'square'
+): void {
+  if (iterations <= 0) return;
+
+  const grid: (string | null)[] = new Array(rows * cols).fill(null);
   for (const cell of cells) {
-    cell.winnerBeerId = grid[cell.row * cols + cell.col];
+    grid[cell.row * cols + cell.col] = cell.winnerBeerId;
+  }
+
+  const smoothed = smoothWindow(grid, cols, iterations, { r0: 0, r1: rows - 1, c0: 0, c1: cols - 1 }, shape);
+
+  for (const cell of cells) {
+    cell.winnerBeerId = smoothed[cell.row * cols + cell.col];
+  }
+}
+
+/**
+ * Re-smooth only the neighbourhood of `changed` after its raw winners moved.
+ *
+ * Each pass only looks one cell further, so cells within `iterations` of the
+ * change are recomputed from raw winners in a window padded by twice that.
+ * Everything further away is unaffected and keeps its value in `smoothed`.
+ * The outcome matches a full smoothWinnerGrid run over `raw`.
+ */
+export function resmoothWindow(
+  raw: (string | null)[],
+  smoothed: (string | null)[],
+  rows: number,
+  cols: number,
+  iterations: number,
+  changed: CellWindow,
+  shape: GridShape = 'square'
+): void {
+  const k = Math.max(0, iterations);
+  const outer: CellWindow = {
+    r0: Math.max(0, changed.r0 - 2 * k),
+    r1: Math.min(rows - 1, changed.r1 + 2 * k),
+    c0: Math.max(0, changed.c0 - 2 * k),
+    c1: Math.min(cols - 1, changed.c1 + 2 * k),
+  };
+  const local = smoothWindow(raw, cols, k, outer, shape);
+  const w = outer.c1 - outer.c0 + 1;
+
+  const r0 = Math.max(0, changed.r0 - k);
+  const r1 = Math.min(rows - 1, changed.r1 + k);
+  const c0 = Math.max(0, changed.c0 - k);
+  const c1 = Math.min(cols - 1, changed.c1 + k);
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) {
+      smoothed[r * cols + c] = local[(r - outer.r0) * w + (c - outer.c0)];
+    }
   }
 }
 
@@ -220,7 +350,8 @@ export function mergeSmallIslands(
   cells: CellResult[],
   rows: number,
   cols: number,
-  minSize: number
+  minSize: number,
+  shape: GridShape = 'square'
 ): void {
   if (minSize <= 1) return;
 
@@ -251,15 +382,12 @@ export function mergeSmallIslands(
         const cr = Math.floor(ci / cols);
         const cc = ci % cols;
 
-        const neighbors = [
-          cr > 0 ? (cr - 1) * cols + cc : -1,
-          cr < rows - 1 ? (cr + 1) * cols + cc : -1,
-          cc > 0 ? cr * cols + (cc - 1) : -1,
-          cc < cols - 1 ? cr * cols + (cc + 1) : -1,
-        ];
-
-        for (const ni of neighbors) {
-          if (ni < 0 || visited[ni]) continue;
+        for (const [dr, dc] of edgeNeighbours(shape, cr)) {
+          const nr = cr + dr;
+          const nc = cc + dc;
+          if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+          const ni = nr * cols + nc;
+          if (visited[ni]) continue;
           if (grid[ni] !== beerId) continue;
           visited[ni] = 1;
           queue.push(ni);
@@ -272,15 +400,11 @@ export function mergeSmallIslands(
       for (const ci of regionCells) {
         const cr = Math.floor(ci / cols);
         const cc = ci % cols;
-        const neighbors = [
-          cr > 0 ? (cr - 1) * cols + cc : -1,
-          cr < rows - 1 ? (cr + 1) * cols + cc : -1,
-          cc > 0 ? cr * cols + (cc - 1) : -1,
-          cc < cols - 1 ? cr * cols + (cc + 1) : -1,
-        ];
-        for (const ni of neighbors) {
-          if (ni < 0) continue;
-          const nb = grid[ni];
+        for (const [dr, dc] of edgeNeighbours(shape, cr)) {
+          const nr = cr + dr;
+          const nc = cc + dc;
+          if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+          const nb = grid[nr * cols + nc];
           if (nb !== null && nb !== beerId) {
             neighborBeerCounts.set(nb, (neighborBeerCounts.get(nb) ?? 0) + 1);
           }
@@ -0,0 +1,157 @@
+import type { CellColumns, CellResult, DominanceResult, GridSpec } from './types';
+
+/** Uint8 beer references: 0 is "none", so 255 beers fit */
+const MAX_BEERS = 255;
+
+/**
+ * Encode row-major CellResults as columns.
+ * Per-beer weights keep their insertion order.
+ */
+export function packCells(cells: CellResult[]): CellColumns {
+  const n = cells.length;
+  const beerIds: string[] = [];
+  const beerRef = new Map<string, number>();
+  const refOf = (beerId: string | null): number => {
+    if (beerId === null) return 0;
+    let ref = beerRef.get(beerId);
+    if (ref === undefined) {
+      if (beerIds.length === MAX_BEERS) {
+        throw new RangeError(`More than ${MAX_BEERS} beers in one dominance result`);
+      }
+      beerIds.push(beerId);
+      ref = beerIds.length;
+      beerRef.set(beerId, ref);
+    }
+    return ref;
+  };
+
+  let weightCount = 0;
+  for (const cell of cells) weightCount += Object.keys(cell.voteCounts).length;
+
+  const columns: CellColumns = {
+    beerIds,
+    winner: new Uint8Array(n),
+    runnerUp: new Uint8Array(n),
+    margin: new Float32Array(n),
+    totalWeight: new Float32Array(n),
+    weightOffsets: new Uint32Array(n + 1),
+    weightBeer: new Uint8Array(weightCount),
+    weightValue: new Float32Array(weightCount),
+  };
+
+  let w = 0;
+  for (let i = 0; i < n; i++) {
+    const cell = cells[i];
+    columns.winner[i] = refOf(cell.winnerBeerId);
+    columns.runnerUp[i] = refOf(cell.runnerUpBeerId);
+    columns.margin[i] = cell.margin;
+    columns.totalWeight[i] = cell.totalCount;
+    for (const beerId in cell.voteCounts) {
+      columns.weightBeer[w] = refOf(beerId);
+      columns.weightValue[w] = cell.voteCounts[beerId];
+      w++;
+    }
+    columns.weightOffsets[i + 1] = w;
+  }
+
+  return columns;
+}
+
+/** Beer id for a Uint8 reference (0 → null). */
+function beerOf(columns: CellColumns, ref: number): string | null {
+  return ref === 0 ? null : columns.beerIds[ref - 1];
+}
+
+/** Weight of one beer in cell i, 0 if it has none there. */
+function weightOf(columns: CellColumns, i: number, ref: number): number {
+  for (let w = columns.weightOffsets[i]; w < columns.weightOffsets[i + 1]; w++) {
+    if (columns.weightBeer[w] === ref) return columns.weightValue[w];
+  }
+  return 0;
+}
+
+function cellResult(columns: CellColumns, i: number, row: number, col: number): CellResult {
+  const winner = columns.winner[i];
+  const runnerUp = columns.runnerUp[i];
+  return {
+    row,
+    col,
+    winnerBeerId: beerOf(columns, winner),
+    winnerCount: winner === 0 ? 0 : weightOf(columns, i, winner),
+    totalCount: columns.totalWeight[i],
+    voteCounts: cellWeights(columns, i),
+    runnerUpBeerId: beerOf(columns, runnerUp),
+    runnerUpCount: runnerUp === 0 ? 0 : weightOf(columns, i, runnerUp),
+    margin: columns.margin[i],
+  };
+}
+
+/**
+ * Decode columns back into CellResults. The first cell sits at `firstRow`,
+ * column 0 of a grid with `cols` columns.
+ */
+export function unpackCells(columns: CellColumns, cols: number, firstRow = 0): CellResult[] {
+  const n = columns.winner.length;
+  const cells: CellResult[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    cells[i] = cellResult(columns, i, firstRow + Math.floor(i / cols), i % cols);
+  }
+  return cells;
+}
+
+/** Buffers to hand over in postMessage's transfer list. */
+export function columnTransferables(columns: CellColumns): ArrayBuffer[] {
+  return [
+    columns.winner, columns.runnerUp, columns.margin, columns.totalWeight,
+    columns.weightOffsets, columns.weightBeer, columns.weightValue,
+  ].map(a => a.buffer as ArrayBuffer);
+}
+
+export function toDominanceResult(
+  rows: number,
+  cols: number,
+  gridSpec: GridSpec,
+  cells: CellResult[],
+): DominanceResult {
+  return { rows, cols, gridSpec, ...packCells(cells) };
+}
+
+// ── Adapters ────────────────────────────────────────────
+
+/** Winning beer of cell i (row-major), null if nobody holds it. */
+export function winnerAt(data: CellColumns, i: number): string | null {
+  return beerOf(data, data.winner[i]);
+}
+
+/** Runner-up beer of cell i, null if there is none. */
+export function runnerUpAt(data: CellColumns, i: number): string | null {
+  return beerOf(data, data.runnerUp[i]);
+}
+
+/** Summed weight of one beer in cell i, 0 if it has none there. */
+export function beerWeightAt(data: CellColumns, i: number, beerId: string): number {
+  const ref = data.beerIds.indexOf(beerId) + 1;
+  return ref === 0 ? 0 : weightOf(data, i, ref);
+}
+
+/** Per-beer summed weights of cell i. */
+export function cellWeights(data: CellColumns, i: number): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (let w = data.weightOffsets[i]; w < data.weightOffsets[i + 1]; w++) {
+    weights[data.beerIds[data.weightBeer[w] - 1]] = data.weightValue[w];
+  }
+  return weights;
+}
+
+/** Winner grid as beer ids, e.g. for flood fills. */
+export function winnerGrid(data: DominanceResult): (string | null)[] {
+  const grid: (string | null)[] = new Array(data.rows * data.cols);
+  for (let i = 0; i < grid.length; i++) grid[i] = winnerAt(data, i);
+  return grid;
+}
+
+/** A single cell as a CellResult (popups, events), null if off-grid. */
+export function cellAt(data: DominanceResult, row: number, col: number): CellResult | null {
+  if (row < 0 || row >= data.rows || col < 0 || col >= data.cols) return null;
+  return cellResult(data, row * data.cols + col, row, col);
+}
@@ -0,0 +1,324 @@
+import type {
+  CellResult,
+  DominanceResult,
+  GridCell,
+  InfluenceResult,
+  WeightedVote,
+  WeightedVoteDelta,
+  WorkerInput,
+} from './types';
+import { cellAreaKm2, latLonToGrid, precomputeGrid } from './geo';
+import { gridShape } from './gridTopology';
+import {
+  computeDominanceCells,
+  mergeSmallIslands,
+  prepareDominance,
+  resmoothWindow,
+  type CellWindow,
+} from './dominance';
+import { influenceBounds } from './spatialIndex';
+import { packCells, toDominanceResult } from './dominanceColumns';
+import { planTiles, placeTile, type TileCache } from './tileCache';
+import { GAME } from '../config/constants';
+
+const CHUNK_CELLS = GAME.DOMINANCE_CHUNK_CELLS;
+
+/** Drive a step generator to completion without yielding control. */
+function runToEnd<T>(steps: Generator<number, T>): T {
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+}
+
+/** Rows per chunk/band so that each holds about CHUNK_CELLS cells. */
+export function bandRows(cols: number): number {
+  return Math.max(1, Math.ceil(CHUNK_CELLS / Math.max(1, cols)));
+}
+
+/**
+ * Stateful dominance computation, owned by the worker.
+ *
+ * Keeps the last grid, the raw per-cell weight maps and the smoothed winner
+ * grid, so a delta of a few weighted votes only recomputes the cells inside
+ * their radii and re-smooths around them instead of running a full pass.
+ */
+export class DominanceSession {
+  private input: WorkerInput | null = null;
+  private weightedVotes: WeightedVote[] = [];
+  private rows = 0;
+  private cols = 0;
+  private cells: GridCell[] = [];
+  /** Unsmoothed per-cell results (row-major), including per-beer weights */
+  private raw: CellResult[] = [];
+  /** Winner grid after smoothing, before island merging */
+  private smoothed: (string | null)[] = [];
+
+  /** Full recompute; replaces all kept state. */
+  compute(input: WorkerInput): DominanceResult {
+    return runToEnd(this.computeSteps(input));
+  }
+
+  /**
+   * Apply added/removed/changed weighted votes on top of the last result.
+   * Returns null when there is no previous computation to update.
+   */
+  applyDelta(delta: WeightedVoteDelta): DominanceResult | null {
+    return runToEnd(this.applyDeltaSteps(delta));
+  }
+
+  /**
+   * Full recompute in row chunks. Yields progress (0..1) after each chunk so
+   * the caller can report it and abandon the job; state is only replaced
+   * once every chunk is done. With a tile cache, lattice grids are computed
+   * tile by tile instead and only tiles missing from the cache cost anything.
+   */
+  *computeSteps(input: WorkerInput, cache?: TileCache): Generator<number, DominanceResult> {
+    const grid = precomputeGrid(input.gridSpec);
+    const { cells, cols } = grid;
+    const ctx = prepareDominance(input.votes, input.radiusKm, input.weightedVotes, input.kernels);
+
+    const plan = cache ? planTiles(input, grid, cache) : null;
+    if (cache && plan) {
+      for (let k = 0; k < plan.missing.length; k++) {
+        const tile = plan.missing[k];
+        const columns = packCells(computeDominanceCells(ctx, precomputeGrid(tile.gridSpec).cells));
+        cache.set(tile.key, columns);
+        placeTile(plan.raw, grid, tile.slot, columns);
+        yield (k + 1) / plan.missing.length;
+      }
+      return this.adopt(input, grid, plan.raw);
+    }
+
+    const raw: CellResult[] = new Array(cells.length);
+    const chunk = bandRows(cols) * Math.max(1, cols);
+    for (let start = 0; start < cells.length; start += chunk) {
+      const part = computeDominanceCells(ctx, cells.slice(start, start + chunk));
+      for (let k = 0; k < part.length; k++) raw[start + k] = part[k];
+      yield Math.min(1, (start + chunk) / cells.length);
+    }
+
+    return this.adopt(input, grid, raw);
+  }
+
+  /**
+   * Take over raw per-cell results of a full job that were computed
+   * elsewhere (e.g. in row bands by a worker pool), then smooth and merge
+   * islands on the combined grid.
+   */
+  adopt(
+    input: WorkerInput,
+    grid: { rows: number; cols: number; cells: GridCell[] },
+    raw: CellResult[],
+  ): DominanceResult {
+    const { rows, cols } = grid;
+    this.input = input;
+    this.weightedVotes = input.weightedVotes ?? [];
+    this.rows = rows;
+    this.cols = cols;
+    this.cells = grid.cells;
+    this.raw = raw;
+
+    const winners = raw.map(c => c.winnerBeerId);
+    this.smoothed = winners.slice();
+    if (rows > 0 && cols > 0) {
+      resmoothWindow(winners, this.smoothed, rows, cols, this.smoothingIterations(),
+        { r0: 0, r1: rows - 1, c0: 0, c1: cols - 1 }, gridShape(input.gridSpec));
+    }
+
+    return this.finish();
+  }
+
+  /** Delta update, chunked like computeSteps. */
+  *applyDeltaSteps(delta: WeightedVoteDelta): Generator<number, DominanceResult | null> {
+    const input = this.input;
+    if (!input) return null;
+
+    const removedIds = new Set(delta.removed);
+    const changedById = new Map(delta.changed.map(v => [v.id, v]));
+    const touched: WeightedVote[] = [];
+    const next: WeightedVote[] = [];
+
+    for (const wv of this.weightedVotes) {
+      const replacement = changedById.get(wv.id);
+      if (replacement) {
+        touched.push(wv, replacement);
+        next.push(replacement);
+        changedById.delete(wv.id);
+      } else if (removedIds.has(wv.id)) {
+        touched.push(wv);
+      } else {
+        next.push(wv);
+      }
+    }
+    // Changed votes we never saw are treated as additions
+    for (const wv of [...changedById.values(), ...delta.added]) {
+      touched.push(wv);
+      next.push(wv);
+    }
+
+    const prevMaxRadius = this.maxRadius(this.weightedVotes);
+    this.weightedVotes = next;
+    this.input = { ...input, weightedVotes: next };
+
+    if (touched.length === 0) return this.finish();
+
+    // computeDominance's prefilter depends on the largest radius in the set;
+    // if that moved, every cell may be affected.
+    if (this.maxRadius(next) !== prevMaxRadius) return yield* this.computeSteps(this.input);
+
+    const { rows, cols } = this;
+    const mark = new Uint8Array(rows * cols);
+    const windows: CellWindow[] = [];
+    const affectedIdx: number[] = [];
+
+    for (const wv of touched) {
+      const win = this.reach(wv);
+      if (!win) continue;
+      windows.push(win);
+      for (let r = win.r0; r <= win.r1; r++) {
+        for (let c = win.c0; c <= win.c1; c++) {
+          const idx = r * cols + c;
+          if (mark[idx]) continue;
+          mark[idx] = 1;
+          affectedIdx.push(idx);
+        }
+      }
+    }
+
+    if (affectedIdx.length === 0) return this.finish();
+
+    const ctx = prepareDominance(input.votes, input.radiusKm, next, input.kernels);
+    for (let start = 0; start < affectedIdx.length; start += CHUNK_CELLS) {
+      const idxs = affectedIdx.slice(start, start + CHUNK_CELLS);
+      const fresh = computeDominanceCells(ctx, idxs.map(i => this.cells[i]));
+      for (let k = 0; k < idxs.length; k++) {
+        this.raw[idxs[k]] = fresh[k];
+      }
+      yield Math.min(1, (start + CHUNK_CELLS) / affectedIdx.length);
+    }
+
+    const winners = this.raw.map(c => c.winnerBeerId);
+    for (const win of windows) {
+      resmoothWindow(winners, this.smoothed, rows, cols, this.smoothingIterations(), win, gridShape(input.gridSpec));
+    }
+
+    return this.finish();
+  }
+
+  /**
+   * Where one user's weighted votes matter on the last result: the cells
+   * whose final winner changes without them (recomputed inside their
+   * reach, re-smoothed, islands merged as usual) and the share of each
+   * winner's weight they add. Null before the first full computation.
+   */
+  influence(userId: string): InfluenceResult | null {
+    const input = this.input;
+    if (!input) return null;
+    const { rows, cols } = this;
+    const decisive = new Uint8Array(rows * cols);
+    const share = new Float32Array(rows * cols);
+    const result: InfluenceResult = {
+      userId, rows, cols, gridSpec: input.gridSpec, decisive, share, decisiveKm2: 0, backedKm2: 0, avgShare: 0,
+    };
+
+    const mine = this.weightedVotes.filter(wv => wv.userId === userId);
+    const others = this.weightedVotes.filter(wv => wv.userId !== userId);
+    const windows = mine.map(wv => this.reach(wv)).filter((w): w is CellWindow => w !== null);
+    if (windows.length === 0) return result;
+
+    const mark = new Uint8Array(rows * cols);
+    const affectedIdx: number[] = [];
+    for (const win of windows) {
+      for (let r = win.r0; r <= win.r1; r++) {
+        for (let c = win.c0; c <= win.c1; c++) {
+          const idx = r * cols + c;
+          if (mark[idx]) continue;
+          mark[idx] = 1;
+          affectedIdx.push(idx);
+        }
+      }
+    }
+
+    const ctx = prepareDominance(input.votes, input.radiusKm, others, input.kernels);
+    const fresh = computeDominanceCells(ctx, affectedIdx.map(i => this.cells[i]));
+    const rawWithout = this.raw.slice();
+    affectedIdx.forEach((idx, k) => { rawWithout[idx] = fresh[k]; });
+
+    const smoothedWithout = this.smoothed.slice();
+    const winnersWithout = rawWithout.map(c => c.winnerBeerId);
+    for (const win of windows) {
+      resmoothWindow(winnersWithout, smoothedWithout, rows, cols, this.smoothingIterations(), win, gridShape(input.gridSpec));
+    }
+
+    // Island merging reaches anywhere, so whole grids are compared
+    const withUser = this.finalCells(this.raw, this.smoothed);
+    const withoutUser = this.finalCells(rawWithout, smoothedWithout);
+    let shareSum = 0;
+    let backedCells = 0;
+    for (let i = 0; i < withUser.length; i++) {
+      const winner = withUser[i].winnerBeerId;
+      const area = cellAreaKm2(input.gridSpec, this.cells[i].centerLat);
+      if (winner !== withoutUser[i].winnerBeerId) {
+        decisive[i] = 1;
+        result.decisiveKm2 += area;
+      }
+      if (!mark[i] || winner === null) continue;
+      const total = this.raw[i].voteCounts[winner] ?? 0;
+      const added = total - (rawWithout[i].voteCounts[winner] ?? 0);
+      if (total <= 0 || added <= 1e-9) continue;
+      share[i] = Math.min(1, added / total);
+      result.backedKm2 += area;
+      shareSum += share[i];
+      backedCells++;
+    }
+    result.avgShare = backedCells > 0 ? shareSum / backedCells : 0;
+    return result;
+  }
+
+  private smoothingIterations(): number {
+    return this.input?.smoothingIterations ?? 2;
+  }
+
+  private maxRadius(weighted: WeightedVote[]): number {
+    let max = this.input?.radiusKm ?? 0;
+    for (const wv of weighted) {
+      if (wv.radiusKm > max) max = wv.radiusKm;
+    }
+    return max;
+  }
+
+  /** Rectangle of grid cells a vote's circle can reach, or null if off-grid. */
+  private reach(wv: WeightedVote): CellWindow | null {
+    const spec = this.input!.gridSpec;
+    const { rows, cols } = this;
+    if (rows === 0 || cols === 0) return null;
+
+    const b = influenceBounds(wv);
+    const sw = latLonToGrid(spec, b.minLat, b.minLon);
+    const ne = latLonToGrid(spec, b.maxLat, b.maxLon);
+    const r0 = Math.max(0, Math.floor(sw.y));
+    const r1 = Math.min(rows - 1, Math.ceil(ne.y));
+    if (r0 > r1) return null;
+
+    // Odd hex rows are shifted half a cell east
+    const slack = gridShape(spec) === 'hex' ? 1 : 0;
+    const c0 = Math.max(0, Math.floor(sw.x) - slack);
+    const c1 = Math.min(cols - 1, Math.ceil(ne.x) + slack);
+    if (c0 > c1) return null;
+
+    return { r0, r1, c0, c1 };
+  }
+
+  /** Raw cells with smoothed winners and small islands merged away */
+  private finalCells(raw: CellResult[], smoothed: (string | null)[]): CellResult[] {
+    const input = this.input!;
+    const cells = raw.map((c, i) => ({ ...c, winnerBeerId: smoothed[i] }));
+    mergeSmallIslands(cells, this.rows, this.cols, input.mergeIslandSize ?? 8, gridShape(input.gridSpec));
+    return cells;
+  }
+
+  private finish(): DominanceResult {
+    const input = this.input!;
+    return toDominanceResult(this.rows, this.cols, input.gridSpec, this.finalCells(this.raw, this.smoothed));
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Duel history, stats and Elo ratings. Ratings are stored as records and
+ * updated once per duel when it resolves (see rateRecords); rateDuels
+ * replays a list of duels in the order they ended.
+ */
+import type { Duel, DuelRatings, DuelStats, LadderRow, RatingEntry, RatingRecord } from './types';
+import { placeNameAt } from './gazetteer';
+import { GAME } from '../config/constants';
+
+/** Chance `rating` beats `opponent` */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + 10 ** ((opponent - rating) / 400));
+}
+
+/** Ratings after `winner` beat `loser` */
+export function eloUpdate(winner: number, loser: number, k: number = GAME.RATING_K): [number, number] {
+  const delta = k * (1 - expectedScore(winner, loser));
+  return [winner + delta, loser - delta];
+}
+
+type RatedDuel = Duel & { winnerId: string; loserId: string; resolvedAt: number };
+
+function isRated(duel: Duel): duel is RatedDuel {
+  return duel.winnerId !== null && duel.loserId !== null && duel.resolvedAt !== null;
+}
+
+/** Resolved duels with a winner, oldest first */
+export function ratedDuels(duels: Duel[]): RatedDuel[] {
+  return duels
+    .filter(isRated)
+    .sort((a, b) => (a.resolvedAt - b.resolvedAt) || a.id.localeCompare(b.id));
+}
+
+function entryOf(table: Map<string, RatingEntry>, id: string): RatingEntry {
+  let entry = table.get(id);
+  if (!entry) {
+    entry = { rating: GAME.RATING_START, wins: 0, losses: 0 };
+    table.set(id, entry);
+  }
+  return entry;
+}
+
+function rate(table: Map<string, RatingEntry>, winnerId: string, loserId: string): void {
+  const winner = entryOf(table, winnerId);
+  const loser = entryOf(table, loserId);
+  [winner.rating, loser.rating] = eloUpdate(winner.rating, loser.rating);
+  winner.wins++;
+  loser.losses++;
+}
+
+function emptyRatings(): DuelRatings {
+  return { users: new Map(), beers: new Map(), userBeers: new Map(), places: new Map() };
+}
+
+function placeRecord(ratings: DuelRatings, place: string, userId: string): { wins: number; losses: number } {
+  let rows = ratings.places.get(place);
+  if (!rows) {
+    rows = new Map();
+    ratings.places.set(place, rows);
+  }
+  let record = rows.get(userId);
+  if (!record) {
+    record = { wins: 0, losses: 0 };
+    rows.set(userId, record);
+  }
+  return record;
+}
+
+/** Apply one duel to `ratings` in place; duels without a winner change nothing */
+function applyDuel(ratings: DuelRatings, duel: Duel): void {
+  if (!isRated(duel)) return;
+  const winnerBeer = duel.winnerId === duel.challengerUserId ? duel.challengerBeerId : duel.defenderBeerId;
+  const loserBeer = winnerBeer === duel.challengerBeerId ? duel.defenderBeerId : duel.challengerBeerId;
+  rate(ratings.users, duel.winnerId, duel.loserId);
+  rate(ratings.beers, winnerBeer, loserBeer);
+  ratings.userBeers.set(duel.winnerId, winnerBeer);
+  ratings.userBeers.set(duel.loserId, loserBeer);
+  const place = placeNameAt(duel.regionLat, duel.regionLon);
+  if (place) {
+    placeRecord(ratings, place, duel.winnerId).wins++;
+    placeRecord(ratings, place, duel.loserId).losses++;
+  }
+}
+
+/** Replay every resolved duel; players and beers are rated separately */
+export function rateDuels(duels: Duel[]): DuelRatings {
+  const ratings = emptyRatings();
+  for (const duel of ratedDuels(duels)) applyDuel(ratings, duel);
+  return ratings;
+}
+
+// ── Stored records ────────────────────────────────────────
+
+function placeRecordId(place: string, userId: string): string {
+  // Place names may contain '/', which Firestore ids must not
+  return `place:${encodeURIComponent(place)}:${userId}`;
+}
+
+/** Ids of the records a duel updates; empty when it has no winner */
+export function ratingRecordIds(duel: Duel): string[] {
+  if (!isRated(duel)) return [];
+  const ids = [
+    `user:${duel.winnerId}`, `user:${duel.loserId}`,
+    `beer:${duel.challengerBeerId}`, `beer:${duel.defenderBeerId}`,
+  ];
+  const place = placeNameAt(duel.regionLat, duel.regionLon);
+  if (place) ids.push(placeRecordId(place, duel.winnerId), placeRecordId(place, duel.loserId));
+  // A mirror duel names the same beer twice
+  return [...new Set(ids)];
+}
+
+/** Ratings held by stored records */
+export function ratingsFromRecords(records: RatingRecord[]): DuelRatings {
+  const ratings = emptyRatings();
+  for (const r of records) {
+    const entry = { rating: r.rating, wins: r.wins, losses: r.losses };
+    if (r.kind === 'user') {
+      ratings.users.set(r.key, entry);
+      if (r.beerId) ratings.userBeers.set(r.key, r.beerId);
+    } else if (r.kind === 'beer') {
+      ratings.beers.set(r.key, entry);
+    } else if (r.place) {
+      const record = placeRecord(ratings, r.place, r.key);
+      record.wins = r.wins;
+      record.losses = r.losses;
+    }
+  }
+  return ratings;
+}
+
+function toRecords(ratings: DuelRatings): RatingRecord[] {
+  const records: RatingRecord[] = [];
+  for (const [key, e] of ratings.users) {
+    records.push({ id: `user:${key}`, kind: 'user', key, ...e, beerId: ratings.userBeers.get(key) });
+  }
+  for (const [key, e] of ratings.beers) {
+    records.push({ id: `beer:${key}`, kind: 'beer', key, ...e });
+  }
+  for (const [place, rows] of ratings.places) {
+    for (const [key, e] of rows) {
+      records.push({ id: placeRecordId(place, key), kind: 'place', key, place, rating: 0, ...e });
+    }
+  }
+  return records;
+}
+
+/**
+ * The records of `ratingRecordIds(duel)` after the duel: `current` holds
+ * those that already exist. Storage writes them back atomically, once per
+ * duel.
+ */
+export function rateRecords(current: RatingRecord[], duel: Duel): RatingRecord[] {
+  const ratings = ratingsFromRecords(current);
+  applyDuel(ratings, duel);
+  return toRecords(ratings);
+}
+
+/** Resolved duels of a user, newest first */
+export function duelHistory(duels: Duel[], userId: string): Duel[] {
+  return duels
+    .filter(d => (d.challengerUserId === userId || d.defenderUserId === userId) && d.resolvedAt !== null)
+    .sort((a, b) => (b.resolvedAt ?? 0) - (a.resolvedAt ?? 0));
+}
+
+export function duelStats(duels: Duel[], userId: string): DuelStats {
+  const stats: DuelStats = { wins: 0, losses: 0, timeouts: 0, longest: null };
+  for (const duel of duelHistory(duels, userId)) {
+    if (duel.winnerId === userId) stats.wins++;
+    if (duel.loserId === userId) stats.losses++;
+    if (duel.status === 'timeout') stats.timeouts++;
+    if (duel.acceptedAt === null || duel.resolvedAt === null) continue;
+    const durationMs = duel.resolvedAt - duel.acceptedAt;
+    if (!stats.longest || durationMs > stats.longest.durationMs) stats.longest = { duel, durationMs };
+  }
+  return stats;
+}
+
+function byRating(a: LadderRow, b: LadderRow): number {
+  return (b.rating - a.rating) || (b.wins - a.wins) || a.id.localeCompare(b.id);
+}
+
+/** Beers ranked by rating */
+export function beerLadder(ratings: DuelRatings): LadderRow[] {
+  return [...ratings.beers].map(([id, e]) => ({ id, ...e })).sort(byRating);
+}
+
+/** Players who last fought for `beerId`, ranked by rating */
+export function playerLadder(ratings: DuelRatings, beerId: string): LadderRow[] {
+  const rows: LadderRow[] = [];
+  for (const [id, e] of ratings.users) {
+    if (ratings.userBeers.get(id) === beerId) rows.push({ id, ...e });
+  }
+  return rows.sort(byRating);
+}
+
+/**
+ * One ladder per place duels were fought over (gazetteer name of the duel
+ * region): the players there, ranked by rating, with their record in that
+ * place. Duels far from any place are left out.
+ */
+export function regionLadders(ratings: DuelRatings): Map<string, LadderRow[]> {
+  const ladders = new Map<string, LadderRow[]>();
+  for (const [place, records] of [...ratings.places].sort((a, b) => a[0].localeCompare(b[0]))) {
+    const rows = [...records].map(([id, r]) => ({
+      id, rating: ratings.users.get(id)?.rating ?? GAME.RATING_START, ...r,
+    }));
+    ladders.set(place, rows.sort(byRating));
+  }
+  return ladders;
+}
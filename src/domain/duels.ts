@@ -0,0 +1,272 @@
+/**
+ * Duel state machine. All transitions are pure and take the current time.
+ *
+ * 1. A challenge counts as the challenger's move; the defender has
+ *    DUEL_ACCEPT_TIMEOUT_HOURS to accept or decline, otherwise it times out
+ *    without a winner.
+ * 2. Accepting counts as the defender's move. From then on the players take
+ *    turns playing rounds, challenger first; each has
+ *    DUEL_ROUND_TIMEOUT_HOURS from the other's last move.
+ * 3. Missing a turn loses by timeout; conceding loses outright.
+ */
+import type { Duel, DuelOutcome, Region, User } from './types';
+import { getNow } from './clock';
+import { haversineDistanceKm } from './geo';
+import { GAME } from '../config/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type DuelErrorCode =
+  | 'self'
+  | 'same_beer'
+  | 'active_cap'
+  | 'defender_cap'
+  | 'duplicate'
+  | 'not_participant'
+  | 'not_your_turn'
+  | 'wrong_status'
+  | 'expired';
+
+/** A transition either yields the updated duel (plus outcomes once it is resolved) or says why not */
+export type DuelStep =
+  | { ok: true; duel: Duel; outcomes: DuelOutcome[] }
+  | { ok: false; error: string; errorCode: DuelErrorCode };
+
+type Player = Pick<User, 'id' | 'beerId'>;
+
+/** A player someone could challenge over a region, located by their home */
+export type Rival = Pick<User, 'id' | 'beerId' | 'homeLat' | 'homeLon'>;
+
+function fail(errorCode: DuelErrorCode, error: string): DuelStep {
+  return { ok: false, error, errorCode };
+}
+
+/** Open duels are pending or active and not past their deadline */
+export function isDuelOpen(duel: Duel, now: number = getNow()): boolean {
+  return (duel.status === 'pending' || duel.status === 'active') && now < duelDeadline(duel);
+}
+
+/** When the current wait runs out: acceptance for pending duels, the next round for active ones */
+export function duelDeadline(duel: Duel): number {
+  if (duel.status === 'pending') return duel.createdAt + GAME.DUEL_ACCEPT_TIMEOUT_HOURS * HOUR_MS;
+  if (duel.status === 'active') return duel.lastActionAt + GAME.DUEL_ROUND_TIMEOUT_HOURS * HOUR_MS;
+  return duel.resolvedAt ?? duel.lastActionAt;
+}
+
+/** The player the duel is waiting for, null once it is resolved */
+export function duelTurn(duel: Duel): string | null {
+  if (duel.status !== 'pending' && duel.status !== 'active') return null;
+  return duel.lastActionByUserId === duel.challengerUserId ? duel.defenderUserId : duel.challengerUserId;
+}
+
+export function opponentOf(duel: Duel, userId: string): string {
+  return duel.challengerUserId === userId ? duel.defenderUserId : duel.challengerUserId;
+}
+
+function isParticipant(duel: Duel, userId: string): boolean {
+  return duel.challengerUserId === userId || duel.defenderUserId === userId;
+}
+
+export function countOpenDuels(duels: Duel[], userId: string, now: number = getNow()): number {
+  return duels.filter(d => isParticipant(d, userId) && isDuelOpen(d, now)).length;
+}
+
+/**
+ * Validate a challenge. Checks:
+ * 1. No duel against yourself
+ * 2. Different beers only
+ * 3. Neither player has DUEL_MAX_ACTIVE open duels
+ * 4. No second open duel between the same two players
+ * Pass every duel of both players (duplicates are fine).
+ */
+export function validateChallenge(
+  challenger: Player,
+  defender: Player,
+  duels: Duel[],
+  now: number = getNow()
+): { ok: true } | { ok: false; error: string; errorCode: DuelErrorCode } {
+  if (challenger.id === defender.id) {
+    return { ok: false, error: 'Du kannst dich nicht selbst herausfordern.', errorCode: 'self' };
+  }
+  if (challenger.beerId === defender.beerId) {
+    return { ok: false, error: 'Gleiches Bier: Duelle gibt es nur zwischen Rivalen.', errorCode: 'same_beer' };
+  }
+  if (countOpenDuels(duels, challenger.id, now) >= GAME.DUEL_MAX_ACTIVE) {
+    return {
+      ok: false,
+      error: `Du hast schon ${GAME.DUEL_MAX_ACTIVE} offene Duelle.`,
+      errorCode: 'active_cap',
+    };
+  }
+  if (countOpenDuels(duels, defender.id, now) >= GAME.DUEL_MAX_ACTIVE) {
+    return { ok: false, error: 'Dein Gegner hat keine freien Duelle mehr.', errorCode: 'defender_cap' };
+  }
+  const between = duels.find(d => isParticipant(d, challenger.id) && isParticipant(d, defender.id) && isDuelOpen(d, now));
+  if (between) {
+    return { ok: false, error: 'Ihr duelliert euch bereits.', errorCode: 'duplicate' };
+  }
+  return { ok: true };
+}
+
+/** New pending duel over the region at `lat`/`lon` */
+export function createDuel(
+  challenger: Player,
+  defender: Player,
+  region: { lat: number; lon: number },
+  duels: Duel[],
+  now: number = getNow()
+): DuelStep {
+  const check = validateChallenge(challenger, defender, duels, now);
+  if (!check.ok) return check;
+  return {
+    ok: true,
+    outcomes: [],
+    duel: {
+      id: `duel_${challenger.id}_${now}`,
+      challengerUserId: challenger.id,
+      defenderUserId: defender.id,
+      challengerBeerId: challenger.beerId,
+      defenderBeerId: defender.beerId,
+      status: 'pending',
+      createdAt: now,
+      acceptedAt: null,
+      resolvedAt: null,
+      winnerId: null,
+      loserId: null,
+      roundCount: 0,
+      lastActionAt: now,
+      lastActionByUserId: challenger.id,
+      regionLat: region.lat,
+      regionLon: region.lon,
+    },
+  };
+}
+
+/**
+ * Beer to duel over a contested region: the runner-up, or the holder when
+ * the challenger's own beer is the runner-up. Null without a runner-up.
+ */
+export function rivalBeerOf(region: Pick<Region, 'beerId' | 'runnerUpBeerId'>, beerId: string): string | null {
+  if (!region.runnerUpBeerId) return null;
+  return region.runnerUpBeerId === beerId ? region.beerId : region.runnerUpBeerId;
+}
+
+/**
+ * Closest player of the region's rival beer whose home vote reaches the
+ * region centroid (HOME_RADIUS_KM), or null when there is none.
+ */
+export function nearestRival(
+  challenger: Player,
+  region: Pick<Region, 'beerId' | 'runnerUpBeerId' | 'centroidLat' | 'centroidLon'>,
+  candidates: Rival[],
+): Rival | null {
+  const beerId = rivalBeerOf(region, challenger.beerId);
+  if (!beerId || beerId === challenger.beerId) return null;
+  let best: Rival | null = null;
+  let bestKm: number = GAME.HOME_RADIUS_KM;
+  for (const c of candidates) {
+    if (c.id === challenger.id || c.beerId !== beerId) continue;
+    const km = haversineDistanceKm(region.centroidLat, region.centroidLon, c.homeLat, c.homeLon);
+    if (km <= bestKm) {
+      best = c;
+      bestKm = km;
+    }
+  }
+  return best;
+}
+
+/** Common checks for a move by `userId`; null when it may go ahead */
+function checkMove(duel: Duel, userId: string, status: Duel['status'], now: number): DuelStep | null {
+  if (!isParticipant(duel, userId)) return fail('not_participant', 'Du bist nicht Teil dieses Duells.');
+  if (duel.status !== status) return fail('wrong_status', 'Das geht in diesem Duell gerade nicht.');
+  if (now >= duelDeadline(duel)) return fail('expired', 'Die Zeit ist abgelaufen.');
+  return null;
+}
+
+export function acceptDuel(duel: Duel, userId: string, now: number = getNow()): DuelStep {
+  const blocked = checkMove(duel, userId, 'pending', now);
+  if (blocked) return blocked;
+  if (userId !== duel.defenderUserId) return fail('not_your_turn', 'Nur der Herausgeforderte kann annehmen.');
+  return {
+    ok: true,
+    outcomes: [],
+    duel: { ...duel, status: 'active', acceptedAt: now, lastActionAt: now, lastActionByUserId: userId },
+  };
+}
+
+export function declineDuel(duel: Duel, userId: string, now: number = getNow()): DuelStep {
+  const blocked = checkMove(duel, userId, 'pending', now);
+  if (blocked) return blocked;
+  if (userId !== duel.defenderUserId) return fail('not_your_turn', 'Nur der Herausgeforderte kann ablehnen.');
+  return { ok: true, outcomes: [], duel: { ...duel, status: 'declined', resolvedAt: now } };
+}
+
+/** Play the next round; only the player whose turn it is may */
+export function playRound(duel: Duel, userId: string, now: number = getNow()): DuelStep {
+  const blocked = checkMove(duel, userId, 'active', now);
+  if (blocked) return blocked;
+  if (duelTurn(duel) !== userId) return fail('not_your_turn', 'Dein Gegner ist am Zug.');
+  return {
+    ok: true,
+    outcomes: [],
+    duel: { ...duel, roundCount: duel.roundCount + 1, lastActionAt: now, lastActionByUserId: userId },
+  };
+}
+
+/** Give up an active duel; the opponent wins */
+export function concedeDuel(duel: Duel, userId: string, now: number = getNow()): DuelStep {
+  const blocked = checkMove(duel, userId, 'active', now);
+  if (blocked) return blocked;
+  return resolve(duel, 'completed', opponentOf(duel, userId), now);
+}
+
+/**
+ * Apply a deadline that has passed: pending duels time out without a
+ * winner, active ones are lost by the player whose turn it was. The duel is
+ * resolved at its deadline, not at `now`. Null when nothing is due.
+ */
+export function applyTimeout(duel: Duel, now: number = getNow()): { duel: Duel; outcomes: DuelOutcome[] } | null {
+  if (duel.status !== 'pending' && duel.status !== 'active') return null;
+  const deadline = duelDeadline(duel);
+  if (now < deadline) return null;
+  if (duel.status === 'pending') {
+    return { duel: { ...duel, status: 'timeout', resolvedAt: deadline }, outcomes: [] };
+  }
+  const step = resolve(duel, 'timeout', duel.lastActionByUserId ?? duel.defenderUserId, deadline);
+  return step.ok ? { duel: step.duel, outcomes: step.outcomes } : null;
+}
+
+/** Lasted DUEL_LONG_THRESHOLD_HOURS since acceptance or DUEL_LONG_THRESHOLD_ROUNDS rounds */
+export function isLongDuel(duel: Duel, at: number): boolean {
+  const started = duel.acceptedAt ?? duel.createdAt;
+  return at - started >= GAME.DUEL_LONG_THRESHOLD_HOURS * HOUR_MS || duel.roundCount >= GAME.DUEL_LONG_THRESHOLD_ROUNDS;
+}
+
+/**
+ * Weight deltas of a resolved active duel, valid DUEL_RESULT_DURATION_DAYS:
+ * the winner gets DUEL_WIN_BOOST (DUEL_TIMEOUT_BOOST when the opponent
+ * timed out) plus DUEL_LONG_WIN_BONUS for a long duel, at most
+ * DUEL_LONG_WIN_TOTAL; the loser gets DUEL_LOSS_PENALTY.
+ */
+export function duelOutcomes(duel: Duel): DuelOutcome[] {
+  if (!duel.winnerId || !duel.loserId || duel.resolvedAt === null) return [];
+  const base = duel.status === 'timeout' ? GAME.DUEL_TIMEOUT_BOOST : GAME.DUEL_WIN_BOOST;
+  const bonus = isLongDuel(duel, duel.resolvedAt) ? GAME.DUEL_LONG_WIN_BONUS : 0;
+  const expiresAt = duel.resolvedAt + GAME.DUEL_RESULT_DURATION_DAYS * DAY_MS;
+  return [
+    { duelId: duel.id, userId: duel.winnerId, delta: Math.min(GAME.DUEL_LONG_WIN_TOTAL, base + bonus), expiresAt },
+    { duelId: duel.id, userId: duel.loserId, delta: GAME.DUEL_LOSS_PENALTY, expiresAt },
+  ];
+}
+
+function resolve(duel: Duel, status: 'completed' | 'timeout', winnerId: string, at: number): DuelStep {
+  const resolved: Duel = {
+    ...duel,
+    status,
+    resolvedAt: at,
+    winnerId,
+    loserId: opponentOf(duel, winnerId),
+  };
+  return { ok: true, duel: resolved, outcomes: duelOutcomes(resolved) };
+}
@@ -1,4 +1,4 @@
-import type { DominanceResult, Region, Vote, ViewportBounds, FeedItem } from './types';
+import type { DominanceResult, Region, RegionGraph, TerritoryChange, Vote, ViewportBounds, FeedItem } from './types';
 import { BEER_MAP } from './beers';
 
 /**
@@ -9,54 +9,121 @@ export function computeFeedItems(
   dominanceData: DominanceResult | null,
   regions: Region[],
   votes: Vote[],
-  viewport: ViewportBounds | null
+  viewport: ViewportBounds | null,
+  graph: RegionGraph | null = null,
+  changes: TerritoryChange[] = []
 ): FeedItem[] {
   if (!dominanceData || regions.length === 0) return [];
 
   const items: FeedItem[] = [];
 
-  // ── Battlefront: top 3 lowest-margin regions in viewport ──
-  const viewportRegions = viewport
-    ? regions.filter((r) =>
-        r.centroidLat >= viewport.south &&
-        r.centroidLat <= viewport.north &&
-        r.centroidLon >= viewport.west &&
-        r.centroidLon <= viewport.east
-      )
-    : regions;
+  const inViewport = (lat: number, lon: number) =>
+    !viewport ||
+    (lat >= viewport.south && lat <= viewport.north && lon >= viewport.west && lon <= viewport.east);
+  const viewportRegions = regions.filter((r) => inViewport(r.centroidLat, r.centroidLon));
 
-  const contested = viewportRegions
-    .filter((r) => r.runnerUpBeerId && r.avgMargin < 0.5)
-    .sort((a, b) => a.avgMargin - b.avgMargin)
-    .slice(0, 3);
+  if (graph) {
+    // ── Battlefront: top 3 most contested frontlines in viewport ──
+    const fronts = graph.fronts
+      .filter((f) => f.avgMargin < 0.5 && inViewport(f.lat, f.lon))
+      .slice(0, 3);
 
-  for (const region of contested) {
-    const beer = BEER_MAP.get(region.beerId);
-    const runner = region.runnerUpBeerId ? BEER_MAP.get(region.runnerUpBeerId) : null;
-    if (!beer) continue;
-    const marginPct = Math.round(region.avgMargin * 100);
+    for (const front of fronts) {
+      const [a, b] = front.beerIds.map((id) => BEER_MAP.get(id));
+      if (!a || !b) continue;
+      const marginPct = Math.round(front.avgMargin * 100);
+      const contested = front.contestedKm > 0;
+      const km = contested ? front.contestedKm : front.borderKm;
+      const where = front.placeName ? ` bei ${front.placeName}` : '';
+
+      items.push({
+        id: `battle-${front.id}`,
+        type: 'battlefront',
+        title: `${a.name} vs ${b.name}`,
+        subtitle: `${km.toFixed(1)} km ${contested ? 'umkämpfte ' : ''}Front${where} \u2022 ${marginPct}% Vorsprung`,
+        beerId: front.beerIds[0],
+        secondaryBeerId: front.beerIds[1],
+        lat: front.lat,
+        lon: front.lon,
+        placeName: front.placeName,
+        zoom: 12,
+        priority: 100 - marginPct + Math.min(20, Math.round(front.contestedKm)),
+        icon: '\u2694\uFE0F',
+      });
+    }
+  } else {
+    // ── Battlefront: top 3 lowest-margin regions in viewport ──
+    const contested = viewportRegions
+      .filter((r) => r.runnerUpBeerId && r.avgMargin < 0.5)
+      .sort((a, b) => a.avgMargin - b.avgMargin)
+      .slice(0, 3);
+
+    for (const region of contested) {
+      const beer = BEER_MAP.get(region.beerId);
+      const runner = region.runnerUpBeerId ? BEER_MAP.get(region.runnerUpBeerId) : null;
+      if (!beer) continue;
+      const marginPct = Math.round(region.avgMargin * 100);
 
+      items.push({
+        id: `battle-${region.id}`,
+        type: 'battlefront',
+        title: `${beer.name} vs ${runner?.name ?? '?'}`,
+        subtitle: region.placeName
+          ? `Nur ${marginPct}% Vorsprung in ${region.placeName}`
+          : `Nur ${marginPct}% Vorsprung`,
+        beerId: region.beerId,
+        secondaryBeerId: region.runnerUpBeerId,
+        lat: region.centroidLat,
+        lon: region.centroidLon,
+        placeName: region.placeName,
+        zoom: 12,
+        priority: 100 - marginPct,
+        icon: '\u2694\uFE0F',
+      });
+    }
+  }
+
+  // ── Flip Watch: territory that recently changed owner ──
+  for (const change of changes.slice(0, 3)) {
+    const to = change.toBeerId ? BEER_MAP.get(change.toBeerId) : null;
+    const from = change.fromBeerId ? BEER_MAP.get(change.fromBeerId) : null;
+    const km2 = `${Math.round(change.areaKm2)} km\u00B2`;
+    const place = change.placeName ?? 'Gebiet';
+    let title: string;
+    let subtitle: string;
+    if (change.kind === 'flipped') {
+      title = `${to?.name ?? '?'} erobert ${place}!`;
+      subtitle = `${km2} von ${from?.name ?? '?'}`;
+    } else if (change.kind === 'gained') {
+      title = `${to?.name ?? '?'} besetzt ${place}`;
+      subtitle = `${km2} Niemandsland`;
+    } else {
+      title = `${from?.name ?? '?'} verliert ${place}`;
+      subtitle = `${km2} jetzt Niemandsland`;
+    }
     items.push({
-      id: `battle-${region.id}`,
-      type: 'battlefront',
-      title: `${beer.name} vs ${runner?.name ?? '?'}`,
-      subtitle: `Nur ${marginPct}% Vorsprung`,
-      beerId: region.beerId,
-      secondaryBeerId: region.runnerUpBeerId,
-      lat: region.centroidLat,
-      lon: region.centroidLon,
+      id: `flip-${change.id}`,
+      type: 'flip-watch',
+      title,
+      subtitle,
+      beerId: change.toBeerId ?? change.fromBeerId,
+      secondaryBeerId: change.toBeerId ? change.fromBeerId : null,
+      lat: change.lat,
+      lon: change.lon,
+      placeName: change.placeName,
       zoom: 12,
-      priority: 100 - marginPct,
-      icon: '\u2694\uFE0F',
+      priority: 90 + Math.min(20, Math.round(change.areaKm2)),
+      icon: change.kind === 'flipped' ? '\uD83D\uDD04' : change.kind === 'gained' ? '\uD83D\uDEA9' : '\uD83C\uDFF3\uFE0F',
     });
   }
 
   // ── Flip Watch: regions where recent votes differ from overall winner ──
+  // (only while nothing actually changed owner)
   const now = Date.now();
   const recentCutoff = now - 24 * 60 * 60 * 1000; // 24h
   const recentVotes = votes.filter((v) => v.timestamp > recentCutoff);
 
-  if (recentVotes.length > 0) {
+  if (changes.length === 0 && recentVotes.length > 0) {
     // Count recent votes per region (rough: find which region centroid is closest)
     const recentByBeer = new Map<string, number>();
     for (const v of recentVotes) {
@@ -74,12 +141,13 @@ export function computeFeedItems(
         items.push({
           id: `flip-${region.id}`,
           type: 'flip-watch',
-          title: `${runner.name} holt auf!`,
+          title: region.placeName ? `${runner.name} holt auf in ${region.placeName}!` : `${runner.name} holt auf!`,
           subtitle: `${runnerRecent} neue Votes vs ${winnerRecent}`,
           beerId: region.runnerUpBeerId,
           secondaryBeerId: region.beerId,
           lat: region.centroidLat,
           lon: region.centroidLon,
+          placeName: region.placeName,
           zoom: 12,
           priority: 80 + runnerRecent,
           icon: '\uD83D\uDD04',
@@ -109,11 +177,14 @@ export function computeFeedItems(
       id: `trend-${beerId}`,
       type: 'trending',
       title: `${beer.name} im Trend`,
-      subtitle: `${count} Votes (7 Tage)`,
+      subtitle: beerRegion?.placeName
+        ? `${count} Votes (7 Tage) \u2022 hält ${beerRegion.placeName}`
+        : `${count} Votes (7 Tage)`,
       beerId,
       secondaryBeerId: null,
       lat: beerRegion?.centroidLat ?? 48.14,
       lon: beerRegion?.centroidLon ?? 11.58,
+      placeName: beerRegion?.placeName ?? null,
       zoom: 11,
       priority: 50 + count,
       icon: '\uD83D\uDD25',
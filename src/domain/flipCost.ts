@@ -0,0 +1,169 @@
+import type { DominanceResult, FlipCost, FlipPlan, FlipVoteSpec, InfluenceKernels, Region, User } from './types';
+import { GAME } from '../config/constants';
+import { getNow } from './clock';
+import { beerWeightAt, winnerAt, winnerGrid } from './dominanceColumns';
+import { gridToLatLon, haversineDistanceKm } from './geo';
+import { cellX, edgeNeighbours, gridShape } from './gridTopology';
+import { placeNameAt } from './gazetteer';
+import { DEFAULT_KERNELS, kernelFactor } from './kernels';
+import { otrVoteWeight } from './weights';
+
+/** Placements tried per region; cells in between are skipped evenly */
+const MAX_CANDIDATES = 48;
+
+/** Drink check-ins and OTR votes as this user would place them right now */
+export function flipVoteSpecs(
+  user: User,
+  now: number = getNow(),
+  kernels: InfluenceKernels = DEFAULT_KERNELS,
+): FlipVoteSpec[] {
+  return [
+    { source: 'drink', weight: GAME.DRINK_WEIGHT, radiusKm: GAME.DRINK_RADIUS_KM, kernel: kernels.drink },
+    { source: 'otr', weight: otrVoteWeight(user, now), radiusKm: GAME.OTR_RADIUS_KM, kernel: kernels.otr },
+  ];
+}
+
+/**
+ * Votes of `weight` at kernel share `k` that lift the challenger from
+ * `deficit` behind to at least level. Exact ties go to the most recent
+ * activity, which a fresh vote always is.
+ */
+function votesNeeded(deficit: number, weight: number, k: number): number {
+  return Math.max(1, Math.ceil(deficit / (weight * k) - 1e-9));
+}
+
+function cellCenter(data: DominanceResult, i: number): { lat: number; lon: number } {
+  const row = Math.floor(i / data.cols);
+  const shape = gridShape(data.gridSpec);
+  return gridToLatLon(data.gridSpec, cellX(shape, row, i % data.cols), row);
+}
+
+/**
+ * Cheapest way to flip `goal` of the `targets` cells (all held by `holder`)
+ * to `challenger`, trying each target cell's center as the placement.
+ */
+function planFlip(
+  data: DominanceResult,
+  targets: number[],
+  goal: number,
+  holder: string,
+  challenger: string,
+  specs: FlipVoteSpec[],
+): FlipCost {
+  const deficits = targets.map(i => Math.max(0, beerWeightAt(data, i, holder) - beerWeightAt(data, i, challenger)));
+  const centers = targets.map(i => cellCenter(data, i));
+
+  const stride = Math.max(1, Math.ceil(targets.length / MAX_CANDIDATES));
+  const plans: FlipPlan[] = specs.map(spec => {
+    let best: FlipPlan = { source: spec.source, lat: centers[0].lat, lon: centers[0].lon, votes: null };
+    for (let c = 0; c < targets.length; c += stride) {
+      const at = centers[c];
+      const needs: number[] = [];
+      centers.forEach((p, t) => {
+        const k = kernelFactor(spec.kernel, haversineDistanceKm(at.lat, at.lon, p.lat, p.lon), spec.radiusKm);
+        if (k > 0) needs.push(votesNeeded(deficits[t], spec.weight, k));
+      });
+      // Out of reach: this spot cannot flip enough cells
+      if (needs.length < goal) continue;
+      needs.sort((a, b) => a - b);
+      const votes = needs[goal - 1];
+      if (best.votes === null || votes < best.votes) {
+        best = { source: spec.source, lat: at.lat, lon: at.lon, votes };
+      }
+    }
+    return best;
+  });
+
+  const sorted = [...deficits].sort((a, b) => a - b);
+  return { holderBeerId: holder, challengerBeerId: challenger, cellsToFlip: goal, extraWeight: sorted[goal - 1], plans };
+}
+
+/**
+ * What `challenger` must add to take cell (row, col). Null when the cell
+ * has no holder or the challenger already holds it.
+ */
+export function flipCostOfCell(
+  data: DominanceResult,
+  row: number,
+  col: number,
+  challenger: string,
+  specs: FlipVoteSpec[],
+): FlipCost | null {
+  if (row < 0 || row >= data.rows || col < 0 || col >= data.cols) return null;
+  const i = row * data.cols + col;
+  const holder = winnerAt(data, i);
+  if (!holder || holder === challenger) return null;
+  return planFlip(data, [i], 1, holder, challenger, specs);
+}
+
+/**
+ * What `challenger` must add to take more than half of a region's cells
+ * with votes in one spot. Null when the challenger already holds it or the
+ * region is not on this grid.
+ */
+export function flipCostOfRegion(
+  data: DominanceResult,
+  region: Region,
+  challenger: string,
+  specs: FlipVoteSpec[],
+): FlipCost | null {
+  if (region.beerId === challenger) return null;
+  const cells = regionCells(data, region);
+  if (cells.length === 0) return null;
+  return planFlip(data, cells, Math.floor(cells.length / 2) + 1, region.beerId, challenger, specs);
+}
+
+/**
+ * Cell indices of a region: the connected component of its beer inside its
+ * bounding box that matches its size (regions keep only summary fields).
+ */
+function regionCells(data: DominanceResult, region: Region): number[] {
+  const { rows, cols } = data;
+  const shape = gridShape(data.gridSpec);
+  const grid = winnerGrid(data);
+  const { minRow, maxRow, minCol, maxCol } = region.boundingBox;
+  const visited = new Uint8Array(rows * cols);
+
+  for (let r = minRow; r <= maxRow && r < rows; r++) {
+    for (let c = minCol; c <= maxCol && c < cols; c++) {
+      const start = r * cols + c;
+      if (visited[start] || grid[start] !== region.beerId) continue;
+
+      const component: number[] = [];
+      const queue = [start];
+      visited[start] = 1;
+      while (queue.length > 0) {
+        const ci = queue.pop()!;
+        component.push(ci);
+        const cr = (ci / cols) | 0;
+        for (const [dr, dc] of edgeNeighbours(shape, cr)) {
+          const nr = cr + dr;
+          const nc = (ci % cols) + dc;
+          if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+          const ni = nr * cols + nc;
+          if (visited[ni] || grid[ni] !== region.beerId) continue;
+          visited[ni] = 1;
+          queue.push(ni);
+        }
+      }
+      if (component.length === region.cellCount) return component;
+    }
+  }
+  return [];
+}
+
+const SOURCE_LABELS: Record<FlipVoteSpec['source'], [string, string]> = {
+  drink: ['Check-in', 'Check-ins'],
+  otr: ['OTR-Vote', 'OTR-Votes'],
+};
+
+/** "3 Check-ins bei Schwabing oder 1 OTR-Vote bei Maxvorstadt" */
+export function flipCostCaption(cost: FlipCost): string {
+  const options = cost.plans
+    .filter(p => p.votes !== null)
+    .map(p => {
+      const where = placeNameAt(p.lat, p.lon) ?? `${p.lat.toFixed(3)}, ${p.lon.toFixed(3)}`;
+      return `${p.votes} ${SOURCE_LABELS[p.source][p.votes === 1 ? 0 : 1]} bei ${where}`;
+    });
+  return options.length > 0 ? options.join(' oder ') : 'Von keinem Ort aus zu kippen';
+}
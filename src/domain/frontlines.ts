@@ -0,0 +1,136 @@
+import type { DominanceResult, Frontline, FrontlineCell, OverlaySettings, Region, RegionGraph } from './types';
+import { beerWeightAt, winnerAt } from './dominanceColumns';
+import { gridToLatLon, haversineDistanceKm } from './geo';
+import { forwardNeighbours, gridShape, sharedEdge } from './gridTopology';
+import { placeNameAt } from './gazetteer';
+
+export type ContestSettings = Pick<OverlaySettings, 'closeMarginThreshold' | 'closeMarginMinWeight'>;
+
+/**
+ * A border edge between cells i and j is contested when BOTH cells have
+ *   1. enough total weight (genuine presence on both sides) and
+ *   2. a close margin (neither side is dominant in that cell).
+ * Borders at the mere midpoint of overlapping circles are not contested.
+ */
+export function isContestedEdge(data: DominanceResult, i: number, j: number, settings: ContestSettings): boolean {
+  const thresh = settings.closeMarginThreshold;
+  const minWeight = settings.closeMarginMinWeight;
+  return (
+    data.margin[i] <= thresh &&
+    data.margin[j] <= thresh &&
+    data.totalWeight[i] >= minWeight &&
+    data.totalWeight[j] >= minWeight
+  );
+}
+
+interface FrontAccumulator {
+  labels: [number, number];
+  borderKm: number;
+  contestedKm: number;
+  /** Edge midpoints weighted by edge length */
+  sumLat: number;
+  sumLon: number;
+  /** Cell index → the label across the front */
+  cells: Map<number, number>;
+}
+
+/**
+ * Region adjacency graph: one Frontline per pair of regions sharing at
+ * least one cell edge. `labels` maps cells to indices into `regions`, as
+ * extractRegionsWithLabels returns them.
+ */
+export function buildRegionGraph(
+  data: DominanceResult,
+  regions: Region[],
+  labels: Int32Array,
+  settings: ContestSettings,
+): RegionGraph {
+  const { rows, cols, gridSpec: gs } = data;
+  const shape = gridShape(gs);
+  const acc = new Map<string, FrontAccumulator>();
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      const la = labels[i];
+      if (la < 0) continue;
+
+      // East and south edges only, so every edge is visited once
+      for (const [dr, dc] of forwardNeighbours(shape, r)) {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr < 0 || nc < 0 || nc >= cols) continue;
+        const j = nr * cols + nc;
+        const lb = labels[j];
+        if (lb < 0 || lb === la) continue;
+
+        const key = la < lb ? `${la},${lb}` : `${lb},${la}`;
+        let front = acc.get(key);
+        if (!front) {
+          front = { labels: la < lb ? [la, lb] : [lb, la], borderKm: 0, contestedKm: 0, sumLat: 0, sumLon: 0, cells: new Map() };
+          acc.set(key, front);
+        }
+
+        const [p, q] = sharedEdge(shape, r, c, dr, dc);
+        const a = gridToLatLon(gs, p[0], p[1]);
+        const b = gridToLatLon(gs, q[0], q[1]);
+        const km = haversineDistanceKm(a.lat, a.lon, b.lat, b.lon);
+        front.borderKm += km;
+        if (isContestedEdge(data, i, j, settings)) front.contestedKm += km;
+        front.sumLat += ((a.lat + b.lat) / 2) * km;
+        front.sumLon += ((a.lon + b.lon) / 2) * km;
+        front.cells.set(i, lb);
+        front.cells.set(j, la);
+      }
+    }
+  }
+
+  const fronts: Frontline[] = [];
+  for (const front of acc.values()) {
+    const [ra, rb] = front.labels.map(l => regions[l]);
+    const cells: FrontlineCell[] = [];
+    let marginSum = 0;
+    let minFlipWeight = Infinity;
+    for (const [i, across] of front.cells) {
+      const beerId = winnerAt(data, i)!;
+      const challengerBeerId = regions[across].beerId;
+      const flipWeight = Math.max(0, beerWeightAt(data, i, beerId) - beerWeightAt(data, i, challengerBeerId));
+      cells.push({ row: Math.floor(i / cols), col: i % cols, beerId, challengerBeerId, flipWeight });
+      marginSum += data.margin[i];
+      if (flipWeight < minFlipWeight) minFlipWeight = flipWeight;
+    }
+    const lat = front.sumLat / front.borderKm;
+    const lon = front.sumLon / front.borderKm;
+    const pair: [Region, Region] = ra.id < rb.id ? [ra, rb] : [rb, ra];
+    fronts.push({
+      id: `${pair[0].id}|${pair[1].id}`,
+      regionIds: [pair[0].id, pair[1].id],
+      beerIds: [pair[0].beerId, pair[1].beerId],
+      borderKm: front.borderKm,
+      contestedKm: front.contestedKm,
+      avgMargin: marginSum / cells.length,
+      minFlipWeight,
+      cells,
+      lat,
+      lon,
+      placeName: placeNameAt(lat, lon),
+    });
+  }
+
+  fronts.sort((a, b) => b.contestedKm - a.contestedKm || a.avgMargin - b.avgMargin || (a.id < b.id ? -1 : 1));
+
+  const byRegion = new Map<string, Frontline[]>();
+  for (const front of fronts) {
+    for (const id of front.regionIds) {
+      const list = byRegion.get(id);
+      if (list) list.push(front);
+      else byRegion.set(id, [front]);
+    }
+  }
+  return { fronts, byRegion };
+}
+
+/** True when a region has any contested stretch of border */
+export function isOnContestedFront(graph: RegionGraph, regionId: string): boolean {
+  return graph.byRegion.get(regionId)?.some(f => f.contestedKm > 0) ?? false;
+}
@@ -0,0 +1,590 @@
+/**
+ * Offline gazetteer: cities, towns and city districts of all play areas,
+ * bundled as compact "name;lat;lon" lines. Reverse geocoding is a plain
+ * scan over a few hundred places, cheap enough for the main thread and
+ * workers alike, and needs no network.
+ */
+
+/** Coarsest to finest; finer places win whenever they are within reach */
+export type PlaceKind = 'metro' | 'city' | 'town' | 'district';
+
+export interface Place {
+  name: string;
+  lat: number;
+  lon: number;
+  kind: PlaceKind;
+}
+
+/** How far (km) from its center a place still names a location */
+const REACH_KM: Record<PlaceKind, number> = {
+  metro: 25,
+  city: 12,
+  town: 6,
+  district: 2.5,
+};
+
+const KIND_RANK: Record<PlaceKind, number> = { metro: 0, city: 1, town: 2, district: 3 };
+
+const PLACE_LINES: Record<PlaceKind, string> = {
+  metro: `
+Berlin;52.520;13.405
+Hamburg;53.551;9.994
+München;48.137;11.576
+Köln;50.938;6.960
+Frankfurt am Main;50.111;8.682
+Stuttgart;48.776;9.183
+Düsseldorf;51.227;6.774
+Leipzig;51.340;12.375
+Dortmund;51.514;7.468
+Essen;51.456;7.012
+Bremen;53.079;8.802
+Dresden;51.051;13.738
+Hannover;52.376;9.732
+Nürnberg;49.453;11.078
+Wien;48.208;16.373
+Zürich;47.377;8.541
+Brussel;50.847;4.357
+Praha;50.075;14.437`,
+
+  city: `
+Duisburg;51.435;6.762
+Bochum;51.482;7.216
+Wuppertal;51.256;7.150
+Bielefeld;52.030;8.532
+Bonn;50.737;7.098
+Münster;51.960;7.626
+Mannheim;49.488;8.466
+Karlsruhe;49.007;8.404
+Augsburg;48.371;10.898
+Wiesbaden;50.078;8.240
+Mönchengladbach;51.180;6.443
+Gelsenkirchen;51.518;7.086
+Aachen;50.776;6.084
+Braunschweig;52.269;10.521
+Kiel;54.323;10.123
+Chemnitz;50.828;12.921
+Halle (Saale);51.483;11.970
+Magdeburg;52.121;11.628
+Freiburg im Breisgau;47.999;7.842
+Krefeld;51.339;6.586
+Mainz;49.993;8.247
+Lübeck;53.866;10.687
+Erfurt;50.978;11.029
+Oberhausen;51.470;6.852
+Rostock;54.092;12.099
+Kassel;51.312;9.480
+Hagen;51.367;7.463
+Potsdam;52.391;13.065
+Saarbrücken;49.240;6.997
+Hamm;51.681;7.815
+Ludwigshafen am Rhein;49.477;8.445
+Mülheim an der Ruhr;51.418;6.885
+Oldenburg;53.143;8.214
+Osnabrück;52.279;8.047
+Leverkusen;51.046;7.019
+Heidelberg;49.398;8.672
+Darmstadt;49.872;8.651
+Solingen;51.165;7.067
+Regensburg;49.013;12.102
+Herne;51.538;7.220
+Paderborn;51.719;8.754
+Neuss;51.198;6.691
+Ingolstadt;48.766;11.425
+Offenbach am Main;50.096;8.776
+Fürth;49.477;10.989
+Würzburg;49.791;9.953
+Ulm;48.401;9.988
+Heilbronn;49.142;9.219
+Pforzheim;48.892;8.694
+Wolfsburg;52.423;10.787
+Göttingen;51.541;9.916
+Bottrop;51.524;6.929
+Reutlingen;48.491;9.204
+Koblenz;50.356;7.594
+Bremerhaven;53.540;8.581
+Recklinghausen;51.614;7.197
+Bergisch Gladbach;50.992;7.136
+Erlangen;49.590;11.004
+Jena;50.927;11.589
+Remscheid;51.179;7.189
+Trier;49.750;6.637
+Salzgitter;52.154;10.333
+Moers;51.451;6.627
+Siegen;50.874;8.024
+Hildesheim;52.154;9.958
+Cottbus;51.756;14.333
+Kaiserslautern;49.444;7.769
+Schwerin;53.635;11.401
+Graz;47.071;15.439
+Linz;48.306;14.286
+Salzburg;47.811;13.055
+Innsbruck;47.263;11.394
+Klagenfurt;46.624;14.308
+Genf;46.204;6.143
+Basel;47.559;7.589
+Bern;46.948;7.448
+Lausanne;46.520;6.633
+Winterthur;47.500;8.724
+Luzern;47.050;8.309
+St. Gallen;47.424;9.377
+Lugano;46.004;8.951
+Antwerpen;51.219;4.402
+Gent;51.054;3.717
+Charleroi;50.411;4.444
+Liège;50.633;5.567
+Brugge;51.209;3.225
+Namur;50.467;4.867
+Leuven;50.880;4.700
+Brno;49.195;16.607
+Ostrava;49.820;18.262
+Plzeň;49.738;13.373
+Liberec;50.767;15.056
+Olomouc;49.594;17.251`,
+
+  town: `
+Bamberg;49.898;10.902
+Bayreuth;49.945;11.576
+Landshut;48.537;12.152
+Rosenheim;47.857;12.122
+Kempten;47.726;10.315
+Passau;48.575;13.461
+Freising;48.403;11.749
+Dachau;48.260;11.434
+Erding;48.306;11.907
+Starnberg;47.999;11.340
+Fürstenfeldbruck;48.178;11.255
+Garmisch-Partenkirchen;47.492;11.096
+Traunstein;47.868;12.643
+Straubing;48.881;12.573
+Deggendorf;48.840;12.961
+Amberg;49.444;11.858
+Weiden in der Oberpfalz;49.675;12.156
+Schweinfurt;50.049;10.221
+Aschaffenburg;49.977;9.148
+Coburg;50.259;10.964
+Hof;50.313;11.912
+Kulmbach;50.100;11.453
+Neu-Ulm;48.393;10.011
+Memmingen;47.984;10.181
+Kaufbeuren;47.881;10.622
+Ansbach;49.300;10.572
+Weilheim in Oberbayern;47.839;11.142
+Bad Tölz;47.761;11.557
+Andechs;47.975;11.183
+Bad Reichenhall;47.725;12.877
+Konstanz;47.663;9.175
+Friedrichshafen;47.654;9.479
+Ravensburg;47.782;9.612
+Lindau;47.546;9.684
+Tübingen;48.521;9.057
+Esslingen am Neckar;48.742;9.307
+Ludwigsburg;48.894;9.193
+Sindelfingen;48.713;9.003
+Göppingen;48.703;9.652
+Aalen;48.837;10.093
+Schwäbisch Hall;49.112;9.738
+Baden-Baden;48.761;8.240
+Offenburg;48.473;7.944
+Villingen-Schwenningen;48.060;8.459
+Lörrach;47.616;7.664
+Gießen;50.587;8.676
+Marburg;50.810;8.771
+Fulda;50.555;9.680
+Hanau;50.133;8.917
+Bad Homburg;50.227;8.618
+Limburg an der Lahn;50.389;8.063
+Lich;50.521;8.817
+Worms;49.632;8.359
+Speyer;49.317;8.441
+Landau in der Pfalz;49.199;8.118
+Neustadt an der Weinstraße;49.354;8.139
+Zweibrücken;49.247;7.369
+Bitburg;49.967;6.527
+Saarlouis;49.314;6.752
+Homburg;49.327;7.338
+Lüneburg;53.251;10.414
+Celle;52.625;10.081
+Goslar;51.906;10.428
+Hameln;52.104;9.356
+Einbeck;51.817;9.867
+Emden;53.367;7.206
+Wilhelmshaven;53.530;8.113
+Jever;53.573;7.898
+Cuxhaven;53.861;8.694
+Stade;53.599;9.476
+Lingen;52.522;7.322
+Nordhorn;52.437;7.068
+Delmenhorst;53.051;8.631
+Flensburg;54.784;9.436
+Husum;54.477;9.051
+Neumünster;54.074;9.984
+Stralsund;54.309;13.082
+Greifswald;54.096;13.388
+Neubrandenburg;53.557;13.261
+Wismar;53.891;11.465
+Frankfurt (Oder);52.347;14.551
+Brandenburg an der Havel;52.412;12.532
+Eberswalde;52.834;13.822
+Görlitz;51.153;14.987
+Bautzen;51.181;14.424
+Radeberg;51.117;13.917
+Freiberg;50.912;13.343
+Zwickau;50.718;12.496
+Plauen;50.496;12.137
+Gera;50.880;12.082
+Bad Köstritz;50.930;12.010
+Weimar;50.979;11.330
+Gotha;50.949;10.701
+Eisenach;50.975;10.320
+Suhl;50.609;10.693
+Dessau-Roßlau;51.835;12.246
+Lutherstadt Wittenberg;51.866;12.649
+Halberstadt;51.896;11.047
+Stendal;52.606;11.858
+Warstein;51.444;8.349
+Kreuztal;50.970;7.985
+Arnsberg;51.397;8.064
+Lüdenscheid;51.219;7.627
+Iserlohn;51.375;7.696
+Detmold;51.938;8.879
+Minden;52.289;8.917
+Herford;52.115;8.673
+Gütersloh;51.907;8.378
+Bocholt;51.838;6.615
+Düren;50.803;6.483
+Viersen;51.256;6.397
+Wesel;51.658;6.618
+Kleve;51.790;6.139
+Siegburg;50.801;7.204
+Euskirchen;50.660;6.787
+Gummersbach;51.027;7.565
+Soest;51.571;8.106
+Lippstadt;51.674;8.344
+Rheine;52.279;7.440
+Villach;46.611;13.855
+Wels;48.166;14.027
+St. Pölten;48.204;15.626
+Dornbirn;47.414;9.742
+Wiener Neustadt;47.815;16.245
+Steyr;48.039;14.419
+Feldkirch;47.238;9.598
+Bregenz;47.503;9.747
+Klosterneuburg;48.305;16.325
+Baden bei Wien;48.006;16.234
+Mödling;48.086;16.289
+Schwechat;48.141;16.478
+Leoben;47.381;15.094
+Kapfenberg;47.444;15.293
+Krems an der Donau;48.410;15.603
+Amstetten;48.122;14.872
+Zwettl;48.604;15.169
+Eisenstadt;47.846;16.527
+Hallein;47.683;13.097
+Kufstein;47.583;12.170
+Schwaz;47.352;11.706
+Braunau am Inn;48.257;13.034
+Ried im Innkreis;48.210;13.489
+Gmunden;47.918;13.799
+Vöcklabruck;48.004;13.655
+Bad Ischl;47.711;13.619
+Zell am See;47.323;12.798
+Schladming;47.394;13.687
+Murau;47.112;14.171
+Wolfsberg;46.841;14.843
+Spittal an der Drau;46.800;13.495
+Lienz;46.830;12.769
+Bludenz;47.155;9.822
+Lustenau;47.427;9.659
+Biel/Bienne;47.137;7.247
+Thun;46.758;7.628
+Köniz;46.924;7.414
+La Chaux-de-Fonds;47.100;6.827
+Fribourg;46.806;7.161
+Schaffhausen;47.697;8.634
+Chur;46.850;9.532
+Neuchâtel;46.990;6.930
+Uster;47.348;8.719
+Sion;46.233;7.360
+Zug;47.166;8.516
+Emmen;47.078;8.300
+Yverdon-les-Bains;46.778;6.641
+Rapperswil-Jona;47.227;8.818
+Dübendorf;47.397;8.619
+Montreux;46.431;6.911
+Vevey;46.463;6.843
+Nyon;46.383;6.239
+Frauenfeld;47.557;8.898
+Kreuzlingen;47.645;9.176
+Baden AG;47.473;8.307
+Aarau;47.392;8.044
+Olten;47.350;7.903
+Solothurn;47.208;7.532
+Liestal;47.484;7.734
+Rheinfelden;47.554;7.794
+Wil;47.461;9.045
+Appenzell;47.331;9.409
+Locarno;46.170;8.799
+Bellinzona;46.195;9.024
+Davos;46.802;9.836
+St. Moritz;46.498;9.839
+Interlaken;46.686;7.863
+Zermatt;46.020;7.749
+Brig;46.316;7.988
+Martigny;46.102;7.073
+Delémont;47.365;7.345
+Mons;50.454;3.952
+Mechelen;51.026;4.478
+Aalst;50.938;4.039
+Hasselt;50.931;5.338
+Kortrijk;50.828;3.265
+Oostende;51.216;2.928
+Sint-Niklaas;51.165;4.144
+Genk;50.965;5.500
+Tournai;50.606;3.389
+Roeselare;50.946;3.123
+Verviers;50.590;5.864
+Mouscron;50.744;3.214
+Ieper;50.851;2.886
+Turnhout;51.322;4.944
+Arlon;49.683;5.816
+Dinant;50.260;4.912
+Bastogne;50.003;5.719
+Eupen;50.630;6.031
+Westmalle;51.283;4.688
+Chimay;50.048;4.317
+Hoegaarden;50.776;4.887
+Houffalize;50.151;5.745
+Orval;49.637;5.490
+České Budějovice;48.975;14.474
+Hradec Králové;50.209;15.833
+Ústí nad Labem;50.661;14.032
+Pardubice;50.034;15.781
+Zlín;49.226;17.667
+Havířov;49.780;18.437
+Kladno;50.147;14.103
+Most;50.503;13.636
+Opava;49.938;17.903
+Frýdek-Místek;49.688;18.351
+Karviná;49.854;18.543
+Jihlava;49.396;15.591
+Teplice;50.640;13.825
+Děčín;50.773;14.214
+Karlovy Vary;50.231;12.872
+Chomutov;50.460;13.418
+Jablonec nad Nisou;50.724;15.171
+Mladá Boleslav;50.411;14.903
+Prostějov;49.472;17.111
+Přerov;49.455;17.451
+Česká Lípa;50.686;14.538
+Třebíč;49.215;15.882
+Třinec;49.678;18.670
+Tábor;49.414;14.658
+Znojmo;48.856;16.049
+Kolín;50.028;15.200
+Příbram;49.690;14.010
+Cheb;50.080;12.374
+Písek;49.309;14.148
+Trutnov;50.561;15.913
+Kroměříž;49.298;17.393
+Český Krumlov;48.811;14.315
+Velké Popovice;49.923;14.640
+Krušovice;50.172;13.776
+Humpolec;49.541;15.359
+Svijany;50.573;15.059
+Nošovice;49.657;18.432`,
+
+  district: `
+Altstadt-Lehel;48.137;11.583
+Maxvorstadt;48.150;11.566
+Schwabing;48.165;11.585
+Haidhausen;48.128;11.596
+Ludwigsvorstadt;48.133;11.556
+Schwanthalerhöhe;48.136;11.538
+Sendling;48.118;11.541
+Neuhausen;48.154;11.532
+Nymphenburg;48.158;11.503
+Pasing;48.147;11.459
+Laim;48.136;11.503
+Bogenhausen;48.154;11.621
+Giesing;48.110;11.585
+Berg am Laim;48.124;11.633
+Trudering;48.122;11.665
+Ramersdorf;48.112;11.620
+Neuperlach;48.095;11.645
+Riem;48.133;11.690
+Milbertshofen;48.186;11.574
+Moosach;48.180;11.510
+Freimann;48.196;11.613
+Feldmoching;48.215;11.540
+Thalkirchen;48.102;11.545
+Hadern;48.118;11.480
+Solln;48.078;11.525
+Berlin-Mitte;52.521;13.398
+Kreuzberg;52.499;13.403
+Friedrichshain;52.515;13.454
+Prenzlauer Berg;52.539;13.424
+Neukölln;52.481;13.435
+Charlottenburg;52.516;13.304
+Wilmersdorf;52.487;13.319
+Schöneberg;52.483;13.355
+Tempelhof;52.466;13.385
+Steglitz;52.456;13.322
+Zehlendorf;52.434;13.259
+Spandau;52.535;13.200
+Reinickendorf;52.588;13.327
+Pankow;52.569;13.402
+Weißensee;52.553;13.466
+Lichtenberg;52.515;13.499
+Marzahn;52.545;13.564
+Hellersdorf;52.534;13.606
+Köpenick;52.445;13.575
+Treptow;52.493;13.464
+Wedding;52.550;13.366
+Moabit;52.530;13.343
+Altona;53.550;9.935
+St. Pauli;53.556;9.964
+Eimsbüttel;53.575;9.953
+Eppendorf;53.591;9.981
+Winterhude;53.590;10.000
+Barmbek;53.586;10.040
+Wandsbek;53.581;10.083
+Wilhelmsburg;53.497;10.006
+Harburg;53.460;9.980
+Bergedorf;53.489;10.212
+Blankenese;53.564;9.810
+Ehrenfeld;50.950;6.917
+Nippes;50.966;6.957
+Deutz;50.936;6.975
+Kalk;50.938;7.005
+Lindenthal;50.925;6.920
+Köln-Mülheim;50.965;7.005
+Rodenkirchen;50.893;6.990
+Porz;50.880;7.060
+Chorweiler;51.025;6.895
+Sachsenhausen;50.100;8.685
+Bornheim;50.128;8.711
+Nordend;50.128;8.690
+Bockenheim;50.121;8.651
+Gallus;50.103;8.638
+Höchst;50.101;8.545
+Bad Cannstatt;48.806;9.220
+Feuerbach;48.812;9.158
+Zuffenhausen;48.832;9.169
+Degerloch;48.748;9.170
+Vaihingen;48.730;9.110
+Innere Stadt;48.208;16.371
+Leopoldstadt;48.218;16.395
+Landstraße;48.199;16.395
+Wieden;48.192;16.371
+Margareten;48.187;16.356
+Mariahilf;48.195;16.350
+Neubau;48.202;16.349
+Josefstadt;48.211;16.347
+Alsergrund;48.223;16.357
+Favoriten;48.176;16.380
+Simmering;48.170;16.420
+Meidling;48.175;16.330
+Hietzing;48.185;16.290
+Penzing;48.205;16.300
+Rudolfsheim-Fünfhaus;48.193;16.330
+Ottakring;48.212;16.310
+Hernals;48.223;16.310
+Währing;48.230;16.330
+Döbling;48.250;16.340
+Brigittenau;48.237;16.375
+Floridsdorf;48.270;16.400
+Donaustadt;48.230;16.460
+Liesing;48.140;16.290
+Lend;47.075;15.425
+Gries;47.065;15.425
+St. Leonhard;47.070;15.455
+Puntigam;47.031;15.433
+Andritz;47.110;15.420
+Eggenberg;47.075;15.395
+Urfahr;48.318;14.285
+Enge;47.362;8.530
+Wiedikon;47.370;8.520
+Aussersihl;47.378;8.525
+Zürich-West;47.389;8.517
+Wipkingen;47.395;8.530
+Oerlikon;47.411;8.544
+Altstetten;47.391;8.488
+Höngg;47.405;8.497
+Schwamendingen;47.405;8.573
+Hottingen;47.370;8.560
+Seefeld;47.357;8.553
+Wollishofen;47.345;8.530
+Witikon;47.359;8.590
+Elsene;50.827;4.372
+Schaarbeek;50.867;4.377
+Anderlecht;50.836;4.308
+Molenbeek;50.855;4.330
+Ukkel;50.800;4.337
+Etterbeek;50.836;4.389
+Sint-Gillis;50.828;4.345
+Sint-Lambrechts-Woluwe;50.845;4.430
+Jupille;50.645;5.640
+Staré Město;50.087;14.421
+Nové Město;50.078;14.425
+Malá Strana;50.087;14.404
+Vinohrady;50.075;14.447
+Žižkov;50.085;14.455
+Smíchov;50.071;14.405
+Holešovice;50.102;14.440
+Karlín;50.093;14.450
+Dejvice;50.100;14.390
+Nusle;50.062;14.440
+Vršovice;50.068;14.460
+Libeň;50.108;14.475`,
+};
+
+let places: Place[] | null = null;
+
+/** All places, finest kind first; parsed on first use */
+export function getPlaces(): Place[] {
+  if (!places) {
+    places = [];
+    for (const kind of Object.keys(PLACE_LINES) as PlaceKind[]) {
+      for (const line of PLACE_LINES[kind].trim().split('\n')) {
+        const [name, lat, lon] = line.split(';');
+        places.push({ name, lat: Number(lat), lon: Number(lon), kind });
+      }
+    }
+    places.sort((a, b) => KIND_RANK[b.kind] - KIND_RANK[a.kind]);
+  }
+  return places;
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+const KM_PER_DEG = 111.32;
+
+/**
+ * The place naming a location: the finest kind of place within reach,
+ * and of those the nearest. Null far from every listed place.
+ */
+export function reverseGeocode(lat: number, lon: number): Place | null {
+  const kmPerDegLon = KM_PER_DEG * Math.cos(lat * DEG_TO_RAD);
+  let best: Place | null = null;
+  let bestKm = Infinity;
+  for (const place of getPlaces()) {
+    // Sorted finest first: a coarser kind never beats a found place
+    if (best && place.kind !== best.kind) break;
+    const dy = (place.lat - lat) * KM_PER_DEG;
+    const dx = (place.lon - lon) * kmPerDegLon;
+    const km = Math.sqrt(dx * dx + dy * dy);
+    if (km <= REACH_KM[place.kind] && km < bestKm) {
+      best = place;
+      bestKm = km;
+    }
+  }
+  return best;
+}
+
+export function placeNameAt(lat: number, lon: number): string | null {
+  return reverseGeocode(lat, lon)?.name ?? null;
+}
+
+/** "Augustiner hält Schwabing"; just the beer far from any place */
+export function holdsCaption(beerName: string, placeName: string | null): string {
+  return placeName ? `${beerName} hält ${placeName}` : beerName;
+}
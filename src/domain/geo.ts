@@ -1,5 +1,9 @@
-import type { GridSpec, GridCell, ViewportBounds } from './types';
+import type { GridSpec, GridCell, PlayArea } from './types';
 import { GAME } from '../config/constants';
+import { axialAt, axialToOffset, cellX, gridShape } from './gridTopology';
+import { gridLandMask } from './landMask';
+import { gridFrame, project, unproject } from './projection';
+import { DEFAULT_PLAY_AREA_ID, getActivePlayArea, getPlayArea } from './playAreas';
 
 const DEG_TO_RAD = Math.PI / 180;
 const EARTH_RADIUS_KM = 6371;
@@ -23,62 +27,109 @@ export function haversineDistanceKm(
 
 /**
  * DACH center coordinates (roughly center of DE + AT + CH).
+ * Prefer the active play area's `center`.
  */
-export const DACH_CENTER = { lat: 48.5, lon: 11.5 };
+export const DACH_CENTER = getPlayArea().center;
 
 /** @deprecated Use DACH_CENTER instead */
 export const MUNICH_CENTER = DACH_CENTER;
 
 /**
- * Default bounding box: entire DACH region
- * (Deutschland, Österreich, Schweiz).
+ * Default bounding box: the whole play area, DACH unless another one is
+ * active (e.g. DACH: 45.8–55.1 °N, 5.8–17.2 °E).
  *
- * Lat  45.8 (southern Swiss Alps) → 55.1 (northern Germany)
- * Lon   5.8 (western Germany)     → 17.2 (eastern Austria)
- *
- * Cell size = 2 km to keep grid manageable (~470 × 425 ≈ 200 k cells).
+ * Cell size = 2 km to keep grid manageable (DACH: ~470 × 425 ≈ 200 k cells).
  */
-export function getDefaultBoundingBox(): GridSpec {
+export function getDefaultBoundingBox(area: PlayArea = getActivePlayArea()): GridSpec {
+  const spec: GridSpec = { ...area.bounds, cellSizeMeters: GAME.CELL_SIZE_METERS };
+  if (area.id !== DEFAULT_PLAY_AREA_ID) spec.areaId = area.id;
+  return spec;
+}
+
+/** Same bounds, cell size, column reference, cell shape and play area */
+export function sameGridSpec(a: GridSpec, b: GridSpec): boolean {
+  return a.minLat === b.minLat && a.maxLat === b.maxLat &&
+    a.minLon === b.minLon && a.maxLon === b.maxLon &&
+    a.cellSizeMeters === b.cellSizeMeters && a.refLat === b.refLat &&
+    gridShape(a) === gridShape(b) && getPlayArea(a.areaId) === getPlayArea(b.areaId);
+}
+
+/** Rows and columns of whole cells that fit a GridSpec's box */
+export function gridDimensions(spec: GridSpec): { rows: number; cols: number } {
+  const frame = gridFrame(spec);
+  const ne = project(spec.maxLat, spec.maxLon);
+  // The epsilon keeps lattice-aligned bounds from losing a row to rounding
   return {
-    minLat: 45.8,
-    maxLat: 55.1,
-    minLon: 5.8,
-    maxLon: 17.2,
-    cellSizeMeters: 2000,
+    rows: Math.max(0, Math.floor((ne.y - frame.y0) / frame.rowStep + 1e-9)),
+    cols: Math.max(0, Math.floor((ne.x - frame.x0) / frame.colStep + 1e-9)),
   };
 }
 
 /**
- * Precompute all grid cells for a given GridSpec.
+ * Ground area of one cell at `lat`. Square and hex cells both cover one
+ * column step by one row step of the projection, which shrinks by cos(lat).
  */
-export function precomputeGrid(spec: GridSpec): { rows: number; cols: number; cells: GridCell[] } {
-  const dLat = spec.cellSizeMeters / METERS_PER_DEG_LAT;
-  const rows = Math.floor((spec.maxLat - spec.minLat) / dLat);
-
-  // Compute columns based on center latitude
-  const centerLat = (spec.minLat + spec.maxLat) / 2;
-  const dLon = spec.cellSizeMeters / (METERS_PER_DEG_LAT * Math.cos(centerLat * DEG_TO_RAD));
-  const cols = Math.floor((spec.maxLon - spec.minLon) / dLon);
+export function cellAreaKm2(spec: GridSpec, lat: number): number {
+  const { colStep, rowStep } = gridFrame(spec);
+  const scale = Math.cos(lat * Math.PI / 180);
+  return (colStep * rowStep * scale * scale) / 1e6;
+}
 
+/**
+ * Precompute all grid cells for a given GridSpec. Cells off the play area's
+ * land are flagged `masked` (see landMask).
+ */
+export function precomputeGrid(spec: GridSpec): { rows: number; cols: number; cells: GridCell[] } {
+  const shape = gridShape(spec);
+  const { rows, cols } = gridDimensions(spec);
   const cells: GridCell[] = [];
 
   for (let r = 0; r < rows; r++) {
-    const cellLat = spec.minLat + (r + 0.5) * dLat;
-    const rowDLon = spec.cellSizeMeters / (METERS_PER_DEG_LAT * Math.cos(cellLat * DEG_TO_RAD));
-
     for (let c = 0; c < cols; c++) {
-      cells.push({
-        row: r,
-        col: c,
-        centerLat: cellLat,
-        centerLon: spec.minLon + (c + 0.5) * rowDLon,
-      });
+      const { lat, lon } = gridToLatLon(spec, cellX(shape, r, c), r);
+      cells.push({ row: r, col: c, centerLat: lat, centerLon: lon });
     }
   }
 
+  const land = gridLandMask(spec, cells);
+  for (let i = 0; i < cells.length; i++) {
+    if (!land[i]) cells[i].masked = true;
+  }
+
   return { rows, cols, cells };
 }
 
+/** Lat/lon of a point in grid units (x = column, y = row; cell centers at cellX, row). */
+export function gridToLatLon(spec: GridSpec, x: number, y: number): { lat: number; lon: number } {
+  const frame = gridFrame(spec);
+  return unproject(frame.x0 + (x + 0.5) * frame.colStep, frame.y0 + (y + 0.5) * frame.rowStep);
+}
+
+/** Grid units of a location, the inverse of gridToLatLon */
+export function latLonToGrid(spec: GridSpec, lat: number, lon: number): { x: number; y: number } {
+  const frame = gridFrame(spec);
+  const p = project(lat, lon);
+  return { x: (p.x - frame.x0) / frame.colStep - 0.5, y: (p.y - frame.y0) / frame.rowStep - 0.5 };
+}
+
+/** Row/col of the cell containing a location, or null outside the grid. */
+export function cellIndexAt(
+  spec: GridSpec, rows: number, cols: number, lat: number, lon: number,
+): { row: number; col: number } | null {
+  const { x, y } = latLonToGrid(spec, lat, lon);
+  let row: number;
+  let col: number;
+  if (gridShape(spec) === 'hex') {
+    const { q, r } = axialAt(x, y);
+    ({ row, col } = axialToOffset(q, r));
+  } else {
+    row = Math.floor(y + 0.5);
+    col = Math.floor(x + 0.5);
+  }
+  if (row < 0 || row >= rows || col < 0 || col >= cols) return null;
+  return { row, col };
+}
+
 /**
  * Convert meters to approximate degree offsets.
  */
@@ -117,52 +168,3 @@ export function getCellSizeForZoom(zoom: number): number {
 
   return GAME.CELL_SIZE_METERS;
 }
-
-/**
- * Build a viewport-bounded GridSpec for the current map view + zoom.
- *
- * 1. Expands the viewport by `bufferKm` on each side so that
- *    nearby votes outside the visible area still influence cells.
- * 2. Picks cell size via `getCellSizeForZoom(zoom)`.
- * 3. Clamps to DACH bounding box.
- * 4. If estimated cell count exceeds MAX_GRID_CELLS, auto-coarsens.
- */
-export function getViewportGridSpec(
-  viewport: ViewportBounds,
-  zoom: number,
-  bufferKm: number = GAME.VIEWPORT_BUFFER_KM,
-): GridSpec {
-  const dach = getDefaultBoundingBox();
-
-  // Buffer in degrees
-  const bufferLat = metersToDegLat(bufferKm * 1000);
-  const centerLat = (viewport.south + viewport.north) / 2;
-  const bufferLon = metersToDegLon(bufferKm * 1000, centerLat);
-
-  // Expand viewport + clamp to DACH
-  const minLat = Math.max(viewport.south - bufferLat, dach.minLat);
-  const maxLat = Math.min(viewport.north + bufferLat, dach.maxLat);
-  const minLon = Math.max(viewport.west - bufferLon, dach.minLon);
-  const maxLon = Math.min(viewport.east + bufferLon, dach.maxLon);
-
-  let cellSizeMeters = getCellSizeForZoom(zoom);
-
-  // Estimate cell count and auto-coarsen if necessary
-  const dLat = cellSizeMeters / METERS_PER_DEG_LAT;
-  const dLon = cellSizeMeters / (METERS_PER_DEG_LAT * Math.cos(centerLat * DEG_TO_RAD));
-  let rows = Math.floor((maxLat - minLat) / dLat);
-  let cols = Math.floor((maxLon - minLon) / dLon);
-  let estimated = rows * cols;
-
-  // Auto-coarsen: double cell size until under the cap
-  while (estimated > GAME.MAX_GRID_CELLS && cellSizeMeters < 10_000) {
-    cellSizeMeters = Math.round(cellSizeMeters * 1.5);
-    const newDLat = cellSizeMeters / METERS_PER_DEG_LAT;
-    const newDLon = cellSizeMeters / (METERS_PER_DEG_LAT * Math.cos(centerLat * DEG_TO_RAD));
-    rows = Math.floor((maxLat - minLat) / newDLat);
-    cols = Math.floor((maxLon - minLon) / newDLon);
-    estimated = rows * cols;
-  }
-
-  return { minLat, maxLat, minLon, maxLon, cellSizeMeters };
-}
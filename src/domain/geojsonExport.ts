@@ -0,0 +1,69 @@
+import type { DominanceResult, LonLat, Region, TerritoryFeature, TerritoryFeatureCollection } from './types';
+import { BEER_MAP } from './beers';
+import { traceRegionShapes } from './contours';
+import { extractRegions } from './regions';
+
+function closeRing(ring: LonLat[]): LonLat[] {
+  return ring.length > 0 ? [...ring, ring[0]] : ring;
+}
+
+/**
+ * Serialize the territories of a DominanceResult as a GeoJSON
+ * FeatureCollection: one MultiPolygon feature per region, carrying the
+ * region stats and the GridSpec it was computed on. Pass `regions` when
+ * extractRegions() already ran for this result; they must be in its order,
+ * which is also the order of traceRegionShapes.
+ */
+export function buildTerritoryGeoJSON(
+  data: DominanceResult,
+  regions: Region[] = extractRegions(data),
+): TerritoryFeatureCollection {
+  const shapes = traceRegionShapes(data);
+  const features: TerritoryFeature[] = [];
+
+  regions.forEach((region, index) => {
+    const shape = shapes[index];
+    if (!shape) return;
+    const beer = BEER_MAP.get(region.beerId);
+    const runnerUp = region.runnerUpBeerId ? BEER_MAP.get(region.runnerUpBeerId) : undefined;
+
+    features.push({
+      type: 'Feature',
+      id: region.id,
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: shape.polygons.map((rings) => rings.map(closeRing)),
+      },
+      properties: {
+        regionId: region.id,
+        beerId: region.beerId,
+        beerName: beer?.name ?? region.beerId,
+        placeName: region.placeName,
+        color: beer?.color ?? '#cccccc',
+        cellCount: region.cellCount,
+        avgMargin: region.avgMargin,
+        totalVotes: region.totalVotes,
+        runnerUpBeerId: region.runnerUpBeerId,
+        runnerUpName: runnerUp?.name ?? region.runnerUpBeerId,
+        gridSpec: { ...data.gridSpec },
+      },
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Trigger a browser download of the collection as a .geojson file.
+ */
+export function downloadGeoJSON(collection: TerritoryFeatureCollection, filename: string): void {
+  const blob = new Blob([JSON.stringify(collection)], { type: 'application/geo+json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
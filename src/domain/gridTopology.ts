@@ -0,0 +1,130 @@
+import type { GridShape, GridSpec } from './types';
+
+/**
+ * Neighbourhoods of square and hex grids, both stored row-major as
+ * rows × cols. Hex grids use pointy-top cells in "odd-r" offset layout: odd
+ * rows sit half a cell east of even rows. Positions are in grid units:
+ * x = column (plus ½ on odd hex rows), y = row; cell centers at (cellX, row).
+ */
+
+/** [dRow, dCol] offsets */
+type Offsets = readonly (readonly [number, number])[];
+
+const SQUARE_EDGES: Offsets = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const SQUARE_BLOCK: Offsets = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 0], [0, 1],
+  [1, -1], [1, 0], [1, 1],
+];
+// Even rows reach north/south to their own and the western column,
+// odd rows to their own and the eastern one
+const HEX_EDGES_EVEN: Offsets = [[0, -1], [0, 1], [-1, -1], [-1, 0], [1, -1], [1, 0]];
+const HEX_EDGES_ODD: Offsets = [[0, -1], [0, 1], [-1, 0], [-1, 1], [1, 0], [1, 1]];
+const HEX_BLOCK_EVEN: Offsets = [[0, 0], ...HEX_EDGES_EVEN];
+const HEX_BLOCK_ODD: Offsets = [[0, 0], ...HEX_EDGES_ODD];
+
+export function gridShape(spec: GridSpec): GridShape {
+  return spec.shape ?? 'square';
+}
+
+/** Cells sharing an edge with a cell in `row`: 4 on squares, 6 on hexes */
+export function edgeNeighbours(shape: GridShape, row: number): Offsets {
+  if (shape === 'square') return SQUARE_EDGES;
+  return row & 1 ? HEX_EDGES_ODD : HEX_EDGES_EVEN;
+}
+
+/**
+ * Cells voting in a majority smoothing pass, the cell itself included:
+ * the 3×3 block on squares, the cell and its 6 neighbours on hexes.
+ */
+export function smoothingNeighbourhood(shape: GridShape, row: number): Offsets {
+  if (shape === 'square') return SQUARE_BLOCK;
+  return row & 1 ? HEX_BLOCK_ODD : HEX_BLOCK_EVEN;
+}
+
+/** Horizontal position of a cell center in grid units */
+export function cellX(shape: GridShape, row: number, col: number): number {
+  return shape === 'hex' && row & 1 ? col + 0.5 : col;
+}
+
+// ── Axial hex coordinates ─────────────────────────────────
+
+/** Axial (q, r) of an odd-r offset cell; r is the row */
+export function offsetToAxial(row: number, col: number): { q: number; r: number } {
+  return { q: col - (row - (row & 1)) / 2, r: row };
+}
+
+export function axialToOffset(q: number, r: number): { row: number; col: number } {
+  return { row: r, col: q + (r - (r & 1)) / 2 };
+}
+
+/** Hex containing a fractional grid position (x, y), as axial coordinates */
+export function axialAt(x: number, y: number): { q: number; r: number } {
+  // x = q + r/2 for pointy-top axial coordinates with unit spacing
+  const fq = x - y / 2;
+  const fr = y;
+  const fs = -fq - fr;
+  let q = Math.round(fq);
+  let r = Math.round(fr);
+  const s = Math.round(fs);
+  const dq = Math.abs(q - fq);
+  const dr = Math.abs(r - fr);
+  const ds = Math.abs(s - fs);
+  if (dq > dr && dq > ds) q = -r - s;
+  else if (dr > ds) r = -q - s;
+  return { q, r };
+}
+
+/** Hex steps between two cells */
+export function hexDistance(a: { row: number; col: number }, b: { row: number; col: number }): number {
+  const p = offsetToAxial(a.row, a.col);
+  const o = offsetToAxial(b.row, b.col);
+  return (Math.abs(p.q - o.q) + Math.abs(p.r - o.r) + Math.abs(p.q + p.r - o.q - o.r)) / 2;
+}
+
+// ── Edges ─────────────────────────────────────────────────
+
+/** [x, y] in grid units */
+export type GridPoint = [number, number];
+
+/** Pointy-top corners counter-clockwise from the upper right, relative to the center */
+export const HEX_CORNERS: readonly GridPoint[] = [
+  [0.5, 1 / 3], [0, 2 / 3], [-0.5, 1 / 3], [-0.5, -1 / 3], [0, -2 / 3], [0.5, -1 / 3],
+];
+
+/** Neighbour across hex edge HEX_CORNERS[k] → HEX_CORNERS[k + 1], as [dRow, dx] */
+export const HEX_EDGE_DIRECTIONS: readonly GridPoint[] = [
+  [1, 0.5], [1, -0.5], [0, -1], [-1, -0.5], [-1, 0.5], [0, 1],
+];
+
+/** Corners of a cell counter-clockwise, in grid units */
+export function cellCorners(shape: GridShape, row: number, col: number): GridPoint[] {
+  const x = cellX(shape, row, col);
+  if (shape === 'square') {
+    return [[x + 0.5, row + 0.5], [x - 0.5, row + 0.5], [x - 0.5, row - 0.5], [x + 0.5, row - 0.5]];
+  }
+  return HEX_CORNERS.map(([dx, dy]) => [x + dx, row + dy]);
+}
+
+/**
+ * Edges to visit once each when walking all cells: towards the east and
+ * south neighbours only, as [dRow, dCol].
+ */
+export function forwardNeighbours(shape: GridShape, row: number): Offsets {
+  if (shape === 'square') return [[0, 1], [-1, 0]];
+  return row & 1 ? [[0, 1], [-1, 0], [-1, 1]] : [[0, 1], [-1, -1], [-1, 0]];
+}
+
+/** End points of the edge between a cell and its neighbour at (dRow, dCol) */
+export function sharedEdge(shape: GridShape, row: number, col: number, dRow: number, dCol: number): [GridPoint, GridPoint] {
+  const x = cellX(shape, row, col);
+  if (shape === 'square') {
+    if (dRow === 0) return [[x + dCol / 2, row - 0.5], [x + dCol / 2, row + 0.5]];
+    return [[x - 0.5, row + dRow / 2], [x + 0.5, row + dRow / 2]];
+  }
+  const dx = cellX(shape, row + dRow, col + dCol) - x;
+  const k = HEX_EDGE_DIRECTIONS.findIndex(([r, c]) => r === dRow && c === dx);
+  const a = HEX_CORNERS[k];
+  const b = HEX_CORNERS[(k + 1) % 6];
+  return [[x + a[0], row + a[1]], [x + b[0], row + b[1]]];
+}
@@ -0,0 +1,147 @@
+import type {
+  DominanceResult,
+  DominanceSnapshot,
+  DrinkVote,
+  DuelOutcome,
+  GridSpec,
+  OnTheRoadVote,
+  PlayArea,
+  Team,
+  User,
+  Vote,
+  WeightedVote,
+} from './types';
+import { GAME } from '../config/constants';
+import { getDefaultBoundingBox } from './geo';
+import { getPlayArea } from './playAreas';
+import { buildWeightedVotes } from './weights';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Oldest moment the time-lapse reaches back to */
+export function historyStart(now: number): number {
+  return now - GAME.HISTORY_DAYS * DAY_MS;
+}
+
+// ── Snapshots ─────────────────────────────────────────────
+
+/** Interval slot a moment falls into; one snapshot per area and slot */
+function slotOf(at: number): number {
+  return Math.floor(at / (GAME.SNAPSHOT_INTERVAL_HOURS * HOUR_MS));
+}
+
+/** The coarse whole-area grid snapshots are taken on */
+export function snapshotGridSpec(area: PlayArea): GridSpec {
+  return { ...getDefaultBoundingBox(area), cellSizeMeters: GAME.SNAPSHOT_CELL_SIZE_METERS };
+}
+
+/**
+ * Keep only the winners of a result, run-length encoded. The id names the
+ * area and interval slot, so clients taking the same slot overwrite one
+ * document instead of adding duplicates.
+ */
+export function encodeSnapshot(data: DominanceResult, takenAt: number): DominanceSnapshot {
+  const areaId = getPlayArea(data.gridSpec.areaId).id;
+  const winners: number[] = [];
+  const n = data.rows * data.cols;
+  for (let i = 0; i < n; ) {
+    const ref = data.winner[i];
+    let run = 1;
+    while (i + run < n && data.winner[i + run] === ref) run++;
+    winners.push(ref, run);
+    i += run;
+  }
+  return {
+    id: `${areaId}_${slotOf(takenAt)}`,
+    areaId,
+    takenAt,
+    gridSpec: data.gridSpec,
+    rows: data.rows,
+    cols: data.cols,
+    beerIds: [...data.beerIds],
+    winners,
+  };
+}
+
+/**
+ * Winner grid of a snapshot as a DominanceResult. Weights are not kept:
+ * every held cell reads as uncontested (margin 1, no runner-up).
+ */
+export function decodeSnapshot(snapshot: DominanceSnapshot): DominanceResult {
+  const n = snapshot.rows * snapshot.cols;
+  const winner = new Uint8Array(n);
+  const margin = new Float32Array(n);
+  let i = 0;
+  for (let k = 0; k < snapshot.winners.length; k += 2) {
+    const ref = snapshot.winners[k];
+    const end = Math.min(n, i + snapshot.winners[k + 1]);
+    for (; i < end; i++) {
+      winner[i] = ref;
+      margin[i] = ref === 0 ? 0 : 1;
+    }
+  }
+  return {
+    rows: snapshot.rows,
+    cols: snapshot.cols,
+    gridSpec: snapshot.gridSpec,
+    beerIds: [...snapshot.beerIds],
+    winner,
+    runnerUp: new Uint8Array(n),
+    margin,
+    totalWeight: new Float32Array(n),
+    weightOffsets: new Uint32Array(n + 1),
+    weightBeer: new Uint8Array(0),
+    weightValue: new Float32Array(0),
+  };
+}
+
+/** True when no snapshot has been taken in the current interval slot */
+export function isSnapshotDue(snapshots: DominanceSnapshot[], now: number): boolean {
+  const slot = slotOf(now);
+  return !snapshots.some(s => slotOf(s.takenAt) === slot);
+}
+
+/** Newest snapshot taken at or before `at`, if it is less than an interval older */
+export function snapshotAt(snapshots: DominanceSnapshot[], at: number): DominanceSnapshot | null {
+  let best: DominanceSnapshot | null = null;
+  for (const s of snapshots) {
+    if (s.takenAt <= at && (!best || s.takenAt > best.takenAt)) best = s;
+  }
+  if (!best || at - best.takenAt >= GAME.SNAPSHOT_INTERVAL_HOURS * HOUR_MS) return null;
+  return best;
+}
+
+// ── Replay ────────────────────────────────────────────────
+
+/**
+ * Weighted votes as they stood at `at`: users, OTR votes and check-ins that
+ * did not exist yet are left out, and weights, decay and expiry are
+ * evaluated with `at` as the current time. Home positions and beers are
+ * today's; the store keeps no history of them, and OTR votes and check-ins
+ * are purged once they expire, so only the ones still stored take part.
+ */
+export function replayWeightedVotes(
+  allUsers: User[],
+  allOTRVotes: OnTheRoadVote[],
+  allTeams: Team[],
+  allOutcomes: Map<string, DuelOutcome[]>,
+  allDrinkVotes: DrinkVote[],
+  at: number,
+  area?: PlayArea,
+): WeightedVote[] {
+  return buildWeightedVotes(
+    allUsers.filter(u => u.createdAt <= at),
+    allOTRVotes.filter(v => v.createdAt <= at),
+    allTeams,
+    allOutcomes,
+    allDrinkVotes.filter(v => v.createdAt <= at),
+    at,
+    area,
+  );
+}
+
+/** Plain votes placed at or before `at` */
+export function replayVotes(votes: Vote[], at: number): Vote[] {
+  return votes.filter(v => v.timestamp <= at);
+}
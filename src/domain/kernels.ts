@@ -0,0 +1,30 @@
+import type { InfluenceKernel, InfluenceKernels } from './types';
+import { GAME } from '../config/constants';
+
+/** Kernels from GAME config */
+export const DEFAULT_KERNELS: InfluenceKernels = GAME.INFLUENCE_KERNELS;
+
+/**
+ * Share (0..1) of a vote's weight that reaches a point `distKm` away.
+ * Every kernel is 1 at the center and 0 beyond `radiusKm`, so a vote never
+ * reaches further than its flat disc would.
+ */
+export function kernelFactor(kernel: InfluenceKernel, distKm: number, radiusKm: number): number {
+  if (distKm > radiusKm) return 0;
+  switch (kernel) {
+    case 'flat':
+      return 1;
+    case 'linear':
+      return radiusKm > 0 ? 1 - distKm / radiusKm : 1;
+    case 'gaussian': {
+      const sigma = radiusKm * GAME.KERNEL_GAUSSIAN_SIGMA;
+      return sigma > 0 ? Math.exp(-(distKm * distKm) / (2 * sigma * sigma)) : 1;
+    }
+    case 'inverse-square': {
+      const scale = radiusKm * GAME.KERNEL_INVERSE_SQUARE_SCALE;
+      if (scale <= 0) return 1;
+      const q = distKm / scale;
+      return 1 / (1 + q * q);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { GridCell, GridSpec, LonLat, PlayArea } from './types';
+import { getActivePlayArea, getPlayArea, PLAY_AREAS } from './playAreas';
+
+interface MaskRing {
+  ring: LonLat[];
+  minLat: number;
+  maxLat: number;
+}
+
+function toMaskRing(ring: LonLat[]): MaskRing {
+  const lats = ring.map(p => p[1]);
+  return { ring, minLat: Math.min(...lats), maxLat: Math.max(...lats) };
+}
+
+interface AreaRings {
+  land: MaskRing[];
+  water: MaskRing[];
+}
+
+const areaRings = new Map<string, AreaRings>();
+
+function ringsOf(area: PlayArea): AreaRings {
+  let rings = areaRings.get(area.id);
+  if (!rings) {
+    rings = { land: area.land.map(toMaskRing), water: area.water.map(toMaskRing) };
+    areaRings.set(area.id, rings);
+  }
+  return rings;
+}
+
+/** Sorted longitudes where the parallel at `lat` crosses the ring */
+function crossings({ ring, minLat, maxLat }: MaskRing, lat: number): number[] {
+  const xs: number[] = [];
+  if (lat < minLat || lat > maxLat) return xs;
+  for (let k = 0, m = ring.length - 1; k < ring.length; m = k++) {
+    const [lonK, latK] = ring[k];
+    const [lonM, latM] = ring[m];
+    if ((latK > lat) !== (latM > lat)) {
+      xs.push(lonK + ((lat - latK) * (lonM - lonK)) / (latM - latK));
+    }
+  }
+  return xs.sort((a, b) => a - b);
+}
+
+/** Inside when an odd number of crossings lie west of `lon` */
+function insideRow(xs: number[], lon: number): boolean {
+  let west = 0;
+  while (west < xs.length && xs[west] < lon) west++;
+  return (west & 1) === 1;
+}
+
+/** One parallel cut through all rings, reusable for every point on it */
+function scanline(rings: AreaRings, lat: number): { land: number[][]; water: number[][] } {
+  return {
+    land: rings.land.map(r => crossings(r, lat)).filter(xs => xs.length > 0),
+    water: rings.water.map(r => crossings(r, lat)).filter(xs => xs.length > 0),
+  };
+}
+
+function onLand(line: { land: number[][]; water: number[][] }, lon: number): boolean {
+  return line.land.some(xs => insideRow(xs, lon)) && !line.water.some(xs => insideRow(xs, lon));
+}
+
+/** True on the area's land, false abroad, at sea and on the major lakes. */
+export function isPlayableLand(lat: number, lon: number, area: PlayArea = getActivePlayArea()): boolean {
+  return onLand(scanline(ringsOf(area), lat), lon);
+}
+
+/** The play area whose land holds a location, or null outside all of them. */
+export function playAreaAt(lat: number, lon: number): PlayArea | null {
+  return PLAY_AREAS.find(area => isPlayableLand(lat, lon, area)) ?? null;
+}
+
+/**
+ * The play area a home location belongs to. Homes outside every area (such
+ * as profiles from before play areas, or unset 0/0 homes) count as DACH.
+ */
+export function playAreaForHome(lat: number, lon: number): PlayArea {
+  return playAreaAt(lat, lon) ?? getPlayArea();
+}
+
+const MASK_CACHE_MAX = 32;
+const maskCache = new Map<string, Uint8Array>();
+
+function specKey(spec: GridSpec): string {
+  return [spec.minLat, spec.maxLat, spec.minLon, spec.maxLon, spec.cellSizeMeters, spec.refLat, spec.shape, spec.areaId].join('|');
+}
+
+/**
+ * Playable-land flag per cell (1 = land) of the grid precomputeGrid builds
+ * for `spec`, on the land of the spec's play area. Rows share one
+ * scanline, and masks are cached per GridSpec, so repeated jobs on the same
+ * grid cost nothing.
+ */
+export function gridLandMask(spec: GridSpec, cells: GridCell[]): Uint8Array {
+  const key = specKey(spec);
+  const cached = maskCache.get(key);
+  if (cached && cached.length === cells.length) return cached;
+
+  const rings = ringsOf(getPlayArea(spec.areaId));
+  const mask = new Uint8Array(cells.length);
+  let line: ReturnType<typeof scanline> | null = null;
+  let lineLat = NaN;
+  for (let i = 0; i < cells.length; i++) {
+    const cell = cells[i];
+    if (cell.centerLat !== lineLat) {
+      lineLat = cell.centerLat;
+      line = scanline(rings, lineLat);
+    }
+    mask[i] = onLand(line!, cell.centerLon) ? 1 : 0;
+  }
+
+  maskCache.set(key, mask);
+  while (maskCache.size > MASK_CACHE_MAX) {
+    maskCache.delete(maskCache.keys().next().value!);
+  }
+  return mask;
+}
@@ -0,0 +1,28 @@
+import type { Duel } from './types';
+import { getNow } from './clock';
+import { GAME } from '../config/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Size that fits `maxEdge` on the longer side, keeping the aspect ratio; never scales up */
+export function fitWithin(
+  width: number,
+  height: number,
+  maxEdge: number = GAME.PHOTO_MAX_EDGE_PX,
+): { width: number; height: number } {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/** Photos sent before this are purged (PHOTO_TTL_DAYS) */
+export function photoCutoff(now: number = getNow()): number {
+  return now - GAME.PHOTO_TTL_DAYS * DAY_MS;
+}
+
+/** Id of the photo (and its message) for the round `duel` has just played */
+export function roundPhotoId(duel: Duel): string {
+  return `${duel.id}_r${duel.roundCount}`;
+}
@@ -0,0 +1,110 @@
+import type { PlayArea } from './types';
+import { BEERS, BELGIAN_BEERS, CZECH_BEERS } from './beers';
+import { BELGIUM, CZECH_LAKES, CZECHIA, DACH_COUNTRIES, DACH_LAKES } from './areaShapes';
+
+export const DEFAULT_PLAY_AREA_ID = 'dach';
+
+export const PLAY_AREAS: PlayArea[] = [
+  {
+    id: 'dach',
+    name: 'DACH',
+    locale: 'de-DE',
+    // Lat 45.8 (southern Switzerland) → 55.1 (northern Germany),
+    // lon 5.8 (western Germany) → 17.2 (eastern Austria)
+    bounds: { minLat: 45.8, maxLat: 55.1, minLon: 5.8, maxLon: 17.2 },
+    center: { lat: 48.5, lon: 11.5 },
+    land: DACH_COUNTRIES.map(c => c.ring),
+    water: DACH_LAKES.map(l => l.ring),
+    beers: BEERS,
+    seedCities: [
+      { name: 'München', lat: 48.137, lon: 11.576 },
+      { name: 'Berlin', lat: 52.52, lon: 13.405 },
+      { name: 'Köln', lat: 50.938, lon: 6.96 },
+      { name: 'Stuttgart', lat: 48.776, lon: 9.183 },
+      { name: 'Frankfurt', lat: 50.111, lon: 8.682 },
+      { name: 'Hamburg', lat: 53.551, lon: 9.994 },
+      { name: 'Düsseldorf', lat: 51.227, lon: 6.774 },
+      { name: 'Leipzig', lat: 51.34, lon: 12.375 },
+      { name: 'Dresden', lat: 51.051, lon: 13.738 },
+      { name: 'Nürnberg', lat: 49.453, lon: 11.078 },
+      { name: 'Wien', lat: 48.208, lon: 16.373 },
+      { name: 'Graz', lat: 47.071, lon: 15.439 },
+      { name: 'Innsbruck', lat: 47.263, lon: 11.394 },
+      { name: 'Salzburg', lat: 47.811, lon: 13.055 },
+      { name: 'Zürich', lat: 47.377, lon: 8.541 },
+      { name: 'Bern', lat: 46.948, lon: 7.448 },
+      { name: 'Genf', lat: 46.204, lon: 6.143 },
+      { name: 'Basel', lat: 47.559, lon: 7.589 },
+    ],
+  },
+  {
+    id: 'be',
+    name: 'Belgien',
+    locale: 'nl-BE',
+    bounds: { minLat: 49.45, maxLat: 51.55, minLon: 2.5, maxLon: 6.45 },
+    center: { lat: 50.64, lon: 4.67 },
+    land: [BELGIUM],
+    water: [],
+    beers: BELGIAN_BEERS,
+    seedCities: [
+      { name: 'Brussel', lat: 50.847, lon: 4.357 },
+      { name: 'Antwerpen', lat: 51.219, lon: 4.402 },
+      { name: 'Gent', lat: 51.054, lon: 3.717 },
+      { name: 'Brugge', lat: 51.209, lon: 3.225 },
+      { name: 'Leuven', lat: 50.88, lon: 4.7 },
+      { name: 'Liège', lat: 50.633, lon: 5.567 },
+      { name: 'Namur', lat: 50.467, lon: 4.867 },
+      { name: 'Charleroi', lat: 50.411, lon: 4.444 },
+      { name: 'Mons', lat: 50.454, lon: 3.952 },
+      { name: 'Hasselt', lat: 50.931, lon: 5.338 },
+      { name: 'Oostende', lat: 51.216, lon: 2.928 },
+      { name: 'Mechelen', lat: 51.026, lon: 4.478 },
+    ],
+  },
+  {
+    id: 'cz',
+    name: 'Tschechien',
+    locale: 'cs-CZ',
+    bounds: { minLat: 48.5, maxLat: 51.1, minLon: 12.05, maxLon: 18.9 },
+    center: { lat: 49.8, lon: 15.5 },
+    land: [CZECHIA],
+    water: CZECH_LAKES.map(l => l.ring),
+    beers: CZECH_BEERS,
+    seedCities: [
+      { name: 'Praha', lat: 50.075, lon: 14.437 },
+      { name: 'Brno', lat: 49.195, lon: 16.607 },
+      { name: 'Ostrava', lat: 49.82, lon: 18.262 },
+      { name: 'Plzeň', lat: 49.738, lon: 13.373 },
+      { name: 'Liberec', lat: 50.767, lon: 15.056 },
+      { name: 'Olomouc', lat: 49.594, lon: 17.251 },
+      { name: 'České Budějovice', lat: 48.975, lon: 14.474 },
+      { name: 'Hradec Králové', lat: 50.209, lon: 15.833 },
+      { name: 'Ústí nad Labem', lat: 50.661, lon: 14.032 },
+      { name: 'Pardubice', lat: 50.034, lon: 15.781 },
+      { name: 'Zlín', lat: 49.226, lon: 17.667 },
+      { name: 'Karlovy Vary', lat: 50.231, lon: 12.872 },
+    ],
+  },
+];
+
+const AREA_MAP = new Map(PLAY_AREAS.map(a => [a.id, a]));
+
+/** Play area by id; unknown or missing ids fall back to DACH */
+export function getPlayArea(id?: string): PlayArea {
+  return AREA_MAP.get(id ?? DEFAULT_PLAY_AREA_ID) ?? AREA_MAP.get(DEFAULT_PLAY_AREA_ID)!;
+}
+
+/**
+ * The area the app currently plays in, decided by the signed-in user's home.
+ * Module state like the mock clock: workers never read it, they get the area
+ * through GridSpec.areaId.
+ */
+let activeAreaId = DEFAULT_PLAY_AREA_ID;
+
+export function getActivePlayArea(): PlayArea {
+  return getPlayArea(activeAreaId);
+}
+
+export function setActivePlayArea(id: string): void {
+  activeAreaId = getPlayArea(id).id;
+}
@@ -0,0 +1,56 @@
+import type { GridSpec } from './types';
+
+/**
+ * Spherical Web Mercator (EPSG:3857), the projection Leaflet draws its tiles
+ * in. Grids are laid out in projected meters, so every column has one fixed
+ * longitude span, every row one fixed projected height, and cells come out as
+ * exact rectangles (or regular hexagons) on the map.
+ */
+
+const DEG_TO_RAD = Math.PI / 180;
+/** Sphere radius of EPSG:3857 and Leaflet's L.Projection.SphericalMercator */
+const MERCATOR_RADIUS_M = 6_378_137;
+/** Hex rows are √3/2 of the center spacing apart */
+const HEX_ROW_FACTOR = Math.sqrt(3) / 2;
+
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+export function project(lat: number, lon: number): ProjectedPoint {
+  return {
+    x: MERCATOR_RADIUS_M * lon * DEG_TO_RAD,
+    y: MERCATOR_RADIUS_M * Math.log(Math.tan(Math.PI / 4 + (lat * DEG_TO_RAD) / 2)),
+  };
+}
+
+export function unproject(x: number, y: number): { lat: number; lon: number } {
+  return {
+    lat: (2 * Math.atan(Math.exp(y / MERCATOR_RADIUS_M)) - Math.PI / 2) / DEG_TO_RAD,
+    lon: x / MERCATOR_RADIUS_M / DEG_TO_RAD,
+  };
+}
+
+/** Where a grid lies on the projection: its south-west corner and cell pitch */
+export interface GridFrame {
+  /** Projected south-west corner */
+  x0: number;
+  y0: number;
+  /** Projected meters between neighbouring columns */
+  colStep: number;
+  /** Projected meters between rows; √3/2 of colStep on hex grids */
+  rowStep: number;
+}
+
+/**
+ * Mercator stretches distances by 1 / cos(lat); cells are `cellSizeMeters`
+ * wide on the ground at the reference latitude (`spec.refLat`, else the
+ * middle of the grid) and keep their projected size everywhere else.
+ */
+export function gridFrame(spec: GridSpec): GridFrame {
+  const refLat = spec.refLat ?? (spec.minLat + spec.maxLat) / 2;
+  const colStep = spec.cellSizeMeters / Math.cos(refLat * DEG_TO_RAD);
+  const { x: x0, y: y0 } = project(spec.minLat, spec.minLon);
+  return { x0, y0, colStep, rowStep: spec.shape === 'hex' ? colStep * HEX_ROW_FACTOR : colStep };
+}
@@ -1,4 +1,5 @@
-import type { AppEvent, QuestDefinition, QuestProgress, QuestState, OverlaySettings } from './types';
+import type { AppEvent, QuestDefinition, QuestProgress, QuestState, OverlaySettings, RegionGraph } from './types';
+import { isOnContestedFront } from './frontlines';
 
 export interface QuestEvalResult {
   newState: QuestState;
@@ -17,12 +18,15 @@ function ensureProgress(state: QuestState, quest: QuestDefinition): QuestProgres
 
 /**
  * Pure reducer: evaluate an AppEvent against quest catalog and return new state + completions.
+ * `beerId` is the player's beer, for quests about their side.
  */
 export function evaluateEvent(
   event: AppEvent,
   state: QuestState,
   catalog: QuestDefinition[],
-  settings: OverlaySettings
+  settings: OverlaySettings,
+  graph: RegionGraph | null = null,
+  beerId: string | null = null
 ): QuestEvalResult {
   const newProgress = { ...state.progress };
   const completions: QuestDefinition[] = [];
@@ -53,10 +57,14 @@ export function evaluateEvent(
       }
 
       case 'border-patrol': {
-        // Track close-margin regions visited
+        // Track regions on a contested frontline; without a graph fall
+        // back to the region's own average margin
         if (event.type === 'region:hovered' || event.type === 'region:clicked') {
           const region = event.region;
-          if (region.avgMargin <= settings.closeMarginThreshold) {
+          const onFront = graph
+            ? isOnContestedFront(graph, region.id)
+            : region.avgMargin <= settings.closeMarginThreshold;
+          if (onFront) {
             const regionId = region.id;
             if (!updated.trackedIds.includes(regionId)) {
               updated = {
@@ -84,6 +92,21 @@ export function evaluateEvent(
         }
         break;
       }
+
+      case 'conqueror': {
+        // Track territory the player's beer took (from a rival or from nobody)
+        if (event.type === 'territory:flipped' || event.type === 'territory:gained') {
+          const { change } = event;
+          if (beerId && change.toBeerId === beerId && !updated.trackedIds.includes(change.id)) {
+            updated = {
+              ...updated,
+              trackedIds: [...updated.trackedIds, change.id],
+              currentCount: updated.currentCount + 1,
+            };
+          }
+        }
+        break;
+      }
     }
 
     // Check for completion
@@ -22,4 +22,11 @@ export const QUEST_CATALOG: QuestDefinition[] = [
     icon: '\uD83D\uDDFA\uFE0F', // 🗺️
     targetCount: 10,
   },
+  {
+    id: 'conqueror',
+    title: 'Eroberer',
+    description: 'Erlebe mit, wie dein Bier 3 Gebiete erobert',
+    icon: '\uD83D\uDEA9',       // 🚩
+    targetCount: 3,
+  },
 ];
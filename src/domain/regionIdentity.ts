@@ -0,0 +1,120 @@
+import type { DominanceResult, Region } from './types';
+import { cellIndexAt, gridToLatLon } from './geo';
+import { GAME } from '../config/constants';
+
+const STEP = GAME.REGION_LATTICE_DEG;
+
+/** Lattice nodes covered by a region, south to north, then west to east */
+export type Footprint = string[];
+
+function nodeKey(i: number, j: number): string {
+  return `${i},${j}`;
+}
+
+/**
+ * Nodes of the fixed world lattice (every REGION_LATTICE_DEG in lat and lon)
+ * covered by each region. Unlike rows and cols, node keys mean the same
+ * place for every GridSpec.
+ */
+export function regionFootprints(data: DominanceResult, labels: Int32Array, regionCount: number): Footprint[] {
+  const { rows, cols, gridSpec: gs } = data;
+  const footprints = Array.from({ length: regionCount }, (): Footprint => []);
+  // Half a cell extra for the shifted odd rows of hex grids
+  const { lat: maxLat, lon: maxLon } = gridToLatLon(gs, cols, rows);
+
+  for (let i = Math.ceil(gs.minLat / STEP); i * STEP < maxLat; i++) {
+    const lat = i * STEP;
+    for (let j = Math.ceil(gs.minLon / STEP); j * STEP < maxLon; j++) {
+      const cell = cellIndexAt(gs, rows, cols, lat, j * STEP);
+      if (!cell) continue;
+      const label = labels[cell.row * cols + cell.col];
+      if (label >= 0) footprints[label].push(nodeKey(i, j));
+    }
+  }
+  return footprints;
+}
+
+/**
+ * Geographic id of a region: its beer plus its south-west-most lattice node.
+ * Only the outline decides the anchor, so vote weights shifting inside a
+ * territory keep its id. Regions too small to cover a node use the node
+ * nearest their centroid.
+ */
+export function anchorRegionId(region: Region, footprint: Footprint): string {
+  const anchor = footprint[0] ??
+    nodeKey(Math.round(region.centroidLat / STEP), Math.round(region.centroidLon / STEP));
+  return `${region.beerId}@${anchor}`;
+}
+
+/**
+ * Carries region ids across recomputes (viewport pans, zooms, vote changes).
+ * A region takes the id most of its lattice nodes carried before, if that
+ * id belongs to the same beer and no bigger region claimed it first;
+ * otherwise it keeps its anchor id from extractRegions. The anchor only
+ * sees the part of a region inside the grid, so the node table is what
+ * keeps ids stable; it can be saved and restored through `entries()`.
+ */
+export class RegionIdRegistry {
+  /** Last id seen on each lattice node */
+  private nodes: Map<string, string>;
+
+  constructor(entries: Iterable<[string, string]> = []) {
+    this.nodes = new Map(entries);
+  }
+
+  /** Node table, for persisting */
+  entries(): [string, string][] {
+    return [...this.nodes];
+  }
+
+  /**
+   * Takes `data` and its extractRegionsWithLabels output. Nodes outside
+   * the grid keep their ids: a region panned out of view still owns them.
+   */
+  assign(data: DominanceResult, { regions, footprints }: { regions: Region[]; footprints: Footprint[] }): Region[] {
+    const claimed = new Set<string>();
+
+    const assigned = regions.map((region, label) => {
+      const footprint = footprints[label];
+      const prefix = `${region.beerId}@`;
+
+      const votes = new Map<string, number>();
+      for (const key of footprint) {
+        const id = this.nodes.get(key);
+        if (id?.startsWith(prefix) && !claimed.has(id)) votes.set(id, (votes.get(id) ?? 0) + 1);
+      }
+      let id = region.id;
+      let best = 0;
+      for (const [candidate, count] of votes) {
+        if (count > best || (count === best && candidate < id)) {
+          id = candidate;
+          best = count;
+        }
+      }
+
+      id = uniqueId(id, claimed);
+      claimed.add(id);
+      return id === region.id ? region : { ...region, id };
+    });
+
+    // Nodes in view belong to whatever holds them now, or to nobody
+    const { minLat, minLon } = data.gridSpec;
+    const { lat: maxLat, lon: maxLon } = gridToLatLon(data.gridSpec, data.cols, data.rows);
+    for (const key of this.nodes.keys()) {
+      const [i, j] = key.split(',').map(Number);
+      if (i * STEP >= minLat && i * STEP < maxLat && j * STEP >= minLon && j * STEP < maxLon) this.nodes.delete(key);
+    }
+    assigned.forEach((region, label) => {
+      for (const key of footprints[label]) this.nodes.set(key, region.id);
+    });
+    return assigned;
+  }
+}
+
+/** `id`, or `id~2`, `id~3`, … if already taken */
+export function uniqueId(id: string, taken: Set<string>): string {
+  if (!taken.has(id)) return id;
+  let n = 2;
+  while (taken.has(`${id}~${n}`)) n++;
+  return `${id}~${n}`;
+}
@@ -1,24 +1,34 @@
 import type { DominanceResult, Region } from './types';
-import { metersToDegLat, metersToDegLon } from './geo';
+import { gridToLatLon } from './geo';
+import { placeNameAt } from './gazetteer';
+import { cellX, edgeNeighbours, gridShape } from './gridTopology';
+import { runnerUpAt, winnerAt, winnerGrid } from './dominanceColumns';
+import { anchorRegionId, regionFootprints, uniqueId, type Footprint } from './regionIdentity';
 
 /**
  * Extract connected regions from a DominanceResult via BFS flood-fill.
  * Each region is a connected component of cells with the same winnerBeerId.
+ * Region ids are anchored to a fixed world lattice (see regionIdentity), so
+ * the same territory gets the same id on any grid.
  */
 export function extractRegions(data: DominanceResult): Region[] {
-  const { rows, cols, cells, gridSpec: gs } = data;
-  const cellDLat = metersToDegLat(gs.cellSizeMeters);
+  return extractRegionsWithLabels(data).regions;
+}
 
-  // Build flat grid
-  const grid: (string | null)[] = new Array(rows * cols).fill(null);
-  const cellMap = new Map<number, (typeof cells)[0]>();
-  for (const cell of cells) {
-    const idx = cell.row * cols + cell.col;
-    grid[idx] = cell.winnerBeerId;
-    cellMap.set(idx, cell);
-  }
+/**
+ * Same as extractRegions, plus the region index of every cell
+ * (row-major, -1 for cells nobody holds) and each region's lattice footprint.
+ */
+export function extractRegionsWithLabels(
+  data: DominanceResult,
+): { regions: Region[]; labels: Int32Array; footprints: Footprint[] } {
+  const { rows, cols, gridSpec: gs } = data;
+  const shape = gridShape(gs);
+
+  const grid = winnerGrid(data);
 
   const visited = new Uint8Array(rows * cols);
+  const labels = new Int32Array(rows * cols).fill(-1);
   const regions: Region[] = [];
 
   for (let r = 0; r < rows; r++) {
@@ -40,35 +50,29 @@ export function extractRegions(data: DominanceResult): Region[] {
         const ci = queue.pop()!;
         const cr = (ci / cols) | 0;
         const cc = ci % cols;
+        labels[ci] = regions.length;
         sumRow += cr;
-        sumCol += cc;
+        sumCol += cellX(shape, cr, cc);
         count++;
         if (cr < minRow) minRow = cr;
         if (cr > maxRow) maxRow = cr;
         if (cc < minCol) minCol = cc;
         if (cc > maxCol) maxCol = cc;
 
-        const cellData = cellMap.get(ci);
-        if (cellData) {
-          marginSum += cellData.margin;
-          votesSum += cellData.totalCount;
-          if (cellData.runnerUpBeerId) {
-            runnerUpCounts.set(
-              cellData.runnerUpBeerId,
-              (runnerUpCounts.get(cellData.runnerUpBeerId) ?? 0) + 1
-            );
-          }
+        marginSum += data.margin[ci];
+        votesSum += data.totalWeight[ci];
+        const runnerUp = runnerUpAt(data, ci);
+        if (runnerUp) {
+          runnerUpCounts.set(runnerUp, (runnerUpCounts.get(runnerUp) ?? 0) + 1);
         }
 
-        // 4-connected neighbors
-        const neighbors = [
-          cr > 0 ? (cr - 1) * cols + cc : -1,
-          cr < rows - 1 ? (cr + 1) * cols + cc : -1,
-          cc > 0 ? cr * cols + (cc - 1) : -1,
-          cc < cols - 1 ? cr * cols + (cc + 1) : -1,
-        ];
-        for (const ni of neighbors) {
-          if (ni < 0 || visited[ni]) continue;
+        // Edge-connected neighbors: 4 on squares, 6 on hexes
+        for (const [dr, dc] of edgeNeighbours(shape, cr)) {
+          const nr = cr + dr;
+          const nc = cc + dc;
+          if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+          const ni = nr * cols + nc;
+          if (visited[ni]) continue;
           if (grid[ni] !== beerId) continue;
           visited[ni] = 1;
           queue.push(ni);
@@ -85,29 +89,39 @@ export function extractRegions(data: DominanceResult): Region[] {
         }
       }
 
-      const avgRow = sumRow / count;
-      const avgCol = sumCol / count;
-      const lat = gs.minLat + (avgRow + 0.5) * cellDLat;
-      const dLon = metersToDegLon(gs.cellSizeMeters, lat);
-      const lon = gs.minLon + (avgCol + 0.5) * dLon;
+      const { lat, lon } = gridToLatLon(gs, sumCol / count, sumRow / count);
 
       regions.push({
-        id: `${beerId}@${minRow},${minCol}`,
+        id: '',
         beerId,
         cellCount: count,
         centroidLat: lat,
         centroidLon: lon,
+        placeName: placeNameAt(lat, lon),
         boundingBox: { minRow, maxRow, minCol, maxCol },
         avgMargin: count > 0 ? marginSum / count : 1,
-        totalVotes: votesSum,
+        // Weights are float32 per cell; one decimal is all the UI shows
+        totalVotes: Math.round(votesSum * 10) / 10,
         runnerUpBeerId: topRunnerUp,
       });
     }
   }
 
   // Sort by cell count descending
-  regions.sort((a, b) => b.cellCount - a.cellCount);
-  return regions;
+  const order = regions.map((_, i) => i).sort((a, b) => regions[b].cellCount - regions[a].cellCount);
+  const rank = new Int32Array(regions.length);
+  order.forEach((from, to) => { rank[from] = to; });
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] >= 0) labels[i] = rank[labels[i]];
+  }
+  const sorted = order.map(i => regions[i]);
+  const footprints = regionFootprints(data, labels, sorted.length);
+  const taken = new Set<string>();
+  sorted.forEach((region, label) => {
+    region.id = uniqueId(anchorRegionId(region, footprints[label]), taken);
+    taken.add(region.id);
+  });
+  return { regions: sorted, labels, footprints };
 }
 
 /**
@@ -116,12 +130,12 @@ export function extractRegions(data: DominanceResult): Region[] {
 export function findRegionForCell(
   row: number, col: number, regions: Region[], data: DominanceResult
 ): Region | null {
-  const idx = row * data.cols + col;
-  const cell = data.cells[idx];
-  if (!cell || !cell.winnerBeerId) return null;
+  if (row < 0 || row >= data.rows || col < 0 || col >= data.cols) return null;
+  const beerId = winnerAt(data, row * data.cols + col);
+  if (!beerId) return null;
 
   return regions.find(r =>
-    r.beerId === cell.winnerBeerId &&
+    r.beerId === beerId &&
     row >= r.boundingBox.minRow && row <= r.boundingBox.maxRow &&
     col >= r.boundingBox.minCol && col <= r.boundingBox.maxCol
   ) ?? null;
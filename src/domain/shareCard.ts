@@ -1,10 +1,11 @@
-import type { SharePayload } from './types';
+import type { PlayArea, SharePayload } from './types';
 import { BEER_MAP } from './beers';
+import { getActivePlayArea } from './playAreas';
 
 /**
  * Generate a 1200x630 share card as a PNG data URL.
  */
-export function generateShareCard(payload: SharePayload): string {
+export function generateShareCard(payload: SharePayload, area: PlayArea = getActivePlayArea()): string {
   const W = 1200;
   const H = 630;
   const canvas = document.createElement('canvas');
@@ -40,7 +41,7 @@ export function generateShareCard(payload: SharePayload): string {
   // Subtitle
   ctx.fillStyle = '#94a3b8';
   ctx.font = '24px system-ui, -apple-system, sans-serif';
-  ctx.fillText('Bier-Dominanz-Karte \u2022 M\u00FCnchen', 60, 120);
+  ctx.fillText(`Bier-Dominanz-Karte \u2022 ${area.name}`, 60, 120);
 
   // Beer name
   ctx.fillStyle = color;
@@ -61,11 +62,11 @@ export function generateShareCard(payload: SharePayload): string {
     ctx.fillText(`Gr\u00F6\u00DFter Rival: ${payload.runnerUpName}`, 60, 370);
   }
 
-  // Coordinates
+  // Place name, coordinates far from any gazetteer place
   ctx.fillStyle = '#64748b';
   ctx.font = '22px system-ui, -apple-system, sans-serif';
   ctx.fillText(
-    `${payload.centroidLat.toFixed(4)}\u00B0N, ${payload.centroidLon.toFixed(4)}\u00B0E`,
+    payload.placeName ?? `${payload.centroidLat.toFixed(4)}\u00B0N, ${payload.centroidLon.toFixed(4)}\u00B0E`,
     60,
     H - 80
   );
@@ -82,8 +83,8 @@ export function generateShareCard(payload: SharePayload): string {
 /**
  * Download the share card as a file.
  */
-export function downloadShareCard(payload: SharePayload): void {
-  const dataUrl = generateShareCard(payload);
+export function downloadShareCard(payload: SharePayload, area: PlayArea = getActivePlayArea()): void {
+  const dataUrl = generateShareCard(payload, area);
   const a = document.createElement('a');
   a.href = dataUrl;
   a.download = `brewcountry-${payload.beerId}.png`;
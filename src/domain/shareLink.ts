@@ -1,5 +1,6 @@
 import type { SharePayload } from './types';
 import { BEER_MAP } from './beers';
+import { placeNameAt } from './gazetteer';
 
 /**
  * Encode a share payload into URL query params.
@@ -40,13 +41,16 @@ export function decodeShareLink(): SharePayload | null {
   if (!beerId || !latStr || !lonStr) return null;
 
   const beer = BEER_MAP.get(beerId);
+  const centroidLat = parseFloat(latStr);
+  const centroidLon = parseFloat(lonStr);
 
   return {
     regionId: rid ?? '',
     beerId,
     beerName: beer?.name ?? beerId,
-    centroidLat: parseFloat(latStr),
-    centroidLon: parseFloat(lonStr),
+    centroidLat,
+    centroidLon,
+    placeName: placeNameAt(centroidLat, centroidLon),
     zoom: zStr ? parseInt(zStr, 10) : 12,
     cellCount: 0,
     totalVotes: 0,
@@ -0,0 +1,142 @@
+/**
+ * Uniform bucket grid over vote influence circles.
+ *
+ * Every point is inserted into each bucket its own radius can reach, so a
+ * lookup of the bucket containing a location yields a superset of the points
+ * whose circle may cover that location. Items inside a bucket keep their input
+ * order, which lets callers sum weights in exactly the same order as a full scan.
+ */
+
+const DEG_TO_RAD = Math.PI / 180;
+/** km per degree latitude on the haversine sphere (R = 6371 km) */
+const KM_PER_DEG = 6371 * DEG_TO_RAD;
+/** Relative padding so rounding never drops a point that sits exactly on its radius */
+const BBOX_PADDING = 1.001;
+
+export const DEFAULT_BUCKET_KM = 10;
+
+export interface IndexedPoint {
+  lat: number;
+  lon: number;
+  radiusKm: number;
+}
+
+export interface SpatialIndex {
+  minLat: number;
+  minLon: number;
+  bucketDLat: number;
+  bucketDLon: number;
+  rows: number;
+  cols: number;
+  /** CSR layout: bucket b owns items[offsets[b]] .. items[offsets[b + 1] - 1] */
+  offsets: Uint32Array;
+  items: Uint32Array;
+}
+
+interface BucketRange {
+  r0: number;
+  r1: number;
+  c0: number;
+  c1: number;
+}
+
+/**
+ * Conservative lat/lon bounding box of a point's influence circle.
+ * The longitude half-width uses the circle's most poleward latitude.
+ */
+export function influenceBounds(p: IndexedPoint): { minLat: number; maxLat: number; minLon: number; maxLon: number } {
+  const dLat = (p.radiusKm / KM_PER_DEG) * BBOX_PADDING;
+  const poleward = Math.min(89.9, Math.abs(p.lat) + dLat);
+  const dLon = dLat / Math.cos(poleward * DEG_TO_RAD);
+  return {
+    minLat: p.lat - dLat,
+    maxLat: p.lat + dLat,
+    minLon: p.lon - dLon,
+    maxLon: p.lon + dLon,
+  };
+}
+
+/**
+ * Build a bucket grid for the given points.
+ * Cost is O(points × buckets per circle); no per-query allocation.
+ */
+export function buildSpatialIndex(
+  points: ArrayLike<IndexedPoint>,
+  bucketKm: number = DEFAULT_BUCKET_KM
+): SpatialIndex {
+  const n = points.length;
+  if (n === 0) {
+    return {
+      minLat: 0, minLon: 0, bucketDLat: 1, bucketDLon: 1,
+      rows: 0, cols: 0,
+      offsets: new Uint32Array(1),
+      items: new Uint32Array(0),
+    };
+  }
+
+  let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const b = influenceBounds(points[i]);
+    if (b.minLat < minLat) minLat = b.minLat;
+    if (b.maxLat > maxLat) maxLat = b.maxLat;
+    if (b.minLon < minLon) minLon = b.minLon;
+    if (b.maxLon > maxLon) maxLon = b.maxLon;
+  }
+
+  const midLat = Math.min(89.9, Math.abs((minLat + maxLat) / 2));
+  const bucketDLat = bucketKm / KM_PER_DEG;
+  const bucketDLon = bucketKm / (KM_PER_DEG * Math.cos(midLat * DEG_TO_RAD));
+  const rows = Math.max(1, Math.ceil((maxLat - minLat) / bucketDLat));
+  const cols = Math.max(1, Math.ceil((maxLon - minLon) / bucketDLon));
+
+  const rangeOf = (p: IndexedPoint): BucketRange => {
+    const b = influenceBounds(p);
+    return {
+      r0: Math.max(0, Math.floor((b.minLat - minLat) / bucketDLat)),
+      r1: Math.min(rows - 1, Math.floor((b.maxLat - minLat) / bucketDLat)),
+      c0: Math.max(0, Math.floor((b.minLon - minLon) / bucketDLon)),
+      c1: Math.min(cols - 1, Math.floor((b.maxLon - minLon) / bucketDLon)),
+    };
+  };
+
+  // Pass 1: count entries per bucket
+  const ranges: BucketRange[] = new Array(n);
+  const counts = new Uint32Array(rows * cols + 1);
+  for (let i = 0; i < n; i++) {
+    const rg = rangeOf(points[i]);
+    ranges[i] = rg;
+    for (let r = rg.r0; r <= rg.r1; r++) {
+      for (let c = rg.c0; c <= rg.c1; c++) {
+        counts[r * cols + c + 1]++;
+      }
+    }
+  }
+
+  // Prefix sum → offsets
+  const offsets = counts;
+  for (let b = 1; b < offsets.length; b++) offsets[b] += offsets[b - 1];
+
+  // Pass 2: fill, in ascending point order
+  const items = new Uint32Array(offsets[offsets.length - 1]);
+  const cursor = offsets.slice(0, rows * cols);
+  for (let i = 0; i < n; i++) {
+    const rg = ranges[i];
+    for (let r = rg.r0; r <= rg.r1; r++) {
+      for (let c = rg.c0; c <= rg.c1; c++) {
+        items[cursor[r * cols + c]++] = i;
+      }
+    }
+  }
+
+  return { minLat, minLon, bucketDLat, bucketDLon, rows, cols, offsets, items };
+}
+
+/**
+ * Bucket id containing the location, or -1 when no point can reach it.
+ */
+export function bucketAt(index: SpatialIndex, lat: number, lon: number): number {
+  const r = Math.floor((lat - index.minLat) / index.bucketDLat);
+  const c = Math.floor((lon - index.minLon) / index.bucketDLon);
+  if (r < 0 || r >= index.rows || c < 0 || c >= index.cols) return -1;
+  return r * index.cols + c;
+}
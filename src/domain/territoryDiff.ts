@@ -0,0 +1,131 @@
+import type { DominanceResult, TerritoryChange, TerritoryChangeKind } from './types';
+import { winnerAt } from './dominanceColumns';
+import { cellAreaKm2, cellIndexAt, gridToLatLon, sameGridSpec } from './geo';
+import { cellX, edgeNeighbours, gridShape } from './gridTopology';
+import { latticeOrigin } from './tiles';
+import { placeNameAt } from './gazetteer';
+import { getNow } from './clock';
+import { GAME } from '../config/constants';
+
+function kindOf(from: string | null, to: string | null): TerritoryChangeKind {
+  if (from === null) return 'gained';
+  if (to === null) return 'lost';
+  return 'flipped';
+}
+
+/**
+ * Territory that changed owner from `prev` to `next`. Only results on the
+ * same lattice-snapped grid are compared: smoothing and island merging near
+ * the edges depend on the viewport, so a pan alone would move borders.
+ * Changed cells are grouped into connected patches with the same old and
+ * new holder; patches under TERRITORY_MIN_CELLS are noise.
+ */
+export function diffTerritory(
+  prev: DominanceResult,
+  next: DominanceResult,
+  now: number = getNow(),
+): TerritoryChange[] {
+  const b = latticeOrigin(next.gridSpec);
+  if (!b || !sameGridSpec(prev.gridSpec, next.gridSpec)) return [];
+
+  const { rows, cols, gridSpec: gs } = next;
+  const shape = gridShape(gs);
+
+  // Previous winner of each changed cell; undefined = unchanged
+  const before = new Map<number, string | null>();
+  for (let i = 0; i < rows * cols; i++) {
+    const was = winnerAt(prev, i);
+    if (was !== winnerAt(next, i)) before.set(i, was);
+  }
+
+  const changes: TerritoryChange[] = [];
+  const seen = new Uint8Array(rows * cols);
+  for (const [start, from] of before) {
+    if (seen[start]) continue;
+    const to = winnerAt(next, start);
+    seen[start] = 1;
+
+    // Flood fill over cells with the same old and new holder
+    const cells = [start];
+    for (let k = 0; k < cells.length; k++) {
+      const r = Math.floor(cells[k] / cols);
+      const c = cells[k] % cols;
+      for (const [dr, dc] of edgeNeighbours(shape, r)) {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+        const j = nr * cols + nc;
+        if (seen[j] || !before.has(j) || before.get(j) !== from || winnerAt(next, j) !== to) continue;
+        seen[j] = 1;
+        cells.push(j);
+      }
+    }
+    if (cells.length < GAME.TERRITORY_MIN_CELLS) continue;
+
+    let areaKm2 = 0;
+    let sumLat = 0;
+    let sumLon = 0;
+    let anchor = start;
+    for (const i of cells) {
+      const r = Math.floor(i / cols);
+      const { lat, lon } = gridToLatLon(gs, cellX(shape, r, i % cols), r);
+      areaKm2 += cellAreaKm2(gs, lat);
+      sumLat += lat;
+      sumLon += lon;
+      if (i < anchor) anchor = i;
+    }
+    const lat = sumLat / cells.length;
+    const lon = sumLon / cells.length;
+    const kind = kindOf(from, to);
+    const globalRow = b.row + Math.floor(anchor / cols);
+    const globalCol = b.col + (anchor % cols);
+
+    changes.push({
+      id: `${kind}:${from ?? '-'}>${to ?? '-'}@${b.lattice}/${globalRow},${globalCol}`,
+      kind,
+      fromBeerId: from,
+      toBeerId: to,
+      cellCount: cells.length,
+      areaKm2,
+      lat,
+      lon,
+      placeName: placeNameAt(lat, lon),
+      cells,
+      detectedAt: now,
+    });
+  }
+
+  return changes.sort((x, y) => y.areaKm2 - x.areaKm2);
+}
+
+/** The change (if any) that covers a location of `data`, the result the changes were found on */
+export function changeCovering(
+  changes: TerritoryChange[],
+  data: DominanceResult,
+  lat: number,
+  lon: number,
+): TerritoryChange | null {
+  const cell = cellIndexAt(data.gridSpec, data.rows, data.cols, lat, lon);
+  if (!cell) return null;
+  const idx = cell.row * data.cols + cell.col;
+  return changes.find(c => c.cells.includes(idx)) ?? null;
+}
+
+/**
+ * Remembers the last result on each lattice level within a session, so a
+ * new result is compared with the previous one at the same level even after
+ * zooming away and back. A result on a moved grid only becomes the new
+ * baseline.
+ */
+export class TerritoryTracker {
+  private last = new Map<string, DominanceResult>();
+
+  /** Changes since the last result on the same grid; [] for the first one, a moved grid or off-lattice grids */
+  update(data: DominanceResult, now: number = getNow()): TerritoryChange[] {
+    const origin = latticeOrigin(data.gridSpec);
+    if (!origin) return [];
+    const prev = this.last.get(origin.lattice);
+    this.last.set(origin.lattice, data);
+    return prev ? diffTerritory(prev, data, now) : [];
+  }
+}
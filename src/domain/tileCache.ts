@@ -0,0 +1,94 @@
+import type { CellColumns, CellResult, GridSpec, WorkerInput } from './types';
+import { tileGridSpec, tileKey, tilesOfGrid, tileVoteHash, type TileSlot } from './tiles';
+import { unpackCells } from './dominanceColumns';
+import { GAME } from '../config/constants';
+
+/**
+ * LRU cache of raw (unsmoothed) tile results, keyed by tile address plus
+ * the tile's vote-set hash, so panning back to a viewed area and votes
+ * changing elsewhere never recompute a tile.
+ */
+export class TileCache {
+  private entries = new Map<string, CellColumns>();
+  private max: number;
+  hits = 0;
+  misses = 0;
+
+  constructor(max: number = GAME.TILE_CACHE_MAX) {
+    this.max = max;
+  }
+
+  get(key: string): CellColumns | undefined {
+    const columns = this.entries.get(key);
+    if (!columns) {
+      this.misses++;
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, columns);
+    this.hits++;
+    return columns;
+  }
+
+  set(key: string, columns: CellColumns): void {
+    this.entries.delete(key);
+    this.entries.set(key, columns);
+    while (this.entries.size > this.max) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/** A tile the cache could not serve */
+export interface MissingTile {
+  slot: TileSlot;
+  key: string;
+  gridSpec: GridSpec;
+}
+
+/**
+ * Split a full job on a lattice grid into cached tiles, copied straight into
+ * `raw`, and the tiles still to compute. Null when the grid is off the
+ * lattice and has to be computed as a whole.
+ */
+export function planTiles(
+  input: WorkerInput,
+  grid: { rows: number; cols: number },
+  cache: TileCache,
+): { raw: CellResult[]; missing: MissingTile[] } | null {
+  const slots = tilesOfGrid(input.gridSpec, grid.rows, grid.cols);
+  if (!slots) return null;
+
+  const raw: CellResult[] = new Array(grid.rows * grid.cols);
+  const missing: MissingTile[] = [];
+  for (const slot of slots) {
+    const gridSpec = tileGridSpec(slot.tile);
+    const key = `${tileKey(slot.tile)}#${tileVoteHash(gridSpec, input)}`;
+    const columns = cache.get(key);
+    if (columns) placeTile(raw, grid, slot, columns);
+    else missing.push({ slot, key, gridSpec });
+  }
+  return { raw, missing };
+}
+
+/** Copy the part of a tile's raw cells that lies inside the grid into `raw`. */
+export function placeTile(
+  raw: CellResult[],
+  grid: { rows: number; cols: number },
+  slot: TileSlot,
+  columns: CellColumns,
+): void {
+  for (const cell of unpackCells(columns, GAME.TILE_CELLS)) {
+    const row = cell.row + slot.rowOffset;
+    const col = cell.col + slot.colOffset;
+    if (row < 0 || row >= grid.rows || col < 0 || col >= grid.cols) continue;
+    cell.row = row;
+    cell.col = col;
+    raw[row * grid.cols + col] = cell;
+  }
+}
@@ -0,0 +1,238 @@
+import type { GridShape, GridSpec, PlayArea, TileAddress, ViewportBounds, WorkerInput } from './types';
+import { getCellSizeForZoom, metersToDegLat, metersToDegLon } from './geo';
+import { gridFrame, project, unproject, type GridFrame } from './projection';
+import { gridShape } from './gridTopology';
+import { influenceBounds } from './spatialIndex';
+import { DEFAULT_PLAY_AREA_ID, getActivePlayArea, getPlayArea } from './playAreas';
+import { GAME } from '../config/constants';
+
+const TILE = GAME.TILE_CELLS;
+
+/** Cell sizes (meters) of the lattice levels, finest first — one per ZOOM_CELL_SIZES entry */
+export const LATTICE_LEVELS: number[] = [...new Set(Object.values(GAME.ZOOM_CELL_SIZES))].sort((a, b) => a - b);
+
+/** One lattice: a level of one cell shape in one play area */
+type Lattice = Pick<TileAddress, 'cellSizeMeters' | 'shape' | 'areaId'>;
+
+/**
+ * Where a lattice starts and how far apart its cells are. Every play area
+ * anchors its lattices at its box's south-west corner, with cells true to
+ * size at the box's middle latitude.
+ */
+function latticeGeometry(lattice: Lattice): GridFrame & { refLat: number } {
+  const { bounds } = getPlayArea(lattice.areaId);
+  const refLat = (bounds.minLat + bounds.maxLat) / 2;
+  return { ...gridFrame({ ...bounds, cellSizeMeters: lattice.cellSizeMeters, shape: lattice.shape, refLat }), refLat };
+}
+
+/** Fractional lattice row and column of a location */
+function latticePosition(origin: GridFrame, lat: number, lon: number): { row: number; col: number } {
+  const p = project(lat, lon);
+  return { row: (p.y - origin.y0) / origin.rowStep, col: (p.x - origin.x0) / origin.colStep };
+}
+
+/**
+ * GridSpec of lattice cells r0..r1 × c0..c1 (global indices, inclusive).
+ * Hex lattices keep the global row parity only when r0 is even.
+ */
+export function latticeGridSpec(lattice: Lattice, r0: number, r1: number, c0: number, c1: number): GridSpec {
+  const { x0, y0, colStep, rowStep, refLat } = latticeGeometry(lattice);
+  const sw = unproject(x0 + c0 * colStep, y0 + r0 * rowStep);
+  const ne = unproject(x0 + (c1 + 1) * colStep, y0 + (r1 + 1) * rowStep);
+  const spec: GridSpec = {
+    minLat: sw.lat,
+    maxLat: ne.lat,
+    minLon: sw.lon,
+    maxLon: ne.lon,
+    cellSizeMeters: lattice.cellSizeMeters,
+    refLat,
+  };
+  if (lattice.shape === 'hex') spec.shape = lattice.shape;
+  if (lattice.areaId) spec.areaId = lattice.areaId;
+  return spec;
+}
+
+/** The lattice a grid claims to be on, in canonical form (defaults omitted) */
+function latticeOf(spec: GridSpec): Lattice {
+  const lattice: Lattice = { cellSizeMeters: spec.cellSizeMeters };
+  if (gridShape(spec) === 'hex') lattice.shape = 'hex';
+  const areaId = getPlayArea(spec.areaId).id;
+  if (areaId !== DEFAULT_PLAY_AREA_ID) lattice.areaId = areaId;
+  return lattice;
+}
+
+function latticeKey(lattice: Lattice): string {
+  const prefix = [lattice.areaId, lattice.shape].filter(Boolean).map(p => `${p}:`).join('');
+  return `${prefix}${lattice.cellSizeMeters}`;
+}
+
+export function tileKey(tile: TileAddress): string {
+  return `${latticeKey(tile)}/${tile.row}/${tile.col}`;
+}
+
+export function tileGridSpec(tile: TileAddress): GridSpec {
+  const r0 = tile.row * TILE;
+  const c0 = tile.col * TILE;
+  return latticeGridSpec(tile, r0, r0 + TILE - 1, c0, c0 + TILE - 1);
+}
+
+/** A tile overlapping a lattice grid: grid row = tile row + rowOffset, same for cols */
+export interface TileSlot {
+  tile: TileAddress;
+  rowOffset: number;
+  colOffset: number;
+}
+
+/**
+ * The lattice a grid lies on and the global row/col of its first cell, or
+ * null when it is off the lattice (e.g. the whole-area fallback grid).
+ */
+function placeOnLattice(spec: GridSpec): { lattice: Lattice; r0: number; c0: number } | null {
+  const lattice = latticeOf(spec);
+  const origin = latticeGeometry(lattice);
+  if (spec.refLat !== origin.refLat || !LATTICE_LEVELS.includes(lattice.cellSizeMeters)) return null;
+
+  const at = latticePosition(origin, spec.minLat, spec.minLon);
+  const r0 = Math.round(at.row);
+  const c0 = Math.round(at.col);
+  if (Math.abs(at.row - r0) > 1e-6 || Math.abs(at.col - c0) > 1e-6) return null;
+  // Odd hex rows are shifted; only grids with the lattice's row parity line up
+  if (lattice.shape === 'hex' && r0 % 2 !== 0) return null;
+  return { lattice, r0, c0 };
+}
+
+/**
+ * Global address of a lattice grid's first cell: grid cell (r, c) is lattice
+ * cell (row + r, col + c) on `lattice`, a key shared by every grid on it.
+ * Null for grids off the lattice.
+ */
+export function latticeOrigin(spec: GridSpec): { lattice: string; row: number; col: number } | null {
+  const placed = placeOnLattice(spec);
+  if (!placed) return null;
+  return { lattice: latticeKey(placed.lattice), row: placed.r0, col: placed.c0 };
+}
+
+/**
+ * Tiles covering a `rows` × `cols` grid, or null when the grid is not on the
+ * lattice (e.g. the whole-area fallback grid).
+ */
+export function tilesOfGrid(spec: GridSpec, rows: number, cols: number): TileSlot[] | null {
+  const placed = placeOnLattice(spec);
+  if (!placed) return null;
+  const { lattice, r0, c0 } = placed;
+
+  const slots: TileSlot[] = [];
+  for (let tr = Math.floor(r0 / TILE); tr * TILE < r0 + rows; tr++) {
+    for (let tc = Math.floor(c0 / TILE); tc * TILE < c0 + cols; tc++) {
+      slots.push({
+        tile: { ...lattice, row: tr, col: tc },
+        rowOffset: tr * TILE - r0,
+        colOffset: tc * TILE - c0,
+      });
+    }
+  }
+  return slots;
+}
+
+/** Lattice level for a zoom: the one nearest getCellSizeForZoom on a log scale */
+function levelForZoom(zoom: number): number {
+  const size = getCellSizeForZoom(zoom);
+  let best = 0;
+  for (let i = 1; i < LATTICE_LEVELS.length; i++) {
+    if (Math.abs(Math.log(LATTICE_LEVELS[i] / size)) < Math.abs(Math.log(LATTICE_LEVELS[best] / size))) best = i;
+  }
+  return best;
+}
+
+/**
+ * Build a viewport-bounded GridSpec for the current map view + zoom.
+ *
+ * 1. Expands the viewport by `bufferKm` on each side so that
+ *    nearby votes outside the visible area still influence cells.
+ * 2. Picks the lattice level nearest to `getCellSizeForZoom(zoom)`.
+ * 3. Clamps to the play area's box and snaps outward to lattice cells, so
+ *    a cell keeps its place on every pan.
+ * 4. If the cell count exceeds MAX_GRID_CELLS, moves to coarser levels.
+ *
+ * Hex grids start on an even lattice row so odd rows stay odd.
+ */
+export function getViewportGridSpec(
+  viewport: ViewportBounds,
+  zoom: number,
+  bufferKm: number = GAME.VIEWPORT_BUFFER_KM,
+  shape: GridShape = GAME.GRID_SHAPE,
+  area: PlayArea = getActivePlayArea(),
+): GridSpec {
+  // Buffer in degrees
+  const bufferLat = metersToDegLat(bufferKm * 1000);
+  const centerLat = (viewport.south + viewport.north) / 2;
+  const bufferLon = metersToDegLon(bufferKm * 1000, centerLat);
+
+  // Expand viewport + clamp to the play area
+  const { bounds } = area;
+  const minLat = Math.max(viewport.south - bufferLat, bounds.minLat);
+  const maxLat = Math.min(viewport.north + bufferLat, bounds.maxLat);
+  const minLon = Math.max(viewport.west - bufferLon, bounds.minLon);
+  const maxLon = Math.min(viewport.east + bufferLon, bounds.maxLon);
+
+  for (let level = levelForZoom(zoom); ; level++) {
+    const lattice = latticeOf({ ...bounds, cellSizeMeters: LATTICE_LEVELS[level], shape, areaId: area.id });
+    const origin = latticeGeometry(lattice);
+    const sw = latticePosition(origin, minLat, minLon);
+    const ne = latticePosition(origin, maxLat, maxLon);
+    let r0 = Math.floor(sw.row);
+    if (shape === 'hex') r0 -= r0 & 1;
+    const r1 = Math.max(r0, Math.ceil(ne.row) - 1);
+    const c0 = Math.floor(sw.col);
+    const c1 = Math.max(c0, Math.ceil(ne.col) - 1);
+
+    const estimated = (r1 - r0 + 1) * (c1 - c0 + 1);
+    if (estimated <= GAME.MAX_GRID_CELLS || level === LATTICE_LEVELS.length - 1) {
+      return latticeGridSpec(lattice, r0, r1, c0, c1);
+    }
+  }
+}
+
+/** cyrb53: small, well-mixed 53-bit string hash */
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Fingerprint of everything that decides a tile's raw cells: the votes whose
+ * circle can reach it, the default radius, the kernels and the largest
+ * radius (it sizes the legacy prefilter in prepareDominance). Votes far away
+ * do not change it, so a new check-in only invalidates nearby tiles.
+ */
+export function tileVoteHash(spec: GridSpec, input: WorkerInput): string {
+  const weighted = input.weightedVotes ?? [];
+  const reaches = (b: { minLat: number; maxLat: number; minLon: number; maxLon: number }) =>
+    b.maxLat >= spec.minLat && b.minLat <= spec.maxLat && b.maxLon >= spec.minLon && b.minLon <= spec.maxLon;
+
+  let maxRadius = input.radiusKm;
+  const parts: string[] = [];
+  for (const v of input.votes) {
+    if (reaches(influenceBounds({ lat: v.lat, lon: v.lon, radiusKm: input.radiusKm }))) {
+      parts.push(`v|${v.id}|${v.lat}|${v.lon}|${v.beerId}|${v.timestamp}`);
+    }
+  }
+  for (const wv of weighted) {
+    if (wv.radiusKm > maxRadius) maxRadius = wv.radiusKm;
+    if (reaches(influenceBounds(wv))) {
+      parts.push(`w|${wv.id}|${wv.lat}|${wv.lon}|${wv.beerId}|${wv.weight}|${wv.radiusKm}|${wv.source}|${wv.timestamp}`);
+    }
+  }
+  parts.sort();
+
+  const { home, otr, drink } = input.kernels;
+  return hashString(`${input.radiusKm}|${maxRadius}|${home}|${otr}|${drink};${parts.join(';')}`);
+}
@@ -15,12 +15,28 @@ export interface Vote {
   timestamp: number;
 }
 
+/** Cell shape: squares, or pointy-top hexagons with odd rows shifted half a cell east */
+export type GridShape = 'square' | 'hex';
+
 export interface GridSpec {
   minLat: number;
   maxLat: number;
   minLon: number;
   maxLon: number;
   cellSizeMeters: number;
+  /**
+   * Latitude where cells are `cellSizeMeters` wide on the ground (see
+   * projection.ts). Tile lattice grids fix it so all their tiles share one
+   * cell pitch; without it the grid's middle latitude is used.
+   */
+  refLat?: number;
+  /**
+   * Omitted = square. On hex grids `cellSizeMeters` is the distance between
+   * neighbouring cell centers and rows are √3/2 of it apart.
+   */
+  shape?: GridShape;
+  /** Play area whose land mask and tile lattice apply; omitted = DACH */
+  areaId?: string;
 }
 
 export interface GridCell {
@@ -28,6 +44,8 @@ export interface GridCell {
   col: number;
   centerLat: number;
   centerLon: number;
+  /** Abroad, at sea or on a lake: nobody can hold the cell */
+  masked?: boolean;
 }
 
 export interface CellResult {
@@ -48,10 +66,31 @@ export interface CellResult {
   margin: number;
 }
 
-export interface DominanceResult {
+/**
+ * Row-major per-cell dominance data as flat typed arrays (cell i = row * cols + col).
+ * Beer references are indices into `beerIds` plus one, so 0 means "none".
+ */
+export interface CellColumns {
+  /** At most 255 beers per result */
+  beerIds: string[];
+  winner: Uint8Array;
+  runnerUp: Uint8Array;
+  margin: Float32Array;
+  /** Total summed weight across all beers */
+  totalWeight: Float32Array;
+  /** Cell i's per-beer weights: weightBeer/weightValue[weightOffsets[i] .. weightOffsets[i + 1] - 1] */
+  weightOffsets: Uint32Array;
+  weightBeer: Uint8Array;
+  weightValue: Float32Array;
+}
+
+/**
+ * Dominance grid in columnar form. Use the adapters in dominanceColumns.ts
+ * (winnerAt, cellAt, …) instead of materializing CellResults for the whole grid.
+ */
+export interface DominanceResult extends CellColumns {
   rows: number;
   cols: number;
-  cells: CellResult[];
   gridSpec: GridSpec;
 }
 
@@ -67,17 +106,114 @@ export interface OverlaySettings {
 }
 
 export interface WorkerInput {
+  type: 'compute';
+  /** Increasing per posted job; a newer full job cancels older ones */
+  jobId: number;
   votes: Vote[];
   weightedVotes?: WeightedVote[];
   gridSpec: GridSpec;
   radiusKm: number;
+  kernels: InfluenceKernels;
   smoothingIterations: number;
   mergeIslandSize: number;
 }
 
-export interface WorkerOutput {
-  type: 'result';
-  data: DominanceResult;
+/** Incremental update on top of the worker's last computed grid */
+export interface WorkerDeltaInput extends WeightedVoteDelta {
+  type: 'delta';
+  jobId: number;
+}
+
+/** Influence map of one user on top of the worker's last computed grid */
+export interface WorkerInfluenceInput {
+  type: 'influence';
+  /** Own counter; echoed back, never cancels dominance jobs */
+  jobId: number;
+  userId: string;
+}
+
+/**
+ * Whole-area job for a time-lapse snapshot. Runs once no dominance job is
+ * waiting, on its own session, so it never replaces the worker's last grid.
+ */
+export interface WorkerSnapshotInput extends Omit<WorkerInput, 'type'> {
+  type: 'snapshot';
+}
+
+export type WorkerMessage = WorkerInput | WorkerDeltaInput | WorkerInfluenceInput | WorkerSnapshotInput;
+
+export type WorkerOutput =
+  | { type: 'progress'; jobId: number; progress: number }
+  | { type: 'result'; jobId: number; data: DominanceResult }
+  /** The job ended without a result: superseded, or a delta with no grid to patch */
+  | { type: 'skipped'; jobId: number }
+  | { type: 'influence'; jobId: number; data: InfluenceResult }
+  | { type: 'snapshot'; jobId: number; data: DominanceResult };
+
+/** Where one user's weighted votes matter on a computed grid */
+export interface InfluenceResult {
+  userId: string;
+  rows: number;
+  cols: number;
+  gridSpec: GridSpec;
+  /** Per cell (row-major): 1 where removing the user's votes changes the winner */
+  decisive: Uint8Array;
+  /** Per cell: share of the winner's weight the user contributes, 0..1 */
+  share: Float32Array;
+  decisiveKm2: number;
+  /** Area where the user adds weight to the winner */
+  backedKm2: number;
+  /** Mean share over that area */
+  avgShare: number;
+}
+
+/** Coordinator → band worker: vote set for a full job, sent once per worker */
+export interface BandPrepareInput {
+  type: 'prepare';
+  jobId: number;
+  votes: Vote[];
+  weightedVotes: WeightedVote[];
+  gridSpec: GridSpec;
+  radiusKm: number;
+  kernels: InfluenceKernels;
+}
+
+/** Coordinator → band worker: compute raw cells of rows r0..r1 (inclusive) */
+export interface BandInput {
+  type: 'band';
+  jobId: number;
+  /** Index of this unit in the job, echoed back */
+  unit: number;
+  r0: number;
+  r1: number;
+}
+
+/** Coordinator → band worker: compute raw cells of a whole lattice tile */
+export interface TileInput {
+  type: 'tile';
+  jobId: number;
+  unit: number;
+  gridSpec: GridSpec;
+}
+
+export type BandWorkerMessage = BandPrepareInput | BandInput | TileInput;
+
+export interface BandWorkerOutput {
+  jobId: number;
+  unit: number;
+  cells: CellColumns;
+}
+
+// ── Tiles ────────────────────────────────────────────────
+/** Permanent address of a tile in the lattice level for `cellSizeMeters` */
+export interface TileAddress {
+  cellSizeMeters: number;
+  row: number;
+  col: number;
+  /** Omitted for square tiles */
+  shape?: GridShape;
+  /** Omitted for DACH tiles */
+  areaId?: string;
 }
 
 // ── Regions ──────────────────────────────────────────────
@@ -87,6 +223,8 @@ export interface Region {
   cellCount: number;
   centroidLat: number;
   centroidLon: number;
+  /** Gazetteer place at the centroid, null far from any */
+  placeName: string | null;
   boundingBox: { minRow: number; maxRow: number; minCol: number; maxCol: number };
   avgMargin: number;
   totalVotes: number;
@@ -101,6 +239,146 @@ export interface ViewportBounds {
   east: number;
 }
 
+// ── Frontlines ───────────────────────────────────────────
+/** A cell on either side of a front, with what it takes to take it over */
+export interface FrontlineCell {
+  row: number;
+  col: number;
+  /** Beer holding the cell */
+  beerId: string;
+  /** Beer across the front */
+  challengerBeerId: string;
+  /** Weight the challenger must add here to draw level with the holder */
+  flipWeight: number;
+}
+
+/** The border between two neighbouring regions */
+export interface Frontline {
+  /** Both region ids, sorted and joined with '|' */
+  id: string;
+  regionIds: [string, string];
+  beerIds: [string, string];
+  /** Length of the shared border */
+  borderKm: number;
+  /** Part of the border where both sides are close and well-supported */
+  contestedKm: number;
+  /** Mean margin of the cells along the front, both sides */
+  avgMargin: number;
+  /** Cheapest flipWeight along the front */
+  minFlipWeight: number;
+  cells: FrontlineCell[];
+  /** Middle of the border, for navigation */
+  lat: number;
+  lon: number;
+  placeName: string | null;
+}
+
+export interface RegionGraph {
+  /** Most contested first */
+  fronts: Frontline[];
+  /** Region id → its fronts */
+  byRegion: Map<string, Frontline[]>;
+}
+
+// ── Flip cost ────────────────────────────────────────────
+/** One kind of vote a challenger can place, at the current GAME weights */
+export interface FlipVoteSpec {
+  source: 'drink' | 'otr';
+  /** Weight of one vote at its center */
+  weight: number;
+  radiusKm: number;
+  kernel: InfluenceKernel;
+}
+
+/** Where to place votes of one kind, and how many */
+export interface FlipPlan {
+  source: FlipVoteSpec['source'];
+  lat: number;
+  lon: number;
+  /** Votes needed at (lat, lon); null when no single spot reaches enough cells */
+  votes: number | null;
+}
+
+/** What it takes a challenger to flip a cell, or most cells of a region */
+export interface FlipCost {
+  holderBeerId: string;
+  challengerBeerId: string;
+  /** Cells that must flip: 1 for a cell, a majority for a region */
+  cellsToFlip: number;
+  /** Extra weight the challenger needs on the last of those cells, placed right on top */
+  extraWeight: number;
+  plans: FlipPlan[];
+}
+
+// ── Region shapes ────────────────────────────────────────
+/** [lon, lat] — GeoJSON order */
+export type LonLat = [number, number];
+
+/** Outer ring (counter-clockwise) followed by its holes (clockwise); rings are not closed */
+export type PolygonRings = LonLat[][];
+
+/** Vector outline of one Region */
+export interface RegionShape {
+  regionId: string;
+  beerId: string;
+  polygons: PolygonRings[];
+  bbox: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+}
+
+// ── GeoJSON export ───────────────────────────────────────
+export interface TerritoryProperties {
+  regionId: string;
+  beerId: string;
+  beerName: string;
+  placeName: string | null;
+  color: string;
+  cellCount: number;
+  avgMargin: number;
+  totalVotes: number;
+  runnerUpBeerId: string | null;
+  runnerUpName: string | null;
+  /** Grid the territory was computed on */
+  gridSpec: GridSpec;
+}
+
+/** GeoJSON Feature; rings are closed (first point repeated last) */
+export interface TerritoryFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'MultiPolygon'; coordinates: LonLat[][][] };
+  properties: TerritoryProperties;
+}
+
+export interface TerritoryFeatureCollection {
+  type: 'FeatureCollection';
+  features: TerritoryFeature[];
+}
+
+// ── Play areas ───────────────────────────────────────────
+export interface SeedCity {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+/** A league's map: where it is played, with which beers, in which locale */
+export interface PlayArea {
+  id: string;
+  /** Shown in the UI and on share cards */
+  name: string;
+  /** BCP 47 tag for dates and numbers */
+  locale: string;
+  bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+  center: { lat: number; lon: number };
+  /** Land outlines ([lon, lat], open rings); cells outside all of them are masked */
+  land: LonLat[][];
+  /** Lakes cut out of the land */
+  water: LonLat[][];
+  beers: Beer[];
+  /** Cities that simulated and seeded votes cluster around */
+  seedCities: SeedCity[];
+}
+
 // ── User ────────────────────────────────────────────────
 export interface User {
   id: string;
@@ -111,6 +389,8 @@ export interface User {
   lastActiveAt: number;
   homeLat: number;
   homeLon: number;
+  /** When the home location was last set; older users fall back to `createdAt` */
+  homeSetAt?: number;
   beerId: string;
   standYourGroundEnabled: boolean;
   ageVerified: boolean;
@@ -125,6 +405,24 @@ export interface WeightedVote {
   weight: number;
   radiusKm: number;
   source: 'home' | 'otr' | 'drink';
+  /** Voter behind the vote; absent for simulated votes */
+  userId?: string;
+  /** Last activity behind the vote (home: lastActiveAt, OTR/drink: createdAt); breaks exact ties */
+  timestamp: number;
+}
+
+/** Distance decay of a vote's weight inside its radius */
+export type InfluenceKernel = 'flat' | 'linear' | 'gaussian' | 'inverse-square';
+
+/** Kernel per weighted-vote source */
+export type InfluenceKernels = Record<WeightedVote['source'], InfluenceKernel>;
+
+/** Weighted votes that differ between two vote sets, matched by id */
+export interface WeightedVoteDelta {
+  added: WeightedVote[];
+  /** Ids of removed weighted votes */
+  removed: string[];
+  changed: WeightedVote[];
 }
 
 // ── On The Road Vote ────────────────────────────────────
@@ -165,6 +463,61 @@ export interface Duel {
   regionLon: number;
 }
 
+// ── Duel Ratings ────────────────────────────────────────
+/** Elo rating of a player or beer with its duel record */
+export interface RatingEntry {
+  rating: number;
+  wins: number;
+  losses: number;
+}
+
+export interface DuelRatings {
+  /** userId → rating */
+  users: Map<string, RatingEntry>;
+  /** beerId → rating */
+  beers: Map<string, RatingEntry>;
+  /** userId → beer they fought for in their latest rated duel */
+  userBeers: Map<string, string>;
+  /** place → userId → record in duels over that place */
+  places: Map<string, Map<string, { wins: number; losses: number }>>;
+}
+
+/**
+ * One stored line of the duel ratings, updated as duels resolve. Users and
+ * beers carry their rating; place records only wins and losses.
+ */
+export interface RatingRecord {
+  /** `user:<id>`, `beer:<id>` or `place:<encoded place>:<userId>` */
+  id: string;
+  kind: 'user' | 'beer' | 'place';
+  /** userId or beerId */
+  key: string;
+  rating: number;
+  wins: number;
+  losses: number;
+  /** Users: beer of their latest rated duel */
+  beerId?: string;
+  /** Place records: gazetteer name of the place */
+  place?: string;
+}
+
+/** A user's duel record; `longest` is the longest resolved duel after acceptance */
+export interface DuelStats {
+  wins: number;
+  losses: number;
+  /** Duels that ended by timeout, won, lost or unanswered */
+  timeouts: number;
+  longest: { duel: Duel; durationMs: number } | null;
+}
+
+/** One line of a ladder: rating plus the record that counts there */
+export interface LadderRow {
+  id: string;
+  rating: number;
+  wins: number;
+  losses: number;
+}
+
 // ── Duel Message ────────────────────────────────────────
 export interface DuelMessage {
   id: string;
@@ -189,6 +542,21 @@ export interface DuelOutcome {
   expiresAt: number;
 }
 
+// ── Dominance Snapshots ─────────────────────────────────
+/** Compact winner grid of a whole play area at one moment */
+export interface DominanceSnapshot {
+  /** `${areaId}_${takenAt}` */
+  id: string;
+  areaId: string;
+  takenAt: number;
+  gridSpec: GridSpec;
+  rows: number;
+  cols: number;
+  beerIds: string[];
+  /** Run-length encoded winner refs, row-major: [ref, count, ref, count, …]; ref 0 = nobody, else beerIds[ref - 1] */
+  winners: number[];
+}
+
 // ── Weight Breakdown (for UI display) ───────────────────
 export interface WeightBreakdown {
   baseMultiplier: number;
@@ -252,7 +620,32 @@ export type AppEvent =
   | { type: 'drink:expired'; voteId: string }
   | { type: 'friend:added'; friendship: Friendship }
   | { type: 'friend:removed'; friendshipId: string }
-  | { type: 'chat:message'; message: ChatMessage; friendshipId: string };
+  | { type: 'chat:message'; message: ChatMessage; friendshipId: string }
+  | { type: 'territory:flipped'; change: TerritoryChange }
+  | { type: 'territory:lost'; change: TerritoryChange }
+  | { type: 'territory:gained'; change: TerritoryChange };
+
+// ── Territory Changes ────────────────────────────────────
+/** flipped: one beer took it from another; gained: from nobody; lost: to nobody */
+export type TerritoryChangeKind = 'flipped' | 'lost' | 'gained';
+
+/** Connected cells that changed owner between two results on the same lattice */
+export interface TerritoryChange {
+  /** Same place and beers → same id, however often it happens */
+  id: string;
+  kind: TerritoryChangeKind;
+  fromBeerId: string | null;
+  toBeerId: string | null;
+  cellCount: number;
+  areaKm2: number;
+  /** Centroid of the changed cells */
+  lat: number;
+  lon: number;
+  placeName: string | null;
+  /** Row-major indices of the changed cells in the newer result */
+  cells: number[];
+  detectedAt: number;
+}
 
 // ── Quests ───────────────────────────────────────────────
 export interface QuestDefinition {
@@ -287,6 +680,8 @@ export interface FeedItem {
   secondaryBeerId: string | null;
   lat: number;
   lon: number;
+  /** Gazetteer place at lat/lon, null far from any */
+  placeName: string | null;
   zoom: number;
   priority: number;
   icon: string;
@@ -299,6 +694,7 @@ export interface SharePayload {
   beerName: string;
   centroidLat: number;
   centroidLon: number;
+  placeName: string | null;
   zoom: number;
   cellCount: number;
   totalVotes: number;
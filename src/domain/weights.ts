@@ -1,7 +1,9 @@
-import type { User, OnTheRoadVote, DrinkVote, DuelOutcome, Team, WeightedVote, WeightBreakdown } from './types';
+import type { User, OnTheRoadVote, DrinkVote, DuelOutcome, PlayArea, Team, WeightedVote, WeightedVoteDelta, WeightBreakdown } from './types';
 import { haversineDistanceKm } from './geo';
 import { GAME } from '../config/constants';
 import { getNow } from './clock';
+import { getActivePlayArea } from './playAreas';
+import { playAreaForHome } from './landMask';
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 
@@ -116,8 +118,23 @@ export function computeWeightBreakdown(
 }
 
 /**
- * Build weighted votes for ALL users + their OTR votes.
- * This is the input the worker needs.
+ * Weight of one OTR vote by this user: half their base multiplier,
+ * without SYG, team or duel boosts.
+ */
+export function otrVoteWeight(user: User, now: number = getNow()): number {
+  return Math.max(GAME.WEIGHT_MIN, 1.0 * computeBaseMultiplier(user, now) * GAME.OTR_WEIGHT_SCALE);
+}
+
+function inBounds(area: PlayArea, lat: number, lon: number): boolean {
+  const b = area.bounds;
+  return lat >= b.minLat && lat <= b.maxLat && lon >= b.minLon && lon <= b.maxLon;
+}
+
+/**
+ * Build weighted votes for all users of a play area + their OTR votes.
+ * This is the input the worker needs. Users whose home lies in another area
+ * play in that area's league, and OTR/drink votes outside the area's box
+ * cannot reach its map.
  */
 export function buildWeightedVotes(
   allUsers: User[],
@@ -125,11 +142,14 @@ export function buildWeightedVotes(
   allTeams: Team[],
   allOutcomes: Map<string, DuelOutcome[]>,
   allDrinkVotes: DrinkVote[] = [],
-  now: number = getNow()
+  now: number = getNow(),
+  area: PlayArea = getActivePlayArea()
 ): WeightedVote[] {
   const votes: WeightedVote[] = [];
 
   for (const user of allUsers) {
+    if (playAreaForHome(user.homeLat, user.homeLon) !== area) continue;
+
     // Find user's team
     const team = allTeams.find(t => t.beerId === user.beerId && t.memberUserIds.includes(user.id)) ?? null;
     const outcomes = allOutcomes.get(user.id) ?? [];
@@ -144,21 +164,20 @@ export function buildWeightedVotes(
       weight: breakdown.finalWeight,
       radiusKm: breakdown.effectiveRadius,
       source: 'home',
+      userId: user.id,
+      timestamp: user.lastActiveAt,
     });
   }
 
   // OTR votes (expired ones should already be filtered out)
   for (const otr of allOTRVotes) {
     if (otr.expiresAt <= now) continue;
+    if (!inBounds(area, otr.lat, otr.lon)) continue;
 
     const user = allUsers.find(u => u.id === otr.userId);
     if (!user) continue;
 
-    const baseMultiplier = computeBaseMultiplier(user, now);
-    const otrWeight = Math.max(
-      GAME.WEIGHT_MIN,
-      1.0 * baseMultiplier * GAME.OTR_WEIGHT_SCALE
-    );
+    const otrWeight = otrVoteWeight(user, now);
 
     votes.push({
       id: otr.id,
@@ -168,12 +187,15 @@ export function buildWeightedVotes(
       weight: otrWeight,
       radiusKm: GAME.OTR_RADIUS_KM,
       source: 'otr',
+      userId: otr.userId,
+      timestamp: otr.createdAt,
     });
   }
 
   // Drink votes (check-ins) — fixed weight, smaller radius, TTL-based
   for (const dv of allDrinkVotes) {
     if (dv.expiresAt <= now) continue;
+    if (!inBounds(area, dv.lat, dv.lon)) continue;
 
     votes.push({
       id: dv.id,
@@ -183,8 +205,44 @@ export function buildWeightedVotes(
       weight: GAME.DRINK_WEIGHT,
       radiusKm: GAME.DRINK_RADIUS_KM,
       source: 'drink',
+      userId: dv.userId,
+      timestamp: dv.createdAt,
     });
   }
 
   return votes;
 }
+
+function sameWeightedVote(a: WeightedVote, b: WeightedVote): boolean {
+  return (
+    a.lat === b.lat &&
+    a.lon === b.lon &&
+    a.beerId === b.beerId &&
+    a.weight === b.weight &&
+    a.radiusKm === b.radiusKm &&
+    a.source === b.source &&
+    a.timestamp === b.timestamp
+  );
+}
+
+/**
+ * Diff two weighted vote sets by id.
+ * Feeds incremental dominance updates in the worker.
+ */
+export function diffWeightedVotes(prev: WeightedVote[], next: WeightedVote[]): WeightedVoteDelta {
+  const prevById = new Map(prev.map(v => [v.id, v]));
+  const added: WeightedVote[] = [];
+  const changed: WeightedVote[] = [];
+
+  for (const v of next) {
+    const old = prevById.get(v.id);
+    if (!old) {
+      added.push(v);
+    } else {
+      if (!sameWeightedVote(old, v)) changed.push(v);
+      prevById.delete(v.id);
+    }
+  }
+
+  return { added, removed: [...prevById.keys()], changed };
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import type { DominanceSnapshot, PlayArea, WeightedVote, WorkerOutput, WorkerSnapshotInput } from '../domain/types';
+import type { StorageInterface } from '../storage/StorageInterface';
+import { encodeSnapshot, historyStart, isSnapshotDue, snapshotGridSpec } from '../domain/history';
+import { getNow } from '../domain/clock';
+import { GAME } from '../config/constants';
+
+/** How often to check whether the next snapshot is due */
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Snapshots of the play area for the time-lapse. Loads the last
+ * HISTORY_DAYS of them, drops older ones and, whenever one is due, has the
+ * dominance worker compute the whole area on the coarse snapshot grid and
+ * stores the winners. `liveVotes` is null while the map shows the past,
+ * so replayed states are never recorded as new snapshots.
+ */
+export function useDominanceHistory(
+  store: StorageInterface,
+  area: PlayArea,
+  liveVotes: WeightedVote[] | null,
+  workerRef: RefObject<Worker | null>,
+): DominanceSnapshot[] {
+  const [snapshots, setSnapshots] = useState<DominanceSnapshot[]>([]);
+  /** Area whose stored snapshots have been loaded */
+  const [loadedAreaId, setLoadedAreaId] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+  const jobIdRef = useRef(0);
+  /** Stops listening for the snapshot in flight, null when none is */
+  const pendingRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = historyStart(getNow());
+    store.removeSnapshotsBefore(since).catch(() => {});
+    store.getSnapshots(area.id, since).then((s) => {
+      if (cancelled) return;
+      setSnapshots(s);
+      setLoadedAreaId(area.id);
+    }).catch(() => {});
+    return () => {
+      cancelled = true;
+      pendingRef.current?.();
+    };
+  }, [store, area]);
+
+  useEffect(() => {
+    const id = setInterval(() => setTick((t) => t + 1), CHECK_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker || loadedAreaId !== area.id || !liveVotes || liveVotes.length === 0 || pendingRef.current) return;
+    const takenAt = getNow();
+    if (!isSnapshotDue(snapshots, takenAt)) return;
+
+    const job: WorkerSnapshotInput = {
+      type: 'snapshot',
+      jobId: ++jobIdRef.current,
+      votes: [],
+      weightedVotes: liveVotes,
+      gridSpec: snapshotGridSpec(area),
+      radiusKm: GAME.HOME_RADIUS_KM,
+      kernels: GAME.INFLUENCE_KERNELS,
+      smoothingIterations: GAME.SMOOTHING_ITERATIONS,
+      mergeIslandSize: GAME.MERGE_ISLAND_SIZE,
+    };
+    const onMessage = (e: MessageEvent<WorkerOutput>) => {
+      const out = e.data;
+      if (out.type !== 'snapshot' || out.jobId !== job.jobId) return;
+      stop();
+      const snapshot = encodeSnapshot(out.data, takenAt);
+      store.saveSnapshot(snapshot).catch(() => {});
+      setSnapshots((prev) => [...prev.filter((s) => s.id !== snapshot.id), snapshot]);
+    };
+    const stop = () => {
+      worker.removeEventListener('message', onMessage);
+      pendingRef.current = null;
+    };
+    worker.addEventListener('message', onMessage);
+    pendingRef.current = stop;
+    worker.postMessage(job);
+  }, [store, area, liveVotes, snapshots, loadedAreaId, tick, workerRef]);
+
+  return snapshots;
+}
@@ -0,0 +1,60 @@
+/**
+ * Hook to notify a user about duels they have been challenged to.
+ * Shows a toast when a new challenge arrives and counts the ones still
+ * waiting for an answer. Changes by the challenger are re-announced as
+ * `duel:updated`, so open duel lists refresh.
+ */
+import { useState, useEffect, useRef } from 'react';
+import type { Duel } from '../domain/types';
+import { subscribeIncomingDuels } from '../services/firestoreService';
+import { appEvents } from '../domain/events';
+import { isDuelOpen } from '../domain/duels';
+
+interface UseDuelNotificationsOptions {
+  userId: string;
+  /** False for users without Firestore (dev users, no config) */
+  enabled: boolean;
+  onChallenge?: (duel: Duel) => void;
+}
+
+interface UseDuelNotificationsResult {
+  /** Open challenges this user has not answered yet */
+  pendingCount: number;
+}
+
+export function useDuelNotifications({
+  userId,
+  enabled,
+  onChallenge,
+}: UseDuelNotificationsOptions): UseDuelNotificationsResult {
+  const [pendingCount, setPendingCount] = useState(0);
+  // Stable ref for onChallenge callback
+  const onChallengeRef = useRef(onChallenge);
+  useEffect(() => {
+    onChallengeRef.current = onChallenge;
+  }, [onChallenge]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Last seen state per duel; null until the first snapshot, which is not announced
+    let known: Map<string, string> | null = null;
+
+    const unsub = subscribeIncomingDuels(userId, (duels) => {
+      const next = new Map(duels.map((d) => [d.id, `${d.status}:${d.lastActionAt}`]));
+      if (known) {
+        for (const duel of duels) {
+          const prev = known.get(duel.id);
+          if (prev === next.get(duel.id)) continue;
+          appEvents.emit({ type: 'duel:updated', duel });
+          if (prev === undefined && duel.status === 'pending') onChallengeRef.current?.(duel);
+        }
+      }
+      known = next;
+      setPendingCount(duels.filter((d) => d.status === 'pending' && isDuelOpen(d)).length);
+    });
+
+    return () => unsub();
+  }, [userId, enabled]);
+
+  return { pendingCount: enabled ? pendingCount : 0 };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import type { Duel, DuelRatings } from '../domain/types';
+import type { StorageInterface } from '../storage/StorageInterface';
+import { ratingsFromRecords, rateDuels } from '../domain/duelRatings';
+import { appEvents } from '../domain/events';
+
+/** Quiet time after the last resolved duel before everything is reloaded */
+const RELOAD_DEBOUNCE_MS = 5000;
+
+/**
+ * The user's duels and the stored ratings. Ratings are persisted once per
+ * resolved duel, so loading them never replays the duel log. A duel
+ * resolving here is merged into the list right away; list and ratings are
+ * reloaded once things calm down, to pick up duels resolved elsewhere.
+ */
+export function useDuelRatings(store: StorageInterface, userId: string): { duels: Duel[]; ratings: DuelRatings } {
+  const [duels, setDuels] = useState<Duel[]>([]);
+  const [ratings, setRatings] = useState<DuelRatings>(() => rateDuels([]));
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const load = async () => {
+      try {
+        const [own, records] = await Promise.all([store.getDuelsForUser(userId), store.getRatingRecords()]);
+        if (cancelled) return;
+        setDuels(own);
+        setRatings(ratingsFromRecords(records));
+      } catch (e) {
+        console.error('duel ratings load error:', e);
+      }
+    };
+    load();
+    const off = appEvents.on((event) => {
+      if (event.type !== 'duel:updated' || event.duel.resolvedAt === null) return;
+      const { duel } = event;
+      setDuels((prev) => [...prev.filter((d) => d.id !== duel.id), duel]);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(load, RELOAD_DEBOUNCE_MS);
+    });
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      off();
+    };
+  }, [store, userId]);
+
+  return { duels, ratings };
+}
@@ -1,15 +1,17 @@
 import { useMemo } from 'react';
-import type { DominanceResult, Region, Vote, ViewportBounds, FeedItem } from '../domain/types';
+import type { DominanceResult, Region, RegionGraph, TerritoryChange, Vote, ViewportBounds, FeedItem } from '../domain/types';
 import { computeFeedItems } from '../domain/feedEngine';
 
 export function useFeed(
   dominanceData: DominanceResult | null,
   regions: Region[],
   votes: Vote[],
-  viewportBounds: ViewportBounds | null
+  viewportBounds: ViewportBounds | null,
+  regionGraph: RegionGraph | null,
+  changes: TerritoryChange[]
 ): FeedItem[] {
   return useMemo(
-    () => computeFeedItems(dominanceData, regions, votes, viewportBounds),
-    [dominanceData, regions, votes, viewportBounds]
+    () => computeFeedItems(dominanceData, regions, votes, viewportBounds, regionGraph, changes),
+    [dominanceData, regions, votes, viewportBounds, regionGraph, changes]
   );
 }
@@ -1,21 +1,33 @@
 import { useState, useEffect, useRef } from 'react';
-import type { AppEvent, QuestState, OverlaySettings } from '../domain/types';
+import type { AppEvent, QuestState, OverlaySettings, RegionGraph } from '../domain/types';
 import { QUEST_CATALOG } from '../domain/quests';
 import { evaluateEvent } from '../domain/questEngine';
 import { getQuestStateForUser, saveQuestStateForUser } from '../services/firestoreService';
 import { appEvents } from '../domain/events';
 import { useToast } from '../ui/Toast';
 
-export function useQuests(userId: string, overlaySettings: OverlaySettings) {
+export function useQuests(
+  userId: string,
+  overlaySettings: OverlaySettings,
+  regionGraph: RegionGraph | null,
+  beerId: string | null
+) {
   const [questState, setQuestState] = useState<QuestState>({ progress: {} });
   const settingsRef = useRef(overlaySettings);
   settingsRef.current = overlaySettings;
+  const graphRef = useRef(regionGraph);
+  const beerIdRef = useRef(beerId);
   const stateRef = useRef(questState);
   stateRef.current = questState;
   const { showToast } = useToast();
   const showToastRef = useRef(showToast);
   showToastRef.current = showToast;
 
+  useEffect(() => {
+    graphRef.current = regionGraph;
+    beerIdRef.current = beerId;
+  }, [regionGraph, beerId]);
+
   useEffect(() => {
     // Dev-bypass users: skip Firestore, start with empty state immediately
     if (userId.startsWith('dev_')) return;
@@ -44,7 +56,9 @@ export function useQuests(userId: string, overlaySettings: OverlaySettings) {
         event,
         stateRef.current,
         QUEST_CATALOG,
-        settingsRef.current
+        settingsRef.current,
+        graphRef.current,
+        beerIdRef.current
       );
 
       // Only update if something changed
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import type { AppEvent, TerritoryChange } from '../domain/types';
+import { appEvents } from '../domain/events';
+import { getNow } from '../domain/clock';
+
+/** Changes older than this drop out of the list */
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_CHANGES = 20;
+
+function changeOf(event: AppEvent): TerritoryChange | null {
+  switch (event.type) {
+    case 'territory:flipped':
+    case 'territory:lost':
+    case 'territory:gained':
+      return event.change;
+    default:
+      return null;
+  }
+}
+
+/** Recent territory:* events, newest first; a repeated change replaces its older entry */
+export function useTerritoryChanges(): TerritoryChange[] {
+  const [changes, setChanges] = useState<TerritoryChange[]>([]);
+
+  useEffect(() => {
+    return appEvents.on((event) => {
+      const change = changeOf(event);
+      if (!change) return;
+      const cutoff = getNow() - MAX_AGE_MS;
+      setChanges((prev) => [
+        change,
+        ...prev.filter((c) => c.id !== change.id && c.detectedAt > cutoff),
+      ].slice(0, MAX_CHANGES));
+    });
+  }, []);
+
+  return changes;
+}
@@ -6,11 +6,14 @@ import { ToastProvider } from './ui/Toast.tsx'
 import { AuthProvider } from './auth/AuthProvider.tsx'
 import { FirestoreStore } from './storage/FirestoreStore.ts'
 import { IndexedDBStore } from './storage/IndexedDBStore.ts'
+import { FirebasePhotoStore } from './storage/FirebasePhotoStore.ts'
+import { IndexedDBPhotoStore } from './storage/IndexedDBPhotoStore.ts'
 
 // Dev-bypass users (id starts with "dev_") use local IndexedDB — no Firebase needed
 const savedUserId = localStorage.getItem('brewcountry_auth');
 const isDevUser = savedUserId?.startsWith('dev_') ?? false;
 const store = isDevUser ? new IndexedDBStore() : new FirestoreStore();
+const photos = isDevUser ? new IndexedDBPhotoStore() : new FirebasePhotoStore();
 
 const isAdmin = window.location.hash === '#admin';
 
@@ -29,7 +32,7 @@ if (isAdmin) {
     <StrictMode>
       <ToastProvider>
         <AuthProvider store={store}>
-          <App store={store} />
+          <App store={store} photos={photos} />
         </AuthProvider>
       </ToastProvider>
     </StrictMode>,
@@ -22,7 +22,7 @@ import {
 } from 'firebase/firestore';
 import { getFirestoreDb } from '../config/firestore';
 import { GAME } from '../config/constants';
-import type { Friendship, ChatMessage, UserPresence } from '../domain/types';
+import type { Duel, Friendship, ChatMessage, UserPresence } from '../domain/types';
 import type { QuestState, Vote } from '../domain/types';
 
 // ── User Profiles ───────────────────────────────────────
@@ -36,6 +36,8 @@ export interface FirestoreUserProfile {
   beerId: string;
   homeLat: number;
   homeLon: number;
+  /** When the home location was last set */
+  homeSetAt: number;
   createdAt: number;
   lastActiveAt: number;
 }
@@ -49,6 +51,7 @@ export async function saveUserProfile(
   beerId: string,
   homeLat?: number,
   homeLon?: number,
+  homeSetAt?: number,
 ): Promise<void> {
   const db = getFirestoreDb();
   const data: Record<string, unknown> = {
@@ -60,6 +63,7 @@ export async function saveUserProfile(
   if (homeLat !== undefined && homeLon !== undefined) {
     data.homeLat = homeLat;
     data.homeLon = homeLon;
+    data.homeSetAt = homeSetAt ?? Date.now();
     data.createdAt = Date.now();
   }
   await setDoc(doc(db, 'users', userId), data, { merge: true });
@@ -78,6 +82,7 @@ export async function getUserProfile(userId: string): Promise<FirestoreUserProfi
     beerId: data.beerId as string,
     homeLat: (data.homeLat as number) ?? 0,
     homeLon: (data.homeLon as number) ?? 0,
+    homeSetAt: (data.homeSetAt as number) ?? (data.createdAt as number) ?? 0,
     createdAt: (data.createdAt as number) ?? 0,
     lastActiveAt: (data.lastActiveAt as number) ?? 0,
   };
@@ -102,6 +107,7 @@ export function subscribeAllUsers(
           beerId: data.beerId as string,
           homeLat: (data.homeLat as number) ?? 0,
           homeLon: (data.homeLon as number) ?? 0,
+          homeSetAt: (data.homeSetAt as number) ?? (data.createdAt as number) ?? 0,
           createdAt: (data.createdAt as number) ?? 0,
           lastActiveAt: (data.lastActiveAt as number) ?? 0,
         };
@@ -348,6 +354,27 @@ export function subscribePresenceForUsers(
   };
 }
 
+// ── Duels ────────────────────────────────────────────────
+
+/**
+ * Subscribe to the duels a user has been challenged to (real-time).
+ * Reads the `bc_duels` collection that FirestoreStore writes.
+ */
+export function subscribeIncomingDuels(
+  userId: string,
+  callback: (duels: Duel[]) => void,
+): Unsubscribe {
+  const db = getFirestoreDb();
+  const q = query(
+    collection(db, 'bc_duels'),
+    where('defenderUserId', '==', userId),
+  );
+
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map((d) => d.data() as Duel));
+  });
+}
+
 // ── Legacy Votes (Dev Simulation) ───────────────────────
 
 export function subscribeLegacyVotes(callback: (votes: Vote[]) => void): Unsubscribe {
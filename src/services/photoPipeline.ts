@@ -0,0 +1,30 @@
+/**
+ * Browser image pipeline for duel photos.
+ * Decoding applies the EXIF orientation; redrawing on a canvas and
+ * re-encoding as JPEG leaves every EXIF field behind, GPS position included.
+ */
+import { fitWithin } from '../domain/photos';
+import { GAME } from '../config/constants';
+
+/** Downscale a camera or file image to PHOTO_MAX_EDGE_PX and strip its metadata */
+export async function preparePhoto(file: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode photo'))),
+        'image/jpeg',
+        GAME.PHOTO_JPEG_QUALITY,
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,24 @@
+import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { getFirebaseStorage } from '../config/firebaseStorage';
+import type { PhotoStore } from './PhotoStore';
+
+/** Photos live under `duelPhotos/`; `imageUrl` is their download URL */
+export class FirebasePhotoStore implements PhotoStore {
+  async savePhoto(id: string, image: Blob): Promise<string> {
+    const photoRef = ref(getFirebaseStorage(), `duelPhotos/${id}.jpg`);
+    await uploadBytes(photoRef, image, { contentType: image.type || 'image/jpeg' });
+    return getDownloadURL(photoRef);
+  }
+
+  async resolvePhotoUrl(imageUrl: string): Promise<string | null> {
+    return imageUrl;
+  }
+
+  async removePhoto(imageUrl: string): Promise<void> {
+    try {
+      await deleteObject(ref(getFirebaseStorage(), imageUrl));
+    } catch (e) {
+      if ((e as { code?: string }).code !== 'storage/object-not-found') throw e;
+    }
+  }
+}
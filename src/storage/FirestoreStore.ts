@@ -4,20 +4,25 @@ import {
   doc,
   getDoc,
   getDocs,
+  orderBy,
   query,
+  runTransaction,
   setDoc,
   where,
 } from 'firebase/firestore';
 import type {
+  DominanceSnapshot,
   DrinkVote,
   Duel,
   DuelMessage,
   DuelOutcome,
   OnTheRoadVote,
+  RatingRecord,
   Team,
   User,
 } from '../domain/types';
 import { getNow } from '../domain/clock';
+import { rateRecords, ratingRecordIds } from '../domain/duelRatings';
 import { getFirestoreDb } from '../config/firestore';
 import type { StorageInterface } from './StorageInterface';
 
@@ -29,6 +34,9 @@ const COLLECTIONS = {
   duelMessages: 'bc_duelMessages',
   duelOutcomes: 'bc_duelOutcomes',
   teams: 'bc_teams',
+  snapshots: 'bc_snapshots',
+  ratings: 'bc_ratings',
+  ratedDuels: 'bc_ratedDuels',
 } as const;
 
 function clean<T>(data: T): T {
@@ -161,6 +169,23 @@ export class FirestoreStore implements StorageInterface {
     await setDoc(doc(db, COLLECTIONS.duelMessages, msg.id), clean(msg));
   }
 
+  async getDuelMessagesBefore(senderUserId: string, time: number): Promise<DuelMessage[]> {
+    const db = getFirestoreDb();
+    // Needs the composite index senderUserId ASC, createdAt ASC on bc_duelMessages
+    const q = query(
+      collection(db, COLLECTIONS.duelMessages),
+      where('senderUserId', '==', senderUserId),
+      where('createdAt', '<', time),
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => d.data() as DuelMessage);
+  }
+
+  async removeDuelMessage(id: string): Promise<void> {
+    const db = getFirestoreDb();
+    await deleteDoc(doc(db, COLLECTIONS.duelMessages, id));
+  }
+
   // ── Duel Outcomes ─────────────────────────────────────
   async getDuelOutcomes(userId: string): Promise<DuelOutcome[]> {
     const db = getFirestoreDb();
@@ -187,6 +212,30 @@ export class FirestoreStore implements StorageInterface {
     return snapshot.size;
   }
 
+  // ── Duel Ratings ──────────────────────────────────────
+  async getRatingRecords(): Promise<RatingRecord[]> {
+    const db = getFirestoreDb();
+    const snapshot = await getDocs(collection(db, COLLECTIONS.ratings));
+    return snapshot.docs.map((d) => d.data() as RatingRecord);
+  }
+
+  async rateDuel(duel: Duel): Promise<void> {
+    const ids = ratingRecordIds(duel);
+    if (ids.length === 0) return;
+    const db = getFirestoreDb();
+    // Both players' clients may settle the same duel; the marker counts it once
+    await runTransaction(db, async (tx) => {
+      const marker = doc(db, COLLECTIONS.ratedDuels, duel.id);
+      if ((await tx.get(marker)).exists()) return;
+      const snaps = await Promise.all(ids.map((id) => tx.get(doc(db, COLLECTIONS.ratings, id))));
+      const current = snaps.filter((s) => s.exists()).map((s) => s.data() as RatingRecord);
+      for (const record of rateRecords(current, duel)) {
+        tx.set(doc(db, COLLECTIONS.ratings, record.id), clean(record));
+      }
+      tx.set(marker, { id: duel.id, ratedAt: getNow() });
+    });
+  }
+
   // ── Teams ─────────────────────────────────────────────
   async getTeam(beerId: string): Promise<Team | null> {
     const db = getFirestoreDb();
@@ -206,4 +255,31 @@ export class FirestoreStore implements StorageInterface {
     const snapshot = await getDocs(collection(db, COLLECTIONS.teams));
     return snapshot.docs.map((d) => d.data() as Team);
   }
+
+  // ── Dominance Snapshots ───────────────────────────────
+  async getSnapshots(areaId: string, since: number): Promise<DominanceSnapshot[]> {
+    const db = getFirestoreDb();
+    // Needs the composite index areaId ASC, takenAt ASC on bc_snapshots
+    const q = query(
+      collection(db, COLLECTIONS.snapshots),
+      where('areaId', '==', areaId),
+      where('takenAt', '>=', since),
+      orderBy('takenAt', 'asc'),
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((d) => d.data() as DominanceSnapshot);
+  }
+
+  async saveSnapshot(snapshot: DominanceSnapshot): Promise<void> {
+    const db = getFirestoreDb();
+    await setDoc(doc(db, COLLECTIONS.snapshots, snapshot.id), clean(snapshot));
+  }
+
+  async removeSnapshotsBefore(time: number): Promise<number> {
+    const db = getFirestoreDb();
+    const q = query(collection(db, COLLECTIONS.snapshots), where('takenAt', '<', time));
+    const snapshot = await getDocs(q);
+    await Promise.all(snapshot.docs.map((d) => deleteDoc(d.ref)));
+    return snapshot.size;
+  }
 }
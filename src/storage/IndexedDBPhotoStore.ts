@@ -0,0 +1,59 @@
+import Dexie from 'dexie';
+import type { PhotoStore } from './PhotoStore';
+
+interface StoredPhoto {
+  id: string;
+  image: Blob;
+}
+
+class BrewCountryPhotoDB extends Dexie {
+  photos!: Dexie.Table<StoredPhoto, string>;
+
+  constructor() {
+    super('BrewCountryPhotos');
+    this.version(1).stores({
+      photos: 'id',
+    });
+  }
+}
+
+/** `imageUrl` of a locally stored photo; resolved to an object URL when shown */
+const URL_PREFIX = 'idb-photo:';
+
+export class IndexedDBPhotoStore implements PhotoStore {
+  private db: BrewCountryPhotoDB;
+  /** Object URLs handed out this session, one per photo */
+  private objectUrls = new Map<string, string>();
+
+  constructor() {
+    this.db = new BrewCountryPhotoDB();
+  }
+
+  async savePhoto(id: string, image: Blob): Promise<string> {
+    await this.db.photos.put({ id, image });
+    return URL_PREFIX + id;
+  }
+
+  async resolvePhotoUrl(imageUrl: string): Promise<string | null> {
+    if (!imageUrl.startsWith(URL_PREFIX)) return imageUrl;
+    const id = imageUrl.slice(URL_PREFIX.length);
+    const cached = this.objectUrls.get(id);
+    if (cached) return cached;
+    const photo = await this.db.photos.get(id);
+    if (!photo) return null;
+    const url = URL.createObjectURL(photo.image);
+    this.objectUrls.set(id, url);
+    return url;
+  }
+
+  async removePhoto(imageUrl: string): Promise<void> {
+    if (!imageUrl.startsWith(URL_PREFIX)) return;
+    const id = imageUrl.slice(URL_PREFIX.length);
+    await this.db.photos.delete(id);
+    const url = this.objectUrls.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.objectUrls.delete(id);
+    }
+  }
+}
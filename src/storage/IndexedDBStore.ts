@@ -1,7 +1,10 @@
 import Dexie from 'dexie';
-import type { User, OnTheRoadVote, DrinkVote, Duel, DuelMessage, Team, DuelOutcome } from '../domain/types';
+import type {
+  User, OnTheRoadVote, DrinkVote, Duel, DuelMessage, Team, DuelOutcome, DominanceSnapshot, RatingRecord,
+} from '../domain/types';
 import type { StorageInterface } from './StorageInterface';
 import { getNow } from '../domain/clock';
+import { rateRecords, ratingRecordIds } from '../domain/duelRatings';
 
 class BrewCountryDB extends Dexie {
   users!: Dexie.Table<User, string>;
@@ -11,6 +14,10 @@ class BrewCountryDB extends Dexie {
   duelMessages!: Dexie.Table<DuelMessage, string>;
   duelOutcomes!: Dexie.Table<DuelOutcome, string>;
   teams!: Dexie.Table<Team, string>;
+  snapshots!: Dexie.Table<DominanceSnapshot, string>;
+  ratings!: Dexie.Table<RatingRecord, string>;
+  /** Duels already applied to `ratings` */
+  ratedDuels!: Dexie.Table<{ id: string; ratedAt: number }, string>;
 
   constructor() {
     super('BrewCountryDB');
@@ -31,6 +38,28 @@ class BrewCountryDB extends Dexie {
       duelOutcomes: '[duelId+userId], userId, expiresAt',
       teams: 'id, beerId',
     });
+    this.version(3).stores({
+      users: 'id',
+      otrVotes: 'id, userId, expiresAt',
+      drinkVotes: 'id, userId, expiresAt, placeKey, [userId+placeKey+beerId]',
+      duels: 'id, challengerUserId, defenderUserId, status',
+      duelMessages: 'id, duelId, createdAt',
+      duelOutcomes: '[duelId+userId], userId, expiresAt',
+      teams: 'id, beerId',
+      snapshots: 'id, takenAt, [areaId+takenAt]',
+    });
+    this.version(4).stores({
+      users: 'id',
+      otrVotes: 'id, userId, expiresAt',
+      drinkVotes: 'id, userId, expiresAt, placeKey, [userId+placeKey+beerId]',
+      duels: 'id, challengerUserId, defenderUserId, status',
+      duelMessages: 'id, duelId, createdAt',
+      duelOutcomes: '[duelId+userId], userId, expiresAt',
+      teams: 'id, beerId',
+      snapshots: 'id, takenAt, [areaId+takenAt]',
+      ratings: 'id',
+      ratedDuels: 'id',
+    });
   }
 }
 
@@ -114,6 +143,15 @@ export class IndexedDBStore implements StorageInterface {
   async saveDuelMessage(msg: DuelMessage): Promise<void> {
     await this.db.duelMessages.put(msg);
   }
+  async getDuelMessagesBefore(senderUserId: string, time: number): Promise<DuelMessage[]> {
+    return this.db.duelMessages
+      .where('createdAt').below(time)
+      .filter(m => m.senderUserId === senderUserId)
+      .toArray();
+  }
+  async removeDuelMessage(id: string): Promise<void> {
+    await this.db.duelMessages.delete(id);
+  }
 
   // ── Duel Outcomes ─────────────────────────────────────
   async getDuelOutcomes(userId: string): Promise<DuelOutcome[]> {
@@ -138,6 +176,21 @@ export class IndexedDBStore implements StorageInterface {
     return expired.length;
   }
 
+  // ── Duel Ratings ──────────────────────────────────────
+  async getRatingRecords(): Promise<RatingRecord[]> {
+    return this.db.ratings.toArray();
+  }
+  async rateDuel(duel: Duel): Promise<void> {
+    const ids = ratingRecordIds(duel);
+    if (ids.length === 0) return;
+    await this.db.transaction('rw', this.db.ratings, this.db.ratedDuels, async () => {
+      if (await this.db.ratedDuels.get(duel.id)) return;
+      const current = (await this.db.ratings.bulkGet(ids)).filter((r): r is RatingRecord => r !== undefined);
+      await this.db.ratings.bulkPut(rateRecords(current, duel));
+      await this.db.ratedDuels.put({ id: duel.id, ratedAt: getNow() });
+    });
+  }
+
   // ── Teams ─────────────────────────────────────────────
   async getTeam(beerId: string): Promise<Team | null> {
     return (await this.db.teams.where('beerId').equals(beerId).first()) ?? null;
@@ -148,4 +201,18 @@ export class IndexedDBStore implements StorageInterface {
   async getAllTeams(): Promise<Team[]> {
     return this.db.teams.toArray();
   }
+
+  // ── Dominance Snapshots ───────────────────────────────
+  async getSnapshots(areaId: string, since: number): Promise<DominanceSnapshot[]> {
+    return this.db.snapshots
+      .where('[areaId+takenAt]')
+      .between([areaId, since], [areaId, Dexie.maxKey])
+      .toArray();
+  }
+  async saveSnapshot(snapshot: DominanceSnapshot): Promise<void> {
+    await this.db.snapshots.put(snapshot);
+  }
+  async removeSnapshotsBefore(time: number): Promise<number> {
+    return this.db.snapshots.where('takenAt').below(time).delete();
+  }
 }
@@ -0,0 +1,12 @@
+/**
+ * Abstract storage for duel photos.
+ * Implementations: IndexedDB blobs (dev users, offline) and Firebase Storage.
+ */
+export interface PhotoStore {
+  /** Store an image; returns the value kept in `DuelMessage.imageUrl` */
+  savePhoto(id: string, image: Blob): Promise<string>;
+  /** URL an `<img>` can load for a stored `imageUrl`, null once it is gone */
+  resolvePhotoUrl(imageUrl: string): Promise<string | null>;
+  /** Resolves once the photo is gone, also when it already was */
+  removePhoto(imageUrl: string): Promise<void>;
+}
@@ -0,0 +1,15 @@
+const REGION_IDS_KEY = 'brewcountry_region_ids';
+
+/** Lattice node → region id table of the RegionIdRegistry */
+export function getRegionIds(): [string, string][] {
+  try {
+    const raw = localStorage.getItem(REGION_IDS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRegionIds(entries: [string, string][]): void {
+  localStorage.setItem(REGION_IDS_KEY, JSON.stringify(entries));
+}
@@ -1,4 +1,6 @@
-import type { User, OnTheRoadVote, DrinkVote, Duel, DuelMessage, Team, DuelOutcome } from '../domain/types';
+import type {
+  User, OnTheRoadVote, DrinkVote, Duel, DuelMessage, Team, DuelOutcome, DominanceSnapshot, RatingRecord,
+} from '../domain/types';
 
 /**
  * Abstract storage interface for all game entities.
@@ -32,14 +34,28 @@ export interface StorageInterface {
   // ── Duel Messages ─────────────────────────────────────
   getDuelMessages(duelId: string): Promise<DuelMessage[]>;
   saveDuelMessage(msg: DuelMessage): Promise<void>;
+  /** A user's messages sent before `time`, for the photo purge */
+  getDuelMessagesBefore(senderUserId: string, time: number): Promise<DuelMessage[]>;
+  removeDuelMessage(id: string): Promise<void>;
 
   // ── Duel Outcomes ─────────────────────────────────────
   getDuelOutcomes(userId: string): Promise<DuelOutcome[]>;
   saveDuelOutcome(outcome: DuelOutcome): Promise<void>;
   removeExpiredOutcomes(): Promise<number>;
 
+  // ── Duel Ratings ──────────────────────────────────────
+  getRatingRecords(): Promise<RatingRecord[]>;
+  /** Apply a resolved duel to the stored ratings, atomically and at most once per duel */
+  rateDuel(duel: Duel): Promise<void>;
+
   // ── Teams ─────────────────────────────────────────────
   getTeam(beerId: string): Promise<Team | null>;
   saveTeam(team: Team): Promise<void>;
   getAllTeams(): Promise<Team[]>;
+
+  // ── Dominance Snapshots ───────────────────────────────
+  /** Snapshots of one play area taken at or after `since`, oldest first */
+  getSnapshots(areaId: string, since: number): Promise<DominanceSnapshot[]>;
+  saveSnapshot(snapshot: DominanceSnapshot): Promise<void>;
+  removeSnapshotsBefore(time: number): Promise<number>;
 }
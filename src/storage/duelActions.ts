@@ -0,0 +1,99 @@
+import type { Duel, DuelOutcome, User } from '../domain/types';
+import type { StorageInterface } from './StorageInterface';
+import type { PhotoStore } from './PhotoStore';
+import { applyTimeout, createDuel, playRound, type DuelStep } from '../domain/duels';
+import { photoCutoff, roundPhotoId } from '../domain/photos';
+import { appEvents } from '../domain/events';
+import { getNow } from '../domain/clock';
+
+/** Persist a duel transition with its outcomes and announce it */
+export async function commitDuel(store: StorageInterface, duel: Duel, outcomes: DuelOutcome[]): Promise<void> {
+  await store.saveDuel(duel);
+  for (const outcome of outcomes) {
+    await store.saveDuelOutcome(outcome);
+  }
+  // Ratings move once, when the duel resolves with a winner
+  await store.rateDuel(duel);
+  appEvents.emit({ type: 'duel:updated', duel });
+}
+
+/** Resolve a user's overdue duels; returns all their duels, up to date */
+export async function settleDuels(store: StorageInterface, userId: string, now: number = getNow()): Promise<Duel[]> {
+  const duels = await store.getDuelsForUser(userId);
+  const settled: Duel[] = [];
+  for (const duel of duels) {
+    const timedOut = applyTimeout(duel, now);
+    if (timedOut) await commitDuel(store, timedOut.duel, timedOut.outcomes);
+    settled.push(timedOut?.duel ?? duel);
+  }
+  return settled;
+}
+
+/**
+ * Challenge `defender` over the region at `lat`/`lon`. The caps are checked
+ * against the stored duels of both players; the new duel is saved only when
+ * the challenge is valid.
+ */
+export async function challengeDuel(
+  store: StorageInterface,
+  challenger: Pick<User, 'id' | 'beerId'>,
+  defender: Pick<User, 'id' | 'beerId'>,
+  region: { lat: number; lon: number },
+  now: number = getNow()
+): Promise<DuelStep> {
+  const duels = [
+    ...await store.getDuelsForUser(challenger.id),
+    ...await store.getDuelsForUser(defender.id),
+  ];
+  const step = createDuel(challenger, defender, region, duels, now);
+  if (step.ok) await commitDuel(store, step.duel, step.outcomes);
+  return step;
+}
+
+/**
+ * Play a round by sending a photo. The image is stored before the message
+ * and the duel, so a round never points at a missing photo.
+ */
+export async function playPhotoRound(
+  store: StorageInterface,
+  photos: PhotoStore,
+  duel: Duel,
+  userId: string,
+  image: Blob,
+  now: number = getNow()
+): Promise<DuelStep> {
+  const step = playRound(duel, userId, now);
+  if (!step.ok) return step;
+  const id = roundPhotoId(step.duel);
+  const imageUrl = await photos.savePhoto(id, image);
+  await store.saveDuelMessage({ id, duelId: duel.id, senderUserId: userId, imageUrl, createdAt: now });
+  await commitDuel(store, step.duel, step.outcomes);
+  return step;
+}
+
+/**
+ * Delete the duel photos `userId` sent more than PHOTO_TTL_DAYS ago, each
+ * message only after its photo is gone. Every client only clears its own
+ * uploads. Returns the number of messages removed.
+ */
+export async function purgeDuelPhotos(
+  store: StorageInterface,
+  photos: PhotoStore,
+  userId: string,
+  now: number = getNow()
+): Promise<number> {
+  const old = await store.getDuelMessagesBefore(userId, photoCutoff(now));
+  let removed = 0;
+  for (const msg of old) {
+    // A photo that could not be deleted keeps its message for the next run
+    try {
+      await photos.removePhoto(msg.imageUrl);
+    } catch (e) {
+      console.error('duel photo purge error:', e);
+      continue;
+    }
+    await store.removeDuelMessage(msg.id);
+    removed++;
+  }
+  return removed;
+}
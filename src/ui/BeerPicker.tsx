@@ -1,17 +1,18 @@
-import { BEERS } from '../domain/beers';
+import type { PlayArea } from '../domain/types';
 import './BeerPicker.css';
 
 interface Props {
   selectedBeerId: string | null;
+  playArea: PlayArea;
   onSelect: (beerId: string) => void;
 }
 
-export function BeerPicker({ selectedBeerId, onSelect }: Props) {
+export function BeerPicker({ selectedBeerId, playArea, onSelect }: Props) {
   return (
     <div className="beer-picker">
       <h3>Bier ausw&auml;hlen</h3>
       <div className="beer-list">
-        {BEERS.map((beer) => (
+        {playArea.beers.map((beer) => (
           <button
             key={beer.id}
             className={`beer-item ${selectedBeerId === beer.id ? 'selected' : ''}`}
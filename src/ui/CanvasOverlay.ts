@@ -1,7 +1,11 @@
 import L from 'leaflet';
-import type { CellResult, DominanceResult, OverlaySettings } from '../domain/types';
+import type { CellResult, DominanceResult, InfluenceResult, OverlaySettings, RegionShape } from '../domain/types';
 import { BEER_MAP } from '../domain/beers';
-import { metersToDegLat, metersToDegLon } from '../domain/geo';
+import { cellIndexAt, gridToLatLon, latLonToGrid, sameGridSpec } from '../domain/geo';
+import { cellCorners, cellX, edgeNeighbours, forwardNeighbours, gridShape, sharedEdge, type GridPoint } from '../domain/gridTopology';
+import { cellAt, winnerGrid } from '../domain/dominanceColumns';
+import { traceRegionShapes } from '../domain/contours';
+import { isContestedEdge } from '../domain/frontlines';
 
 const DEFAULT_SETTINGS: OverlaySettings = {
   showBorders: true,
@@ -31,12 +35,11 @@ function createSwordsDataUri(): string {
 /**
  * Custom Leaflet layer that renders dominance data on a canvas.
  *
- * KEY DESIGN: We precompute a vertex grid of pixel coordinates so that
- * neighbouring cells share exactly the same corner vertices. This eliminates
- * gaps between border segments.
+ * Territories and borders are drawn from the vector outlines of
+ * traceRegionShapes (traced once per result, projected per redraw).
  *
- * Vertex grid has (rows+1) × (cols+1) entries. Vertex (r,c) is the
- * TOP-LEFT corner of cell (r,c).
+ * Contested edges still follow the cell grid, square or hex: each edge
+ * between two cells is drawn from its shared corners (see gridTopology).
  */
 export class DominanceCanvasLayer extends L.Layer {
   private _canvas: HTMLCanvasElement | null = null;
@@ -45,13 +48,22 @@ export class DominanceCanvasLayer extends L.Layer {
   private _logoImages = new Map<string, HTMLImageElement>();
   private _swordsImg: HTMLImageElement | null = null;
   private _settings: OverlaySettings = { ...DEFAULT_SETTINGS };
+  private _shapes: RegionShape[] = [];
+  private _influence: InfluenceResult | null = null;
 
   setDominanceData(data: DominanceResult | null) {
     this._dominanceData = data;
+    this._shapes = data ? traceRegionShapes(data) : [];
     this._preloadLogos();
     this._redraw();
   }
 
+  /** Highlight where one user's votes matter; drawn only on the matching grid */
+  setInfluence(influence: InfluenceResult | null) {
+    this._influence = influence;
+    this._redraw();
+  }
+
   getDominanceData(): DominanceResult | null {
     return this._dominanceData;
   }
@@ -125,220 +137,81 @@ export class DominanceCanvasLayer extends L.Layer {
     ctx.clearRect(0, 0, size.x, size.y);
 
     const data = this._dominanceData;
-    if (!data || data.cells.length === 0) return;
+    if (!data || data.winner.length === 0) return;
 
     const gs = data.gridSpec;
     const bounds = map.getBounds();
     const settings = this._settings;
     const rows = data.rows;
     const cols = data.cols;
-    const cellDLat = metersToDegLat(gs.cellSizeMeters);
+    const shape = gridShape(gs);
 
     // ── Build winner grid ────────────────────────────────────
-    const grid: (string | null)[] = new Array(rows * cols).fill(null);
-    const marginArr: Float32Array = new Float32Array(rows * cols).fill(1);
-    const totalArr: Float32Array = new Float32Array(rows * cols).fill(0);
-    for (const cell of data.cells) {
-      const idx = cell.row * cols + cell.col;
-      grid[idx] = cell.winnerBeerId;
-      marginArr[idx] = cell.margin;
-      totalArr[idx] = cell.totalCount;
-    }
-
-    // ── Precompute vertex grid (rows+1 × cols+1) ────────────
-    // Vertex (vr, vc) = top-left corner of cell (vr, vc).
-    // Each vertex is computed exactly ONCE so neighbouring cells
-    // share the same pixel coordinates → no gaps.
-    const vRows = rows + 1;
-    const vCols = cols + 1;
-    const vx = new Float32Array(vRows * vCols);
-    const vy = new Float32Array(vRows * vCols);
-
-    for (let vr = 0; vr < vRows; vr++) {
-      const lat = gs.minLat + vr * cellDLat;
-      const dLon = metersToDegLon(gs.cellSizeMeters, lat);
-      for (let vc = 0; vc < vCols; vc++) {
-        const lon = gs.minLon + vc * dLon;
-        const pt = map.latLngToContainerPoint([lat, lon]);
-        const vi = vr * vCols + vc;
-        vx[vi] = pt.x;
-        vy[vi] = pt.y;
-      }
-    }
+    const grid = winnerGrid(data);
 
-    // Helper: get vertex pixel coords
-    const vIdx = (vr: number, vc: number) => vr * vCols + vc;
+    // Helper: pixel coords of a cell corner
+    const corner = ([x, y]: GridPoint) => {
+      const { lat, lon } = gridToLatLon(gs, x, y);
+      return map.latLngToContainerPoint([lat, lon]);
+    };
 
     // Visible row/col range (with 1-cell margin)
-    const south = bounds.getSouth();
-    const north = bounds.getNorth();
-    const west = bounds.getWest();
-    const east = bounds.getEast();
-    let rMin = Math.max(0, Math.floor((south - gs.minLat) / cellDLat) - 1);
-    let rMax = Math.min(rows - 1, Math.ceil((north - gs.minLat) / cellDLat) + 1);
-    let cMinDefault = 0;
-    let cMaxDefault = cols - 1;
-    {
-      const midLat = (south + north) / 2;
-      const dLon = metersToDegLon(gs.cellSizeMeters, midLat);
-      cMinDefault = Math.max(0, Math.floor((west - gs.minLon) / dLon) - 1);
-      cMaxDefault = Math.min(cols - 1, Math.ceil((east - gs.minLon) / dLon) + 1);
-    }
+    const sw = latLonToGrid(gs, bounds.getSouth(), bounds.getWest());
+    const ne = latLonToGrid(gs, bounds.getNorth(), bounds.getEast());
+    let rMin = Math.max(0, Math.floor(sw.y) - 1);
+    let rMax = Math.min(rows - 1, Math.ceil(ne.y) + 1);
+    let cMinDefault = Math.max(0, Math.floor(sw.x) - 1);
+    let cMaxDefault = Math.min(cols - 1, Math.ceil(ne.x) + 1);
     // Clamp
     rMin = Math.max(0, rMin);
     rMax = Math.min(rows - 1, rMax);
     cMinDefault = Math.max(0, cMinDefault);
     cMaxDefault = Math.min(cols - 1, cMaxDefault);
 
-    // ── Pass 1: Fill cells ───────────────────────────────────
-    for (let r = rMin; r <= rMax; r++) {
-      for (let c = cMinDefault; c <= cMaxDefault; c++) {
-        const beerId = grid[r * cols + c];
-        if (beerId === null) continue;
-        const beer = BEER_MAP.get(beerId);
-        if (!beer) continue;
-
-        // 4 corners of cell (r,c): TL=(r,c), TR=(r,c+1), BR=(r+1,c+1), BL=(r+1,c)
-        // Note: lat increases upward but row 0 = minLat (bottom),
-        // and latLngToContainerPoint gives y increasing downward,
-        // so row r vertex is at BOTTOM and row r+1 is further south (larger y).
-        // Actually: vertex vr corresponds to lat = minLat + vr*cellDLat.
-        // Higher vr = higher lat = smaller y (higher on screen).
-        // So TL on screen = vertex (r+1, c), TR = (r+1, c+1),
-        //    BL = (r, c), BR = (r, c+1).
-        const tlIdx = vIdx(r + 1, c);
-        const trIdx = vIdx(r + 1, c + 1);
-        const brIdx = vIdx(r, c + 1);
-        const blIdx = vIdx(r, c);
-
-        ctx.fillStyle = beer.color;
-        ctx.globalAlpha = 0.28;
-        ctx.beginPath();
-        ctx.moveTo(vx[tlIdx], vy[tlIdx]);
-        ctx.lineTo(vx[trIdx], vy[trIdx]);
-        ctx.lineTo(vx[brIdx], vy[brIdx]);
-        ctx.lineTo(vx[blIdx], vy[blIdx]);
-        ctx.closePath();
-        ctx.fill();
+    // ── Pass 1 + 2: Territory fills and borders ─────────────
+    // Vector outlines from traceRegionShapes; one path per region so
+    // holes cut out with the even-odd rule.
+    const project = ([lon, lat]: [number, number]) => map.latLngToContainerPoint([lat, lon]);
+    const paths: Path2D[] = [];
+    for (const shape of this._shapes) {
+      const bb = shape.bbox;
+      if (bb.maxLat < bounds.getSouth() || bb.minLat > bounds.getNorth() ||
+          bb.maxLon < bounds.getWest() || bb.minLon > bounds.getEast()) continue;
+      const beer = BEER_MAP.get(shape.beerId);
+      if (!beer) continue;
+
+      const path = new Path2D();
+      for (const polygon of shape.polygons) {
+        for (const ring of polygon) {
+          ring.forEach((p, k) => {
+            const pt = project(p);
+            if (k === 0) path.moveTo(pt.x, pt.y);
+            else path.lineTo(pt.x, pt.y);
+          });
+          path.closePath();
+        }
       }
+
+      ctx.fillStyle = beer.color;
+      ctx.globalAlpha = 0.28;
+      ctx.fill(path, 'evenodd');
+      paths.push(path);
     }
 
-    // ── Pass 2: Borders ──────────────────────────────────────
-    // For every interior edge between two cells with different winners,
-    // draw a line between the two shared vertices.
-    // Because we use the same vertex array, lines are perfectly continuous.
     if (settings.showBorders) {
       ctx.globalAlpha = 0.75;
       ctx.strokeStyle = '#1e293b';
       ctx.lineWidth = settings.borderWidth;
       ctx.lineJoin = 'round';
       ctx.lineCap = 'round';
-      ctx.beginPath();
-
-      for (let r = rMin; r <= rMax; r++) {
-        for (let c = cMinDefault; c <= cMaxDefault; c++) {
-          const myBeer = grid[r * cols + c];
-          if (myBeer === null) continue;
-
-          // Right edge: between cell (r,c) and (r,c+1)
-          if (c + 1 < cols) {
-            const rightBeer = grid[r * cols + c + 1];
-            if (rightBeer !== myBeer) {
-              // Shared edge: vertices (r, c+1) and (r+1, c+1)
-              const v0 = vIdx(r, c + 1);
-              const v1 = vIdx(r + 1, c + 1);
-              ctx.moveTo(vx[v0], vy[v0]);
-              ctx.lineTo(vx[v1], vy[v1]);
-            }
-          } else if (myBeer !== null) {
-            // Right grid boundary
-            const v0 = vIdx(r, c + 1);
-            const v1 = vIdx(r + 1, c + 1);
-            ctx.moveTo(vx[v0], vy[v0]);
-            ctx.lineTo(vx[v1], vy[v1]);
-          }
-
-          // Bottom edge: between cell (r,c) and (r-1,c)
-          // (r-1 because row 0 is at minLat = south)
-          if (r > 0) {
-            const bottomBeer = grid[(r - 1) * cols + c];
-            if (bottomBeer !== myBeer) {
-              // Shared edge: vertices (r, c) and (r, c+1)
-              const v0 = vIdx(r, c);
-              const v1 = vIdx(r, c + 1);
-              ctx.moveTo(vx[v0], vy[v0]);
-              ctx.lineTo(vx[v1], vy[v1]);
-            }
-          } else if (myBeer !== null) {
-            // Bottom grid boundary
-            const v0 = vIdx(0, c);
-            const v1 = vIdx(0, c + 1);
-            ctx.moveTo(vx[v0], vy[v0]);
-            ctx.lineTo(vx[v1], vy[v1]);
-          }
-
-          // Left edge: between cell (r,c) and (r,c-1)
-          if (c > 0) {
-            const leftBeer = grid[r * cols + c - 1];
-            if (leftBeer === null) {
-              // Beer cell borders empty space on the left
-              const v0 = vIdx(r, c);
-              const v1 = vIdx(r + 1, c);
-              ctx.moveTo(vx[v0], vy[v0]);
-              ctx.lineTo(vx[v1], vy[v1]);
-            }
-          } else {
-            // Left grid boundary
-            const v0 = vIdx(r, 0);
-            const v1 = vIdx(r + 1, 0);
-            ctx.moveTo(vx[v0], vy[v0]);
-            ctx.lineTo(vx[v1], vy[v1]);
-          }
-
-          // Top edge: between cell (r,c) and (r+1,c)
-          if (r + 1 < rows) {
-            const topBeer = grid[(r + 1) * cols + c];
-            if (topBeer === null) {
-              // Beer cell borders empty space on top
-              const v0 = vIdx(r + 1, c);
-              const v1 = vIdx(r + 1, c + 1);
-              ctx.moveTo(vx[v0], vy[v0]);
-              ctx.lineTo(vx[v1], vy[v1]);
-            }
-          } else {
-            // Top grid boundary
-            const v0 = vIdx(r + 1, c);
-            const v1 = vIdx(r + 1, c + 1);
-            ctx.moveTo(vx[v0], vy[v0]);
-            ctx.lineTo(vx[v1], vy[v1]);
-          }
-        }
-      }
-
-      ctx.stroke();
+      for (const path of paths) ctx.stroke(path);
     }
 
     // ── Pass 3: Contested border highlight + swords ─────────
     if (settings.showSwords) {
       const swordsImg = this._swordsImg;
-      const thresh = settings.closeMarginThreshold;
-      // A border is only "contested" when BOTH adjacent cells have:
-      //   1. Enough total weight (genuine presence on both sides)
-      //   2. A close margin (neither side is dominant in that cell)
-      // This prevents ALL borders from being contested just because
-      // they lie at the mathematical midpoint of overlapping circles.
-      const minWeight = settings.closeMarginMinWeight ?? 3.0;
       const useSvg = swordsImg && swordsImg.complete && swordsImg.naturalWidth > 0;
 
-      const isContested = (idx: number, nIdx: number): boolean => {
-        return (
-          marginArr[idx] <= thresh &&
-          marginArr[nIdx] <= thresh &&
-          totalArr[idx] >= minWeight &&
-          totalArr[nIdx] >= minWeight
-        );
-      };
-
       // 3a — Draw a coloured highlight line along all contested edges
       ctx.globalAlpha = 0.6;
       ctx.strokeStyle = '#d97706'; // amber-600
@@ -356,34 +229,21 @@ export class DominanceCanvasLayer extends L.Layer {
           if (myBeer === null) continue;
           const myIdx = r * cols + c;
 
-          // Right edge
-          if (c + 1 < cols) {
-            const rightBeer = grid[r * cols + c + 1];
-            if (rightBeer !== null && rightBeer !== myBeer) {
-              const nIdx = r * cols + c + 1;
-              if (isContested(myIdx, nIdx)) {
-                const v0 = vIdx(r, c + 1);
-                const v1 = vIdx(r + 1, c + 1);
-                ctx.moveTo(vx[v0], vy[v0]);
-                ctx.lineTo(vx[v1], vy[v1]);
-                swordEdges.push([vx[v0], vy[v0], vx[v1], vy[v1]]);
-              }
-            }
-          }
-
-          // Bottom edge (between r and r-1)
-          if (r > 0) {
-            const belowBeer = grid[(r - 1) * cols + c];
-            if (belowBeer !== null && belowBeer !== myBeer) {
-              const nIdx = (r - 1) * cols + c;
-              if (isContested(myIdx, nIdx)) {
-                const v0 = vIdx(r, c);
-                const v1 = vIdx(r, c + 1);
-                ctx.moveTo(vx[v0], vy[v0]);
-                ctx.lineTo(vx[v1], vy[v1]);
-                swordEdges.push([vx[v0], vy[v0], vx[v1], vy[v1]]);
-              }
-            }
+          // East and south edges only, so every edge is checked once
+          for (const [dr, dc] of forwardNeighbours(shape, r)) {
+            const nr = r + dr;
+            const nc = c + dc;
+            if (nr < 0 || nc < 0 || nc >= cols) continue;
+            const nIdx = nr * cols + nc;
+            const otherBeer = grid[nIdx];
+            if (otherBeer === null || otherBeer === myBeer) continue;
+            if (!isContestedEdge(data, myIdx, nIdx, settings)) continue;
+            const [a, b] = sharedEdge(shape, r, c, dr, dc);
+            const p0 = corner(a);
+            const p1 = corner(b);
+            ctx.moveTo(p0.x, p0.y);
+            ctx.lineTo(p1.x, p1.y);
+            swordEdges.push([p0.x, p0.y, p1.x, p1.y]);
           }
         }
       }
@@ -402,10 +262,42 @@ export class DominanceCanvasLayer extends L.Layer {
       }
     }
 
-    // ── Pass 4: Region logos ─────────────────────────────────
+    // ── Pass 4: Influence highlight ──────────────────────────
+    // Cells the user backs are tinted by their share of the winner's
+    // weight; cells they decide get a solid outline.
+    const influence = this._influence;
+    if (influence && influence.rows === rows && influence.cols === cols && sameGridSpec(influence.gridSpec, gs)) {
+      ctx.fillStyle = '#fbbf24'; // amber-400
+      ctx.strokeStyle = '#f59e0b'; // amber-500
+      ctx.lineWidth = 1.5;
+      ctx.lineJoin = 'round';
+      const decided = new Path2D();
+      for (let r = rMin; r <= rMax; r++) {
+        for (let c = cMinDefault; c <= cMaxDefault; c++) {
+          const idx = r * cols + c;
+          const share = influence.share[idx];
+          const decisive = influence.decisive[idx] === 1;
+          if (share <= 0 && !decisive) continue;
+          const cell = new Path2D();
+          cellCorners(shape, r, c).forEach((p, k) => {
+            const pt = corner(p);
+            if (k === 0) cell.moveTo(pt.x, pt.y);
+            else cell.lineTo(pt.x, pt.y);
+          });
+          cell.closePath();
+          ctx.globalAlpha = 0.08 + 0.32 * share + (decisive ? 0.2 : 0);
+          ctx.fill(cell);
+          if (decisive) decided.addPath(cell);
+        }
+      }
+      ctx.globalAlpha = 0.9;
+      ctx.stroke(decided);
+    }
+
+    // ── Pass 5: Region logos ─────────────────────────────────
     if (settings.showLogos) {
       ctx.globalAlpha = 1.0;
-      this._drawRegionLogos(ctx, data, grid, gs, cellDLat, bounds, map, rows, cols);
+      this._drawRegionLogos(ctx, data, grid, gs, bounds, map, rows, cols);
     }
     ctx.globalAlpha = 1.0;
   };
@@ -457,12 +349,12 @@ export class DominanceCanvasLayer extends L.Layer {
     _data: DominanceResult,
     grid: (string | null)[],
     gs: DominanceResult['gridSpec'],
-    cellDLat: number,
     bounds: L.LatLngBounds,
     map: L.Map,
     rows: number,
     cols: number
   ) {
+    const shape = gridShape(gs);
     const visited = new Uint8Array(rows * cols);
     const regions: { beerId: string; sumRow: number; sumCol: number; count: number }[] = [];
 
@@ -482,17 +374,15 @@ export class DominanceCanvasLayer extends L.Layer {
           const cr = (ci / cols) | 0;
           const cc = ci % cols;
           region.sumRow += cr;
-          region.sumCol += cc;
+          region.sumCol += cellX(shape, cr, cc);
           region.count++;
 
-          const neighbors = [
-            cr > 0 ? (cr - 1) * cols + cc : -1,
-            cr < rows - 1 ? (cr + 1) * cols + cc : -1,
-            cc > 0 ? cr * cols + (cc - 1) : -1,
-            cc < cols - 1 ? cr * cols + (cc + 1) : -1,
-          ];
-          for (const ni of neighbors) {
-            if (ni < 0 || visited[ni]) continue;
+          for (const [dr, dc] of edgeNeighbours(shape, cr)) {
+            const nr = cr + dr;
+            const nc = cc + dc;
+            if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+            const ni = nr * cols + nc;
+            if (visited[ni]) continue;
             if (grid[ni] !== beerId) continue;
             visited[ni] = 1;
             queue.push(ni);
@@ -505,11 +395,7 @@ export class DominanceCanvasLayer extends L.Layer {
     const minRegionSize = 4;
     for (const region of regions) {
       if (region.count < minRegionSize) continue;
-      const avgRow = region.sumRow / region.count;
-      const avgCol = region.sumCol / region.count;
-      const lat = gs.minLat + (avgRow + 0.5) * cellDLat;
-      const dLon = metersToDegLon(gs.cellSizeMeters, lat);
-      const lon = gs.minLon + (avgCol + 0.5) * dLon;
+      const { lat, lon } = gridToLatLon(gs, region.sumCol / region.count, region.sumRow / region.count);
       if (!bounds.contains([lat, lon])) continue;
       const pt = map.latLngToContainerPoint([lat, lon]);
       const scale = Math.min(2.5, Math.max(1, Math.sqrt(region.count) / 6));
@@ -535,18 +421,6 @@ export function findCellAt(
   data: DominanceResult | null
 ): CellResult | null {
   if (!data) return null;
-  const gs = data.gridSpec;
-  const cellDLat = metersToDegLat(gs.cellSizeMeters);
-  const row = Math.floor((lat - gs.minLat) / cellDLat);
-  if (row < 0 || row >= data.rows) return null;
-  const cellLat = gs.minLat + (row + 0.5) * cellDLat;
-  const cellDLon = metersToDegLon(gs.cellSizeMeters, cellLat);
-  const col = Math.floor((lon - gs.minLon) / cellDLon);
-  if (col < 0 || col >= data.cols) return null;
-  const idx = row * data.cols + col;
-  if (idx >= 0 && idx < data.cells.length) {
-    const c = data.cells[idx];
-    if (c.row === row && c.col === col) return c;
-  }
-  return data.cells.find((c) => c.row === row && c.col === col) ?? null;
+  const cell = cellIndexAt(data.gridSpec, data.rows, data.cols, lat, lon);
+  return cell ? cellAt(data, cell.row, cell.col) : null;
 }
@@ -1,22 +1,22 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { User, DrinkVote } from '../domain/types';
+import type { User, DrinkVote, PlayArea } from '../domain/types';
 import type { StorageInterface } from '../storage/StorageInterface';
 import { GAME } from '../config/constants';
 import { getNow } from '../domain/clock';
 import { roundToPlaceKey } from '../domain/placeKey';
 import { validateDrinkVote, getDailyDrinkCount } from '../domain/drinkVoteRules';
 import { acquireGpsSamples } from '../domain/gpsVerify';
-import { BEERS } from '../domain/beers';
 import { appEvents } from '../domain/events';
 import './DrinkVoteButton.css';
 
 interface Props {
   user: User;
   store: StorageInterface;
+  playArea: PlayArea;
   onVoteCreated: () => void;
 }
 
-export function DrinkVoteButton({ user, store, onVoteCreated }: Props) {
+export function DrinkVoteButton({ user, store, playArea, onVoteCreated }: Props) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -103,7 +103,7 @@ export function DrinkVoteButton({ user, store, onVoteCreated }: Props) {
         onChange={e => setSelectedBeerId(e.target.value)}
         disabled={loading}
       >
-        {BEERS.map(b => (
+        {playArea.beers.map(b => (
           <option key={b.id} value={b.id}>{b.name}</option>
         ))}
       </select>
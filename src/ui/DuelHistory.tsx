@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import type { Duel, DuelRatings, PlayArea } from '../domain/types';
+import { BEER_MAP } from '../domain/beers';
+import { duelHistory, duelStats } from '../domain/duelRatings';
+import { placeNameAt } from '../domain/gazetteer';
+import { GAME } from '../config/constants';
+import './DuelHistory.css';
+
+interface Props {
+  userId: string;
+  /** The user's duels; only resolved ones are shown */
+  duels: Duel[];
+  ratings: DuelRatings;
+  playArea: PlayArea;
+}
+
+const MAX_HISTORY = 10;
+
+function resultOf(duel: Duel, userId: string): { label: string; className: string } {
+  if (duel.winnerId === userId) return { label: 'Sieg', className: 'won' };
+  if (duel.loserId === userId) return { label: 'Niederlage', className: 'lost' };
+  if (duel.status === 'declined') return { label: 'Abgelehnt', className: 'void' };
+  return { label: 'Verfallen', className: 'void' };
+}
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return `${hours}h ${Math.floor((ms % (60 * 60 * 1000)) / (60 * 1000))}m`;
+}
+
+export function DuelHistory({ userId, duels, ratings, playArea }: Props) {
+  const history = useMemo(() => duelHistory(duels, userId), [duels, userId]);
+  const stats = useMemo(() => duelStats(duels, userId), [duels, userId]);
+
+  if (history.length === 0) return null;
+
+  const rating = ratings.users.get(userId)?.rating ?? GAME.RATING_START;
+
+  return (
+    <div className="duel-history">
+      <h3>Duell-Bilanz</h3>
+      <div className="duel-stats">
+        <div className="duel-stat">
+          <span className="duel-stat-value">{Math.round(rating)}</span>
+          <span className="duel-stat-label">Rating</span>
+        </div>
+        <div className="duel-stat">
+          <span className="duel-stat-value">{stats.wins}</span>
+          <span className="duel-stat-label">Siege</span>
+        </div>
+        <div className="duel-stat">
+          <span className="duel-stat-value">{stats.losses}</span>
+          <span className="duel-stat-label">Niederlagen</span>
+        </div>
+        <div className="duel-stat">
+          <span className="duel-stat-value">{stats.timeouts}</span>
+          <span className="duel-stat-label">Timeouts</span>
+        </div>
+        <div className="duel-stat">
+          <span className="duel-stat-value">{stats.longest ? formatDuration(stats.longest.durationMs) : '–'}</span>
+          <span className="duel-stat-label">Längstes</span>
+        </div>
+      </div>
+      <div className="duel-history-list">
+        {history.slice(0, MAX_HISTORY).map((duel) => {
+          const result = resultOf(duel, userId);
+          const opponentBeerId = duel.challengerUserId === userId ? duel.defenderBeerId : duel.challengerBeerId;
+          const opponentBeer = BEER_MAP.get(opponentBeerId);
+          const place = placeNameAt(duel.regionLat, duel.regionLon);
+          const date = new Date(duel.resolvedAt ?? duel.lastActionAt).toLocaleDateString(playArea.locale);
+          return (
+            <div key={duel.id} className="duel-history-item">
+              <span className={`duel-result ${result.className}`}>{result.label}</span>
+              <span className="duel-history-text">
+                vs <span style={{ color: opponentBeer?.color }}>{opponentBeer?.name ?? opponentBeerId}</span>
+                {place ? ` • ${place}` : ''}
+                {duel.roundCount > 0 ? ` • ${duel.roundCount} Runden` : ''}
+              </span>
+              <span className="duel-history-date">{date}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useMemo, useState } from 'react';
+import type { DuelRatings, LadderRow } from '../domain/types';
+import { BEER_MAP } from '../domain/beers';
+import { beerLadder, playerLadder, regionLadders } from '../domain/duelRatings';
+import './DuelHistory.css';
+
+interface Props {
+  userId: string;
+  beerId: string;
+  ratings: DuelRatings;
+}
+
+const MAX_ROWS = 10;
+
+export function DuelLadder({ userId, beerId, ratings }: Props) {
+  /** Scope of the player ladder: `beer:<id>` or `region:<place>` */
+  const [scope, setScope] = useState(`beer:${beerId}`);
+  const beers = useMemo(() => beerLadder(ratings), [ratings]);
+  const regions = useMemo(() => regionLadders(ratings), [ratings]);
+  // The user's own beer is always selectable, even before it has a rating
+  const beerIds = useMemo(() => {
+    const ids = beers.map((row) => row.id);
+    return ids.includes(beerId) ? ids : [beerId, ...ids];
+  }, [beers, beerId]);
+
+  if (beers.length === 0) return null;
+
+  const players: LadderRow[] = scope.startsWith('region:')
+    ? regions.get(scope.slice('region:'.length)) ?? []
+    : playerLadder(ratings, scope.slice('beer:'.length));
+
+  return (
+    <div className="duel-history">
+      <h3>Rangliste</h3>
+      <div className="ladder-list">
+        {beers.slice(0, MAX_ROWS).map((row, i) => {
+          const beer = BEER_MAP.get(row.id);
+          return (
+            <div key={row.id} className={`ladder-row${row.id === beerId ? ' me' : ''}`}>
+              <span className="ladder-rank">{i + 1}</span>
+              <span className="ladder-name">
+                <span className="ladder-dot" style={{ background: beer?.color }} />
+                {beer?.name ?? row.id}
+              </span>
+              <span className="ladder-record">{row.wins}–{row.losses}</span>
+              <span className="ladder-rating">{Math.round(row.rating)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="ladder-scope">
+        <select value={scope} onChange={(e) => setScope(e.target.value)}>
+          <optgroup label="Spieler je Bier">
+            {beerIds.map((id) => (
+              <option key={id} value={`beer:${id}`}>{BEER_MAP.get(id)?.name ?? id}</option>
+            ))}
+          </optgroup>
+          {regions.size > 0 && (
+            <optgroup label="Spieler je Region">
+              {[...regions.keys()].map((place) => (
+                <option key={place} value={`region:${place}`}>{place}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+      <div className="ladder-list">
+        {players.length === 0 && <p className="ladder-empty">Noch keine Duelle</p>}
+        {players.slice(0, MAX_ROWS).map((row, i) => {
+          const beer = BEER_MAP.get(ratings.userBeers.get(row.id) ?? '');
+          return (
+            <div key={row.id} className={`ladder-row${row.id === userId ? ' me' : ''}`}>
+              <span className="ladder-rank">{i + 1}</span>
+              <span className="ladder-name">
+                <span className="ladder-dot" style={{ background: beer?.color }} />
+                {row.id === userId ? 'Du' : row.id.substring(0, 8) + '...'}
+              </span>
+              <span className="ladder-record">{row.wins}–{row.losses}</span>
+              <span className="ladder-rating">{Math.round(row.rating)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,32 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Duel, User } from '../domain/types';
 import type { StorageInterface } from '../storage/StorageInterface';
+import type { PhotoStore } from '../storage/PhotoStore';
 import { BEER_MAP } from '../domain/beers';
+import { getNow } from '../domain/clock';
+import {
+  acceptDuel, concedeDuel, declineDuel, duelDeadline, duelTurn, isDuelOpen, type DuelStep,
+} from '../domain/duels';
+import { commitDuel, playPhotoRound, settleDuels } from '../storage/duelActions';
+import { preparePhoto } from '../services/photoPipeline';
+import { appEvents } from '../domain/events';
 import { GAME } from '../config/constants';
 import './DuelPanel.css';
 
 interface Props {
   user: User;
   store: StorageInterface;
+  photos: PhotoStore;
 }
 
+const STATUS_LABELS: Record<Duel['status'], string> = {
+  pending: 'offen',
+  active: 'läuft',
+  completed: 'beendet',
+  declined: 'abgelehnt',
+  timeout: 'Zeit abgelaufen',
+};
+
 function formatTimeLeft(ms: number): string {
   if (ms <= 0) return 'Abgelaufen';
   const hours = Math.floor(ms / (60 * 60 * 1000));
@@ -18,28 +35,77 @@ function formatTimeLeft(ms: number): string {
   return `${mins}m`;
 }
 
-function getDuelTimeoutMs(duel: Duel): number {
-  if (duel.status === 'pending') {
-    return duel.createdAt + GAME.DUEL_ACCEPT_TIMEOUT_HOURS * 60 * 60 * 1000 - Date.now();
-  }
-  if (duel.status === 'active') {
-    return duel.lastActionAt + GAME.DUEL_ROUND_TIMEOUT_HOURS * 60 * 60 * 1000 - Date.now();
-  }
-  return 0;
+/** Overdue duels are resolved on every load, so timeouts hand out their outcomes */
+async function loadOpenDuels(store: StorageInterface, userId: string): Promise<Duel[]> {
+  const duels = await settleDuels(store, userId);
+  return duels.filter(d => isDuelOpen(d));
+}
+
+/** Photos of a duel's rounds, oldest first; reloads when `roundCount` changes */
+function DuelPhotos({ duelId, roundCount, userId, store, photos }: {
+  duelId: string;
+  roundCount: number;
+  userId: string;
+  store: StorageInterface;
+  photos: PhotoStore;
+}) {
+  const [shots, setShots] = useState<{ id: string; url: string; mine: boolean }[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const messages = await store.getDuelMessages(duelId);
+      const resolved = [];
+      for (const msg of messages) {
+        const url = await photos.resolvePhotoUrl(msg.imageUrl).catch(() => null);
+        if (url) resolved.push({ id: msg.id, url, mine: msg.senderUserId === userId });
+      }
+      if (!cancelled) setShots(resolved);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [duelId, roundCount, userId, store, photos]);
+
+  if (shots.length === 0) return null;
+
+  return (
+    <div className="duel-photos">
+      {shots.map(shot => (
+        <a key={shot.id} href={shot.url} target="_blank" rel="noreferrer" className={`duel-photo${shot.mine ? ' mine' : ''}`}>
+          <img src={shot.url} alt={shot.mine ? 'Dein Foto' : 'Foto des Gegners'} loading="lazy" />
+        </a>
+      ))}
+    </div>
+  );
 }
 
-export function DuelPanel({ user, store }: Props) {
+export function DuelPanel({ user, store, photos }: Props) {
   const [duels, setDuels] = useState<Duel[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  /** Duel whose photo is being processed and uploaded */
+  const [sending, setSending] = useState<string | null>(null);
   const [_, setTick] = useState(0);
 
   useEffect(() => {
     const load = async () => {
-      const d = await store.getDuelsForUser(user.id);
-      setDuels(d.filter(d => d.status === 'pending' || d.status === 'active'));
+      try {
+        setDuels(await loadOpenDuels(store, user.id));
+      } catch (e) {
+        setError('Duelle konnten nicht geladen werden.');
+        console.error('duel load error:', e);
+      }
     };
     load();
     const interval = setInterval(load, 30_000);
-    return () => clearInterval(interval);
+    // Challenges sent from the map or friends list and moves announced by
+    // the defender subscription show up right away
+    const off = appEvents.on((event) => {
+      if (event.type === 'duel:updated') load();
+    });
+    return () => {
+      clearInterval(interval);
+      off();
+    };
   }, [user.id, store]);
 
   // Tick every minute for countdown
@@ -48,31 +114,50 @@ export function DuelPanel({ user, store }: Props) {
     return () => clearInterval(interval);
   }, []);
 
-  const handleDecline = useCallback(async (duelId: string) => {
+  /** Run a move against the stored duel; `run` persists it when it succeeds */
+  const runStep = useCallback(async (duelId: string, run: (duel: Duel) => Promise<DuelStep>) => {
+    setError(null);
     const duel = await store.getDuel(duelId);
     if (!duel) return;
-    const updated: Duel = {
-      ...duel,
-      status: 'declined',
-      resolvedAt: Date.now(),
-    };
-    await store.saveDuel(updated);
-    setDuels(prev => prev.filter(d => d.id !== duelId));
-  }, [store]);
+    const step = await run(duel);
+    if (!step.ok) {
+      setError(step.error);
+      setDuels(await loadOpenDuels(store, user.id));
+      return;
+    }
+    setDuels(prev => (isDuelOpen(step.duel)
+      ? prev.map(d => d.id === duelId ? step.duel : d)
+      : prev.filter(d => d.id !== duelId)));
+  }, [store, user.id]);
 
-  const handleAccept = useCallback(async (duelId: string) => {
-    const duel = await store.getDuel(duelId);
-    if (!duel) return;
-    const now = Date.now();
-    const updated: Duel = {
-      ...duel,
-      status: 'active',
-      acceptedAt: now,
-      lastActionAt: now,
-    };
-    await store.saveDuel(updated);
-    setDuels(prev => prev.map(d => d.id === duelId ? updated : d));
-  }, [store]);
+  const handleStep = useCallback(async (duelId: string, move: (duel: Duel, userId: string) => DuelStep) => {
+    try {
+      await runStep(duelId, async (duel) => {
+        const step = move(duel, user.id);
+        if (step.ok) await commitDuel(store, step.duel, step.outcomes);
+        return step;
+      });
+    } catch (e) {
+      setError('Zug konnte nicht gespeichert werden.');
+      console.error('duel step error:', e);
+    }
+  }, [runStep, store, user.id]);
+
+  /** A round is a photo: downscaled and stripped of EXIF before it is stored */
+  const handlePhoto = useCallback(async (duelId: string, file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setSending(duelId);
+    try {
+      const image = await preparePhoto(file);
+      await runStep(duelId, (duel) => playPhotoRound(store, photos, duel, user.id, image));
+    } catch (e) {
+      setError('Foto konnte nicht gesendet werden.');
+      console.error('photo round error:', e);
+    } finally {
+      setSending(null);
+    }
+  }, [runStep, store, photos, user.id]);
 
   // Suppress unused _ warning
   void _;
@@ -87,8 +172,9 @@ export function DuelPanel({ user, store }: Props) {
           const isChallenger = duel.challengerUserId === user.id;
           const opponentBeerId = isChallenger ? duel.defenderBeerId : duel.challengerBeerId;
           const opponentBeer = BEER_MAP.get(opponentBeerId);
-          const timeLeft = getDuelTimeoutMs(duel);
+          const timeLeft = duelDeadline(duel) - getNow();
           const myBeer = BEER_MAP.get(isChallenger ? duel.challengerBeerId : duel.defenderBeerId);
+          const myTurn = duelTurn(duel) === user.id;
 
           return (
             <div key={duel.id} className={`duel-item duel-${duel.status}`}>
@@ -107,17 +193,19 @@ export function DuelPanel({ user, store }: Props) {
                 </span>
               </div>
               <div className="duel-info">
-                <span className="duel-status-badge">{duel.status}</span>
+                <span className="duel-status-badge">{STATUS_LABELS[duel.status]}</span>
                 {duel.status === 'active' && (
-                  <span className="duel-rounds">Runde {duel.roundCount}</span>
+                  <span className="duel-rounds">
+                    Runde {duel.roundCount + 1} • {myTurn ? 'Du bist dran' : 'Gegner ist dran'}
+                  </span>
                 )}
               </div>
               {duel.status === 'pending' && !isChallenger && (
                 <div className="duel-actions">
-                  <button className="duel-accept" onClick={() => handleAccept(duel.id)}>
+                  <button className="duel-accept" onClick={() => handleStep(duel.id, acceptDuel)}>
                     Annehmen
                   </button>
-                  <button className="duel-decline" onClick={() => handleDecline(duel.id)}>
+                  <button className="duel-decline" onClick={() => handleStep(duel.id, declineDuel)}>
                     Ablehnen
                   </button>
                 </div>
@@ -125,10 +213,53 @@ export function DuelPanel({ user, store }: Props) {
               {duel.status === 'pending' && isChallenger && (
                 <p className="duel-waiting">Warte auf Antwort...</p>
               )}
+              {duel.status === 'active' && (
+                <DuelPhotos
+                  duelId={duel.id}
+                  roundCount={duel.roundCount}
+                  userId={user.id}
+                  store={store}
+                  photos={photos}
+                />
+              )}
+              {duel.status === 'active' && (
+                <div className="duel-actions">
+                  {myTurn && sending === duel.id && (
+                    <span className="duel-sending">Foto wird gesendet...</span>
+                  )}
+                  {myTurn && sending !== duel.id && (
+                    <>
+                      <label className="duel-accept duel-photo-btn">
+                        📷 Foto-Runde
+                        <input
+                          type="file"
+                          accept="image/*"
+                          capture="environment"
+                          hidden
+                          onChange={(e) => { handlePhoto(duel.id, e.target.files?.[0]); e.target.value = ''; }}
+                        />
+                      </label>
+                      <label className="duel-photo-btn duel-photo-file">
+                        🖼️ Aus Datei
+                        <input
+                          type="file"
+                          accept="image/*"
+                          hidden
+                          onChange={(e) => { handlePhoto(duel.id, e.target.files?.[0]); e.target.value = ''; }}
+                        />
+                      </label>
+                    </>
+                  )}
+                  <button className="duel-decline" onClick={() => handleStep(duel.id, concedeDuel)}>
+                    Aufgeben
+                  </button>
+                </div>
+              )}
             </div>
           );
         })}
       </div>
+      {error && <p className="duel-error">{error}</p>}
     </div>
   );
 }
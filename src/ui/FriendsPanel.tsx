@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { User, Friendship, UserPresence } from '../domain/types';
+import type { User, Friendship, UserPresence, RatingEntry } from '../domain/types';
 import type { StorageInterface } from '../storage/StorageInterface';
 import { isFirebaseConfigured } from '../config/firebase';
 import { GAME } from '../config/constants';
@@ -24,6 +24,10 @@ interface Props {
   onFriendIdsChange: (ids: string[]) => void;
   unreadCounts?: Map<string, number>;
   onLocateFriend?: (lat: number, lon: number) => void;
+  /** Challenge a friend of another beer to a duel */
+  onChallenge?: (friendUser: User) => void;
+  /** Duel ratings by userId; friends without duels have none */
+  ratings?: Map<string, RatingEntry>;
 }
 
 function formatLastActive(lastSeen: number): string {
@@ -34,7 +38,7 @@ function formatLastActive(lastSeen: number): string {
   return `Vor ${Math.floor(diff / 86400_000)} Tagen`;
 }
 
-export function FriendsPanel({ user, store, onOpenChat, friendPresence, onFriendIdsChange, unreadCounts, onLocateFriend }: Props) {
+export function FriendsPanel({ user, store, onOpenChat, friendPresence, onFriendIdsChange, unreadCounts, onLocateFriend, onChallenge, ratings }: Props) {
   const [friendships, setFriendships] = useState<Friendship[]>([]);
   const [friendUsers, setFriendUsers] = useState<Map<string, User>>(new Map());
   const [addInput, setAddInput] = useState('');
@@ -82,6 +86,7 @@ export function FriendsPanel({ user, store, onOpenChat, friendPresence, onFriend
               lastActiveAt: profile.lastActiveAt,
               homeLat: profile.homeLat,
               homeLon: profile.homeLon,
+              homeSetAt: profile.homeSetAt,
               beerId: profile.beerId,
               standYourGroundEnabled: false,
               ageVerified: true,
@@ -306,6 +311,7 @@ export function FriendsPanel({ user, store, onOpenChat, friendPresence, onFriend
               const beer = friendUser ? BEER_MAP.get(friendUser.beerId) : null;
               const online = isOnline(friendId);
               const presence = friendPresence.get(friendId);
+              const rating = ratings?.get(friendId);
 
               return (
                 <div key={fs.id} className="friend-item">
@@ -324,6 +330,14 @@ export function FriendsPanel({ user, store, onOpenChat, friendPresence, onFriend
                           : presence
                             ? formatLastActive(presence.lastSeen)
                             : 'Unbekannt'}
+                        {rating && (
+                          <span
+                            className="friend-rating"
+                            title={`Duell-Rating • ${rating.wins} Siege, ${rating.losses} Niederlagen`}
+                          >
+                            {` • ⚔️ ${Math.round(rating.rating)}`}
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
@@ -338,6 +352,15 @@ export function FriendsPanel({ user, store, onOpenChat, friendPresence, onFriend
                         📍
                       </button>
                     )}
+                    {friendUser && friendUser.beerId !== user.beerId && onChallenge && (
+                      <button
+                        className="friend-challenge-btn"
+                        onClick={() => onChallenge(friendUser)}
+                        title="Herausfordern"
+                      >
+                        ⚔️
+                      </button>
+                    )}
                     <button
                       className="friend-chat-btn"
                       onClick={() => handleOpenChat(friendId)}
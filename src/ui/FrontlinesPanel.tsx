@@ -0,0 +1,50 @@
+import type { RegionGraph } from '../domain/types';
+import { BEER_MAP } from '../domain/beers';
+import './FrontlinesPanel.css';
+
+interface Props {
+  graph: RegionGraph | null;
+  onNavigate: (lat: number, lon: number, zoom: number) => void;
+}
+
+const MAX_FRONTS = 6;
+
+export function FrontlinesPanel({ graph, onNavigate }: Props) {
+  if (!graph || graph.fronts.length === 0) return null;
+
+  return (
+    <div className="frontlines-panel">
+      <h3>Frontlinien</h3>
+      {graph.fronts.slice(0, MAX_FRONTS).map((front) => {
+        const [a, b] = front.beerIds.map((id) => BEER_MAP.get(id));
+        return (
+          <div
+            key={front.id}
+            className="front-item"
+            onClick={() => onNavigate(front.lat, front.lon, 12)}
+          >
+            <span className="front-beers">
+              <span className="front-dot" style={{ background: a?.color }} />
+              <span className="front-dot" style={{ background: b?.color }} />
+            </span>
+            <div className="front-text">
+              <div className="front-title">
+                {a?.name ?? '?'} vs {b?.name ?? '?'}
+              </div>
+              <div className="front-subtitle">
+                {front.placeName ? `${front.placeName} • ` : ''}
+                {front.contestedKm > 0
+                  ? `${front.contestedKm.toFixed(1)} von ${front.borderKm.toFixed(1)} km umkämpft`
+                  : `${front.borderKm.toFixed(1)} km Grenze`}
+                {` • ${Math.round(front.avgMargin * 100)}% Vorsprung`}
+              </div>
+            </div>
+            <span className="front-flip" title="Gewicht, das an der schwächsten Stelle zum Kippen fehlt">
+              {front.minFlipWeight.toFixed(1)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
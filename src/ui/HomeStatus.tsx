@@ -1,6 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { User, WeightBreakdown } from '../domain/types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { DominanceResult, InfluenceResult, User, WeightBreakdown } from '../domain/types';
 import { computeWeightBreakdown } from '../domain/weights';
+import { cellIndexAt } from '../domain/geo';
+import { runnerUpAt, winnerAt } from '../domain/dominanceColumns';
+import { flipCostCaption, flipCostOfCell, flipVoteSpecs } from '../domain/flipCost';
 import type { StorageInterface } from '../storage/StorageInterface';
 import { BEER_MAP } from '../domain/beers';
 import './HomeStatus.css';
@@ -9,9 +12,15 @@ interface Props {
   user: User;
   store: StorageInterface;
   onUserUpdate: (user: User) => void;
+  dominanceData: DominanceResult | null;
+  influence: InfluenceResult | null;
+  showInfluence: boolean;
+  onToggleInfluence: (show: boolean) => void;
 }
 
-export function HomeStatus({ user, store, onUserUpdate }: Props) {
+export function HomeStatus({
+  user, store, onUserUpdate, dominanceData, influence, showInfluence, onToggleInfluence,
+}: Props) {
   const [breakdown, setBreakdown] = useState<WeightBreakdown | null>(null);
   const [copied, setCopied] = useState(false);
 
@@ -53,6 +62,24 @@ export function HomeStatus({ user, store, onUserUpdate }: Props) {
     onUserUpdate(updated);
   }, [user, store, onUserUpdate]);
 
+  // Who holds the home cell, and what it takes to win or lose it
+  const homeCell = useMemo(() => {
+    if (!dominanceData) return null;
+    const { rows, cols, gridSpec } = dominanceData;
+    const at = cellIndexAt(gridSpec, rows, cols, user.homeLat, user.homeLon);
+    if (!at) return null;
+    const i = at.row * cols + at.col;
+    const holder = winnerAt(dominanceData, i);
+    if (!holder) return null;
+    const specs = flipVoteSpecs(user);
+    if (holder === user.beerId) {
+      const rival = runnerUpAt(dominanceData, i);
+      const threat = rival ? flipCostOfCell(dominanceData, at.row, at.col, rival, specs) : null;
+      return { held: true as const, threat };
+    }
+    return { held: false as const, cost: flipCostOfCell(dominanceData, at.row, at.col, user.beerId, specs) };
+  }, [dominanceData, user]);
+
   const beer = BEER_MAP.get(user.beerId);
 
   return (
@@ -103,6 +130,51 @@ export function HomeStatus({ user, store, onUserUpdate }: Props) {
         </div>
       )}
 
+      {influence && influence.userId === user.id && (
+        <div className="home-status-influence">
+          <span className="home-status-influence-headline">
+            Du entscheidest {Math.round(influence.decisiveKm2).toLocaleString('de-DE')} km²
+          </span>
+          {influence.backedKm2 > 0 && (
+            <span className="home-status-flip-detail">
+              Ø {Math.round(influence.avgShare * 100)}% des Siegergewichts auf{' '}
+              {Math.round(influence.backedKm2).toLocaleString('de-DE')} km²
+            </span>
+          )}
+          <button
+            className={`home-status-influence-btn ${showInfluence ? 'active' : ''}`}
+            onClick={() => onToggleInfluence(!showInfluence)}
+          >
+            {showInfluence ? 'Einfluss ausblenden' : 'Einfluss auf Karte zeigen'}
+          </button>
+        </div>
+      )}
+
+      {homeCell && (
+        <div className="home-status-flip">
+          {homeCell.held ? (
+            <>
+              <span className="stat-label">Heimatzelle gehalten</span>
+              {homeCell.threat && (
+                <span className="home-status-flip-detail">
+                  {BEER_MAP.get(homeCell.threat.challengerBeerId)?.name ?? homeCell.threat.challengerBeerId} fehlen{' '}
+                  {homeCell.threat.extraWeight.toFixed(1)} Gewicht
+                </span>
+              )}
+            </>
+          ) : homeCell.cost && (
+            <>
+              <span className="stat-label">
+                Heimatzelle an {BEER_MAP.get(homeCell.cost.holderBeerId)?.name ?? homeCell.cost.holderBeerId} verloren
+              </span>
+              <span className="home-status-flip-detail">
+                Zurückholen: {flipCostCaption(homeCell.cost)} (+{homeCell.cost.extraWeight.toFixed(1)} Gewicht)
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
       <label className="syg-toggle">
         <input
           type="checkbox"
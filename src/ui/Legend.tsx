@@ -1,17 +1,20 @@
-import { BEERS } from '../domain/beers';
+import type { PlayArea } from '../domain/types';
 import './Legend.css';
 
 interface Props {
   voteCount: number;
+  playArea: PlayArea;
   showSwords: boolean;
+  /** Export the current territories; the button is disabled while undefined */
+  onExport?: () => void;
 }
 
-export function Legend({ voteCount, showSwords }: Props) {
+export function Legend({ voteCount, playArea, showSwords, onExport }: Props) {
   return (
     <div className="legend">
       <h3>Legende</h3>
       <div className="legend-items">
-        {BEERS.map((beer) => (
+        {playArea.beers.map((beer) => (
           <div key={beer.id} className="legend-item">
             <span
               className="legend-swatch"
@@ -33,7 +36,10 @@ export function Legend({ voteCount, showSwords }: Props) {
         )}
       </div>
       <div className="legend-stats">
-        Votes: {voteCount}
+        <span>Votes: {voteCount}</span>
+        <button className="legend-export" onClick={onExport} disabled={!onExport}>
+          GeoJSON exportieren
+        </button>
       </div>
     </div>
   );
@@ -1,11 +1,12 @@
 import { useEffect, useRef, useCallback, useImperativeHandle, forwardRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import type { Vote, DominanceResult, GridSpec, OverlaySettings, ViewportBounds, Region } from '../domain/types';
+import type { Vote, DominanceResult, GridSpec, OverlaySettings, ViewportBounds, Region, PlayArea, FlipVoteSpec, InfluenceResult } from '../domain/types';
 import { BEER_MAP } from '../domain/beers';
-import { DACH_CENTER, getDefaultBoundingBox } from '../domain/geo';
 import { DominanceCanvasLayer, findCellAt } from './CanvasOverlay';
 import { findRegionForCell } from '../domain/regions';
+import { holdsCaption } from '../domain/gazetteer';
+import { flipCostCaption, flipCostOfRegion } from '../domain/flipCost';
 import { appEvents } from '../domain/events';
 import './MapView.css';
 
@@ -33,21 +34,34 @@ export interface FriendLocation {
   online: boolean;
 }
 
+/** Cell weights are float32; show at most one decimal */
+function formatWeight(w: number): number {
+  return Math.round(w * 10) / 10;
+}
+
 interface Props {
   votes: Vote[];
   dominanceData: DominanceResult | null;
   regions: Region[];
   gridSpec: GridSpec;
+  playArea: PlayArea;
   userVotePosition: { lat: number; lon: number } | null;
   onMapClick: (lat: number, lon: number) => void;
   overlaySettings: OverlaySettings;
   onViewportChange?: (bounds: ViewportBounds, zoom: number) => void;
   onShareRegion?: (region: Region) => void;
+  /** Offered in the click popup for contested regions */
+  onChallengeRegion?: (region: Region) => void;
   friendLocations?: FriendLocation[];
+  /** Beer the click popup prices a takeover for, with the votes to do it */
+  flipBeerId?: string;
+  flipVotes?: FlipVoteSpec[];
+  /** Highlight of where the user's votes matter, null to hide it */
+  influence?: InfluenceResult | null;
 }
 
 export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
-  { votes, dominanceData, regions, gridSpec, userVotePosition, onMapClick, overlaySettings, onViewportChange, onShareRegion, friendLocations },
+  { votes, dominanceData, regions, gridSpec, playArea, userVotePosition, onMapClick, overlaySettings, onViewportChange, onShareRegion, onChallengeRegion, friendLocations, flipBeerId, flipVotes, influence },
   ref
 ) {
   const mapContainerRef = useRef<HTMLDivElement>(null);
@@ -58,12 +72,17 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
   const friendMarkersRef = useRef<L.LayerGroup | null>(null);
   const hoverDivRef = useRef<HTMLDivElement | null>(null);
   const clickPopupRef = useRef<L.Popup | null>(null);
+  const areaOutlineRef = useRef<L.Rectangle | null>(null);
+  /** Area the view was last centred on; later changes move the map there */
+  const shownAreaRef = useRef(playArea);
   const dominanceDataRef = useRef<DominanceResult | null>(null);
   const regionsRef = useRef<Region[]>([]);
   const settingsRef = useRef<OverlaySettings>(overlaySettings);
   const onShareRegionRef = useRef(onShareRegion);
+  const onChallengeRegionRef = useRef(onChallengeRegion);
   const onViewportChangeRef = useRef(onViewportChange);
   const userVotePositionRef = useRef(userVotePosition);
+  const flipRef = useRef({ beerId: flipBeerId, votes: flipVotes });
 
   // Keep mutable refs for event handlers
   dominanceDataRef.current = dominanceData;
@@ -73,6 +92,14 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
   onViewportChangeRef.current = onViewportChange;
   userVotePositionRef.current = userVotePosition;
 
+  useEffect(() => {
+    flipRef.current = { beerId: flipBeerId, votes: flipVotes };
+  }, [flipBeerId, flipVotes]);
+
+  useEffect(() => {
+    onChallengeRegionRef.current = onChallengeRegion;
+  }, [onChallengeRegion]);
+
   // Expose flyTo via ref
   useImperativeHandle(ref, () => ({
     flyTo: (lat: number, lon: number, zoom: number) => {
@@ -102,8 +129,9 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
 
+    const area = shownAreaRef.current;
     const map = L.map(mapContainerRef.current, {
-      center: [DACH_CENTER.lat, DACH_CENTER.lon],
+      center: [area.center.lat, area.center.lon],
       zoom: 6,
       zoomControl: true,
     });
@@ -115,9 +143,9 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
       maxZoom: 19,
     }).addTo(map);
 
-    // Bounding box outline
-    const bb = getDefaultBoundingBox();
-    L.rectangle(
+    // Play area outline
+    const bb = area.bounds;
+    areaOutlineRef.current = L.rectangle(
       [[bb.minLat, bb.minLon], [bb.maxLat, bb.maxLon]],
       {
         color: '#94a3b8',
@@ -197,6 +225,19 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
     };
   }, [emitViewport]);
 
+  // Move the outline and the view along when the play area changes
+  useEffect(() => {
+    const map = mapRef.current;
+    const outline = areaOutlineRef.current;
+    if (!map || !outline) return;
+    const bb = playArea.bounds;
+    outline.setBounds([[bb.minLat, bb.minLon], [bb.maxLat, bb.maxLon]]);
+    if (shownAreaRef.current !== playArea) {
+      shownAreaRef.current = playArea;
+      map.setView([playArea.center.lat, playArea.center.lon], 6);
+    }
+  }, [playArea]);
+
   // Handle map click — open click popup with share button + emit event
   useEffect(() => {
     const map = mapRef.current;
@@ -222,19 +263,34 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
             const beer = BEER_MAP.get(region.beerId);
             const beerName = beer?.name ?? region.beerId;
             const marginPct = Math.round(region.avgMargin * 100);
+            const flip = flipRef.current;
+            const flipCost = flip.beerId && flip.votes
+              ? flipCostOfRegion(data, region, flip.beerId, flip.votes)
+              : null;
+            const flipBeer = flipCost ? BEER_MAP.get(flipCost.challengerBeerId) : null;
+            const contested = region.runnerUpBeerId !== null
+              && region.avgMargin <= settingsRef.current.closeMarginThreshold;
+            const canChallenge = contested && !!flip.beerId && !!onChallengeRegionRef.current;
 
             const popupContent = `
               <div class="click-popup-content">
                 <div class="click-popup-title">
                   <span class="click-popup-dot" style="background:${beer?.color ?? '#888'}"></span>
-                  ${beerName}
+                  ${holdsCaption(beerName, region.placeName)}
                 </div>
                 <div class="click-popup-stats">
                   ${region.cellCount} Zellen &middot; ${region.totalVotes} Votes &middot; ${marginPct}% Vorsprung
                 </div>
+                ${flipCost ? `<div class="click-popup-flip">
+                  F&uuml;r ${flipBeer?.name ?? flipCost.challengerBeerId}: ${flipCostCaption(flipCost)}
+                  <span class="click-popup-flip-weight">+${formatWeight(flipCost.extraWeight)} Gewicht</span>
+                </div>` : ''}
                 <button class="click-popup-share-btn" data-region-id="${region.id}">
                   &#x1F4E4; Region teilen
                 </button>
+                ${canChallenge ? `<button class="click-popup-share-btn click-popup-challenge-btn">
+                  &#x2694;&#xFE0F; Herausfordern
+                </button>` : ''}
               </div>`;
 
             const popup = clickPopupRef.current;
@@ -244,7 +300,7 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
                 .setContent(popupContent)
                 .openOn(map);
 
-              // Attach share button handler after DOM paint
+              // Attach button handlers after DOM paint
               requestAnimationFrame(() => {
                 const btn = document.querySelector('.click-popup-share-btn') as HTMLElement | null;
                 if (btn) {
@@ -254,6 +310,14 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
                     map.closePopup(popup);
                   };
                 }
+                const challengeBtn = document.querySelector('.click-popup-challenge-btn') as HTMLElement | null;
+                if (challengeBtn) {
+                  challengeBtn.onclick = (ev) => {
+                    ev.stopPropagation();
+                    onChallengeRegionRef.current?.(region);
+                    map.closePopup(popup);
+                  };
+                }
               });
             }
           }
@@ -334,7 +398,7 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
           <div class="tooltip-row${isWinner ? ' winner' : ''}">
             <span class="tooltip-dot" style="background:${beer.color}"></span>
             <span class="tooltip-name">${beer.name}</span>
-            <span class="tooltip-count">${count}</span>
+            <span class="tooltip-count">${formatWeight(count)}</span>
             <span class="tooltip-pct">${pct}%</span>
           </div>`;
       }
@@ -353,7 +417,7 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
 
       hoverDiv.innerHTML = `
         <div class="cell-tooltip">
-          <div class="tooltip-header">Votes gesamt: <strong>${cell.totalCount}</strong></div>
+          <div class="tooltip-header">Votes gesamt: <strong>${formatWeight(cell.totalCount)}</strong></div>
           <div class="tooltip-breakdown">${breakdownHtml}</div>
           ${closeCallHtml}
         </div>`;
@@ -380,6 +444,11 @@ export const MapView = forwardRef<MapViewHandle, Props>(function MapView(
     canvasLayerRef.current?.setDominanceData(dominanceData);
   }, [dominanceData]);
 
+  // Update influence highlight
+  useEffect(() => {
+    canvasLayerRef.current?.setInfluence(influence ?? null);
+  }, [influence]);
+
   // Update canvas overlay settings
   useEffect(() => {
     canvasLayerRef.current?.setSettings(overlaySettings);
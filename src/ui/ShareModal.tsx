@@ -1,19 +1,21 @@
 import { useState, useMemo, useRef, useCallback } from 'react';
-import type { SharePayload } from '../domain/types';
+import type { PlayArea, SharePayload } from '../domain/types';
 import { encodeShareLink } from '../domain/shareLink';
 import { generateShareCard, downloadShareCard } from '../domain/shareCard';
+import { holdsCaption } from '../domain/gazetteer';
 import './ShareModal.css';
 
 interface Props {
   payload: SharePayload;
+  playArea: PlayArea;
   onClose: () => void;
 }
 
-export function ShareModal({ payload, onClose }: Props) {
+export function ShareModal({ payload, playArea, onClose }: Props) {
   const [copied, setCopied] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const link = useMemo(() => encodeShareLink(payload), [payload]);
-  const cardDataUrl = useMemo(() => generateShareCard(payload), [payload]);
+  const cardDataUrl = useMemo(() => generateShareCard(payload, playArea), [payload, playArea]);
 
   const handleCopy = useCallback(() => {
     // Use modern clipboard API with fallback for iOS/WKWebView
@@ -41,14 +43,14 @@ export function ShareModal({ payload, onClose }: Props) {
   }, [link]);
 
   const handleDownload = useCallback(() => {
-    downloadShareCard(payload);
-  }, [payload]);
+    downloadShareCard(payload, playArea);
+  }, [payload, playArea]);
 
   return (
     <div className="share-overlay" onClick={onClose}>
       <div className="share-modal" onClick={(e) => e.stopPropagation()}>
         <h2>Region teilen</h2>
-        <p className="share-subtitle">{payload.beerName} &mdash; {payload.cellCount} Zellen</p>
+        <p className="share-subtitle">{holdsCaption(payload.beerName, payload.placeName)} &mdash; {payload.cellCount} Zellen</p>
 
         <img src={cardDataUrl} alt="Share card preview" className="share-preview" />
 
@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { DominanceSnapshot, PlayArea } from '../domain/types';
+import { historyStart, snapshotAt } from '../domain/history';
+import { getNow } from '../domain/clock';
+import './TimeLapse.css';
+
+interface Props {
+  snapshots: DominanceSnapshot[];
+  playArea: PlayArea;
+  /** Moment the map is replayed at, null when live */
+  replayAt: number | null;
+  /** Replay the map at a moment (exact recompute), null goes back to live */
+  onSeek: (at: number | null) => void;
+  /** Show a stored snapshot right away while dragging or playing */
+  onPreview: (snapshot: DominanceSnapshot | null) => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const FRAME_MS = 700;
+
+function formatTime(at: number, locale: string): string {
+  return new Date(at).toLocaleString(locale, {
+    weekday: 'short', day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+/**
+ * Time slider over the last HISTORY_DAYS. Dragging previews stored
+ * snapshots; releasing replays the exact moment from the vote history.
+ * Play steps through the snapshots and ends back at the live map.
+ */
+export function TimeLapse({ snapshots, playArea, replayAt, onSeek, onPreview }: Props) {
+  const [end] = useState(getNow);
+  const start = historyStart(end);
+  const [draft, setDraft] = useState<number | null>(null);
+  const [playIndex, setPlayIndex] = useState<number | null>(null);
+  const ordered = useMemo(() => [...snapshots].sort((a, b) => a.takenAt - b.takenAt), [snapshots]);
+
+  // Each frame shows one snapshot; after the newest the map goes live again
+  useEffect(() => {
+    if (playIndex === null) return;
+    const snapshot = ordered[playIndex];
+    if (snapshot) onPreview(snapshot);
+    const id = setTimeout(() => {
+      if (playIndex + 1 < ordered.length) {
+        setPlayIndex(playIndex + 1);
+      } else {
+        setPlayIndex(null);
+        onPreview(null);
+        onSeek(null);
+      }
+    }, FRAME_MS);
+    return () => clearTimeout(id);
+  }, [playIndex, ordered, onPreview, onSeek]);
+
+  const playingAt = playIndex !== null ? ordered[playIndex]?.takenAt ?? null : null;
+  const shownAt = playingAt ?? draft ?? replayAt;
+
+  const handleDrag = (value: number) => {
+    setDraft(value);
+    onPreview(snapshotAt(ordered, value));
+  };
+
+  const handleRelease = () => {
+    if (draft === null) return;
+    onPreview(null);
+    onSeek(draft >= end - HOUR_MS ? null : draft);
+    setDraft(null);
+  };
+
+  const handlePlay = () => {
+    if (playIndex !== null) {
+      setPlayIndex(null);
+      onPreview(null);
+      if (playingAt !== null) onSeek(playingAt);
+      return;
+    }
+    if (ordered.length === 0) return;
+    const from = replayAt === null ? 0 : ordered.findIndex((s) => s.takenAt >= replayAt);
+    setPlayIndex(Math.max(0, from));
+  };
+
+  const handleLive = () => {
+    setPlayIndex(null);
+    setDraft(null);
+    onPreview(null);
+    onSeek(null);
+  };
+
+  return (
+    <div className="time-lapse">
+      <div className="time-lapse-header">
+        <h3>Zeitreise</h3>
+        <span className={`time-lapse-when${shownAt === null ? ' live' : ''}`}>
+          {shownAt === null ? 'Live' : formatTime(shownAt, playArea.locale)}
+        </span>
+      </div>
+      <input
+        className="time-lapse-slider"
+        type="range"
+        min={start}
+        max={end}
+        step={HOUR_MS}
+        value={shownAt ?? end}
+        disabled={playIndex !== null}
+        onChange={(e) => handleDrag(Number(e.target.value))}
+        onPointerUp={handleRelease}
+        onKeyUp={handleRelease}
+      />
+      <div className="time-lapse-controls">
+        <button className="time-lapse-btn" onClick={handlePlay} disabled={ordered.length === 0}>
+          {playIndex !== null ? '⏸ Anhalten' : '▶ Abspielen'}
+        </button>
+        <span className="time-lapse-count">{ordered.length} Schnappschüsse</span>
+        <button className="time-lapse-btn" onClick={handleLive} disabled={shownAt === null}>
+          Live
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { BandWorkerMessage, BandWorkerOutput, GridCell, GridSpec } from '../domain/types';
+import { computeDominanceCells, prepareDominance, type DominanceContext } from '../domain/dominance';
+import { columnTransferables, packCells } from '../domain/dominanceColumns';
+import { precomputeGrid } from '../domain/geo';
+
+// Vote set and grid of the job currently being computed in bands
+let jobId = -1;
+let ctx: DominanceContext | null = null;
+let gridSpec: GridSpec | null = null;
+// Built on the first band; tile jobs never need the job's grid
+let cells: GridCell[] | null = null;
+let cols = 0;
+
+self.onmessage = (e: MessageEvent<BandWorkerMessage>) => {
+  const msg = e.data;
+
+  if (msg.type === 'prepare') {
+    jobId = msg.jobId;
+    ctx = prepareDominance(msg.votes, msg.radiusKm, msg.weightedVotes, msg.kernels);
+    gridSpec = msg.gridSpec;
+    cells = null;
+    return;
+  }
+
+  // Units of a job we were not prepared for are stale
+  if (msg.jobId !== jobId || !ctx || !gridSpec) return;
+
+  let unitCells: GridCell[];
+  if (msg.type === 'tile') {
+    unitCells = precomputeGrid(msg.gridSpec).cells;
+  } else {
+    if (!cells) {
+      const grid = precomputeGrid(gridSpec);
+      cells = grid.cells;
+      cols = grid.cols;
+    }
+    unitCells = cells.slice(msg.r0 * cols, (msg.r1 + 1) * cols);
+  }
+
+  const columns = packCells(computeDominanceCells(ctx, unitCells));
+  const output: BandWorkerOutput = { jobId, unit: msg.unit, cells: columns };
+
+  self.postMessage(output, { transfer: columnTransferables(columns) });
+};
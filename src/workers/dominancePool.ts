@@ -0,0 +1,163 @@
+import type {
+  BandInput,
+  BandPrepareInput,
+  BandWorkerOutput,
+  CellColumns,
+  CellResult,
+  GridSpec,
+  TileInput,
+  WorkerInput,
+} from '../domain/types';
+import { bandRows } from '../domain/dominanceSession';
+import { unpackCells } from '../domain/dominanceColumns';
+import { GAME } from '../config/constants';
+
+/**
+ * Number of band workers worth spawning: one per core, minus the main thread.
+ * Below 2 the coordinator computes on its own thread instead.
+ */
+export function poolSize(): number {
+  const cores = navigator.hardwareConcurrency || 1;
+  return Math.max(1, Math.min(GAME.WORKER_POOL_MAX, cores - 1));
+}
+
+function spawnBandWorker(): Worker {
+  return new Worker(
+    new URL('./dominanceBandWorker.ts', import.meta.url),
+    { type: 'module' }
+  );
+}
+
+/** Unit of pool work: rows r0..r1 of the job's grid, or a whole lattice tile */
+export type PoolUnit =
+  | { type: 'band'; r0: number; r1: number }
+  | { type: 'tile'; gridSpec: GridSpec };
+
+/**
+ * Band workers for full dominance jobs. The grid is cut into row bands of
+ * about DOMINANCE_CHUNK_CELLS cells (or lattice tiles of the same size),
+ * handed out to idle workers one at a time, and the packed results are
+ * stitched back in place.
+ */
+export class DominancePool {
+  private workers: Worker[] = [];
+
+  constructor(size: number) {
+    for (let i = 0; i < size; i++) {
+      this.workers.push(spawnBandWorker());
+    }
+  }
+
+  /** Swap a crashed worker for a fresh one so the pool keeps its size */
+  private replace(worker: Worker): void {
+    worker.terminate();
+    const i = this.workers.indexOf(worker);
+    if (i >= 0) this.workers[i] = spawnBandWorker();
+  }
+
+  /**
+   * Raw (unsmoothed) cell results for the whole grid, or null when
+   * `cancelled()` turns true before the last band arrives. Rejects when a
+   * band worker crashes.
+   */
+  async computeRaw(
+    input: WorkerInput,
+    rows: number,
+    cols: number,
+    onProgress: (progress: number) => void,
+    cancelled: () => boolean,
+  ): Promise<CellResult[] | null> {
+    const step = bandRows(cols);
+    const bands: PoolUnit[] = [];
+    for (let r0 = 0; r0 < rows; r0 += step) {
+      bands.push({ type: 'band', r0, r1: Math.min(rows - 1, r0 + step - 1) });
+    }
+
+    const raw: CellResult[] = new Array(rows * cols);
+    const done = await this.run(input, bands, (k, cells) => {
+      const { r0 } = bands[k] as { r0: number };
+      const band = unpackCells(cells, cols, r0);
+      for (let i = 0; i < band.length; i++) raw[r0 * cols + i] = band[i];
+    }, onProgress, cancelled);
+    return done ? raw : null;
+  }
+
+  /**
+   * Compute every unit on the idle workers, handing each packed result to
+   * `onUnit` as it arrives. Resolves false when `cancelled()` turns true
+   * before the last unit is in; rejects when a worker crashes or sends an
+   * unreadable message. That worker is replaced, the others keep running.
+   */
+  run(
+    input: WorkerInput,
+    units: PoolUnit[],
+    onUnit: (index: number, cells: CellColumns) => void,
+    onProgress: (progress: number) => void,
+    cancelled: () => boolean,
+  ): Promise<boolean> {
+    const { jobId } = input;
+    if (units.length === 0) return Promise.resolve(true);
+
+    const prepare: BandPrepareInput = {
+      type: 'prepare',
+      jobId,
+      votes: input.votes,
+      weightedVotes: input.weightedVotes ?? [],
+      gridSpec: input.gridSpec,
+      radiusKm: input.radiusKm,
+      kernels: input.kernels,
+    };
+
+    return new Promise((resolve, reject) => {
+      let next = 0;
+      let done = 0;
+      let settled = false;
+
+      const dispatch = (worker: Worker) => {
+        if (next >= units.length) return;
+        const unit = next++;
+        const spec = units[unit];
+        const msg: BandInput | TileInput = spec.type === 'band'
+          ? { type: 'band', jobId, unit, r0: spec.r0, r1: spec.r1 }
+          : { type: 'tile', jobId, unit, gridSpec: spec.gridSpec };
+        worker.postMessage(msg);
+      };
+
+      const fail = (worker: Worker, reason: string) => {
+        this.replace(worker);
+        if (settled) return;
+        settled = true;
+        reject(new Error(reason));
+      };
+
+      for (const worker of this.workers.slice(0, units.length)) {
+        worker.onerror = (e: ErrorEvent) => {
+          e.preventDefault();
+          fail(worker, `Band worker crashed: ${e.message}`);
+        };
+        worker.onmessageerror = () => fail(worker, 'Band worker sent an unreadable message');
+        worker.onmessage = (e: MessageEvent<BandWorkerOutput>) => {
+          // Late units of an earlier job
+          if (settled || e.data.jobId !== jobId) return;
+          if (cancelled()) {
+            settled = true;
+            resolve(false);
+            return;
+          }
+
+          onUnit(e.data.unit, e.data.cells);
+          done++;
+          onProgress(done / units.length);
+          if (done === units.length) {
+            settled = true;
+            resolve(true);
+          } else {
+            dispatch(worker);
+          }
+        };
+        worker.postMessage(prepare);
+        dispatch(worker);
+      }
+    });
+  }
+}
@@ -1,26 +1,173 @@
-import type { WorkerInput, WorkerOutput } from '../domain/types';
+import type { DominanceResult, WorkerInput, WorkerMessage, WorkerOutput, WorkerSnapshotInput } from '../domain/types';
+import { DominanceSession } from '../domain/dominanceSession';
+import { columnTransferables } from '../domain/dominanceColumns';
 import { precomputeGrid } from '../domain/geo';
-import { computeDominance, smoothWinnerGrid, mergeSmallIslands } from '../domain/dominance';
+import { placeTile, planTiles, TileCache } from '../domain/tileCache';
+import { DominancePool, poolSize } from './dominancePool';
 
-self.onmessage = (e: MessageEvent<WorkerInput>) => {
-  const { votes, weightedVotes, gridSpec, radiusKm, smoothingIterations, mergeIslandSize } = e.data;
+// Kept across messages so deltas can update the last grid in place
+const session = new DominanceSession();
 
-  const { rows, cols, cells } = precomputeGrid(gridSpec);
-  const cellResults = computeDominance(cells, votes, radiusKm, weightedVotes);
+// Raw lattice tiles of earlier full jobs, reused while their votes are unchanged
+const tileCache = new TileCache();
 
-  // Post-process: smooth jagged borders and merge small islands
-  smoothWinnerGrid(cellResults, rows, cols, smoothingIterations ?? 2);
-  mergeSmallIslands(cellResults, rows, cols, mergeIslandSize ?? 8);
+// Full jobs are spread over band workers when there are spare cores
+const size = poolSize();
+const pool = size > 1 ? new DominancePool(size) : null;
 
-  const output: WorkerOutput = {
-    type: 'result',
-    data: {
-      rows,
-      cols,
-      cells: cellResults,
-      gridSpec,
-    },
-  };
+/** Jobs waiting to run, in arrival order */
+let queue: Exclude<WorkerMessage, WorkerSnapshotInput>[] = [];
+/** Snapshot jobs; they wait for the queue to empty and survive full jobs */
+const snapshotQueue: WorkerSnapshotInput[] = [];
+/** Newest full job seen; anything older is obsolete */
+let latestFullJobId = -1;
+let running = false;
 
-  self.postMessage(output);
+/** Let pending messages (newer jobs) be delivered between chunks. */
+const channel = new MessageChannel();
+const pending: (() => void)[] = [];
+channel.port1.onmessage = () => pending.shift()?.();
+function yieldToMessages(): Promise<void> {
+  return new Promise(resolve => {
+    pending.push(resolve);
+    channel.port2.postMessage(null);
+  });
+}
+
+function post(output: WorkerOutput, transfer: Transferable[] = []) {
+  self.postMessage(output, { transfer });
+}
+
+/** Run session steps on this thread, reporting progress between chunks. */
+async function runSteps(
+  steps: Generator<number, DominanceResult | null>,
+  jobId: number,
+): Promise<DominanceResult | null> {
+  // An abandoned job may leave the session half-updated; that is fine
+  // because it is only abandoned for a full job, which replaces all state.
+  let step = steps.next();
+  while (!step.done) {
+    post({ type: 'progress', jobId, progress: step.value });
+    await yieldToMessages();
+    if (latestFullJobId > jobId) return null;
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/** Full job on the band pool; smoothing and island merge run here on the stitched grid. */
+async function runPooled(pool: DominancePool, msg: WorkerInput): Promise<DominanceResult | null> {
+  const grid = precomputeGrid(msg.gridSpec);
+
+  // Lattice grid: only tiles missing from the cache go to the pool
+  const plan = planTiles(msg, grid, tileCache);
+  if (plan) {
+    const { raw, missing } = plan;
+    const done = await pool.run(
+      msg,
+      missing.map(tile => ({ type: 'tile', gridSpec: tile.gridSpec })),
+      (k, cells) => {
+        tileCache.set(missing[k].key, cells);
+        placeTile(raw, grid, missing[k].slot, cells);
+      },
+      progress => post({ type: 'progress', jobId: msg.jobId, progress }),
+      () => latestFullJobId > msg.jobId,
+    );
+    return done ? session.adopt(msg, grid, raw) : null;
+  }
+
+  const raw = await pool.computeRaw(
+    msg,
+    grid.rows,
+    grid.cols,
+    progress => post({ type: 'progress', jobId: msg.jobId, progress }),
+    () => latestFullJobId > msg.jobId,
+  );
+  return raw ? session.adopt(msg, grid, raw) : null;
+}
+
+/** Snapshot on a session of its own, through the band pool when there is one. */
+async function runSnapshot(msg: WorkerSnapshotInput): Promise<DominanceResult | null> {
+  // Negative ids keep late bands of cancelled live jobs out of this one
+  const job: WorkerInput = { ...msg, type: 'compute', jobId: -msg.jobId };
+  const snapshotSession = new DominanceSession();
+  if (pool) {
+    try {
+      const grid = precomputeGrid(msg.gridSpec);
+      const raw = await pool.computeRaw(job, grid.rows, grid.cols, () => {}, () => false);
+      return raw ? snapshotSession.adopt(job, grid, raw) : null;
+    } catch (e) {
+      console.error('[dominanceWorker]', e);
+    }
+  }
+  const steps = snapshotSession.computeSteps(job);
+  let step = steps.next();
+  while (!step.done) {
+    await yieldToMessages();
+    step = steps.next();
+  }
+  return step.value;
+}
+
+async function run() {
+  running = true;
+  while (queue.length > 0 || snapshotQueue.length > 0) {
+    if (queue.length === 0) {
+      const msg = snapshotQueue.shift()!;
+      const data = await runSnapshot(msg);
+      if (data) post({ type: 'snapshot', jobId: msg.jobId, data }, columnTransferables(data));
+      continue;
+    }
+    const msg = queue.shift()!;
+
+    // Influence maps read the last grid; they never replace it. A newer
+    // request further down the queue makes this one moot.
+    if (msg.type === 'influence') {
+      if (queue.some(m => m.type === 'influence')) continue;
+      const influence = session.influence(msg.userId);
+      if (influence) {
+        post({ type: 'influence', jobId: msg.jobId, data: influence }, [influence.decisive.buffer, influence.share.buffer]);
+      }
+      continue;
+    }
+
+    // Full job: grid, raw weights, smoothing + island merge from scratch.
+    // Delta job: only cells inside the changed votes' radii are recomputed.
+    let data: DominanceResult | null;
+    if (msg.type === 'delta') {
+      data = await runSteps(session.applyDeltaSteps(msg), msg.jobId);
+    } else if (pool) {
+      try {
+        data = await runPooled(pool, msg);
+      } catch (e) {
+        // A band worker died: do this job on our own thread instead
+        console.error('[dominanceWorker]', e);
+        data = await runSteps(session.computeSteps(msg, tileCache), msg.jobId);
+      }
+    } else {
+      data = await runSteps(session.computeSteps(msg, tileCache), msg.jobId);
+    }
+
+    // Every job gets an answer, so the caller's progress never hangs
+    if (data) {
+      post({ type: 'result', jobId: msg.jobId, data }, columnTransferables(data));
+    } else {
+      post({ type: 'skipped', jobId: msg.jobId });
+    }
+  }
+  running = false;
+}
+
+self.onmessage = (e: MessageEvent<WorkerMessage>) => {
+  const msg = e.data;
+  if (msg.type === 'compute') {
+    // A full job makes every queued job obsolete
+    latestFullJobId = msg.jobId;
+    queue = [msg];
+  } else if (msg.type === 'snapshot') {
+    snapshotQueue.push(msg);
+  } else {
+    queue.push(msg);
+  }
+  if (!running) void run();
 };